@@ -0,0 +1,98 @@
+import 'dotenv/config';
+import { PrismaClient, IssueState, DisputeOutcome } from '@prisma/client';
+import { Pool } from 'pg';
+import { PrismaPg } from '@prisma/adapter-pg';
+
+/**
+ * Copy issues stored in review.review_content JSON into the review_issue table
+ * Idempotent: reviews that already have issue rows are skipped
+ */
+const prisma = new PrismaClient({
+  adapter: new PrismaPg(new Pool({ connectionString: process.env.DATABASE_URL })),
+});
+
+const BATCH_SIZE = 200;
+
+async function main() {
+  console.log('Backfilling review issues from review_content...');
+
+  const suppressions = await prisma.issueSuppression.findMany({
+    select: { projectId: true, mergeRequestIid: true, fingerprint: true },
+  });
+  const suppressed = new Set(suppressions.map((s) => `${s.projectId}:${s.mergeRequestIid}:${s.fingerprint}`));
+
+  let cursor: string | undefined;
+  let reviewsUpdated = 0;
+  let issuesCreated = 0;
+
+  for (;;) {
+    const reviews = await prisma.review.findMany({
+      where: { issues: { none: {} }, ...(cursor && { id: { gt: cursor } }) },
+      select: { id: true, projectId: true, mergeRequestIid: true, reviewContent: true },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+    });
+
+    if (reviews.length === 0) {
+      break;
+    }
+    cursor = reviews[reviews.length - 1].id;
+
+    for (const review of reviews) {
+      const issues = ((review.reviewContent as any)?.issues || []) as any[];
+      const data = issues
+        .filter((issue) => issue && typeof issue.file === 'string' && typeof issue.message === 'string')
+        .map((issue) => {
+          const line = Number.isInteger(issue.line) && issue.line > 0 ? issue.line : 1;
+          const range = issue.replacement;
+          const hasRange = Number.isInteger(range?.startLine) && Number.isInteger(range?.endLine) && range.endLine >= range.startLine;
+          const disputeOutcome = issue.dispute?.outcome === 'conceded'
+            ? DisputeOutcome.CONCEDED
+            : issue.dispute?.outcome === 'maintained' ? DisputeOutcome.MAINTAINED : null;
+          const dismissed = disputeOutcome === DisputeOutcome.CONCEDED ||
+            (issue.fingerprint && suppressed.has(`${review.projectId}:${review.mergeRequestIid}:${issue.fingerprint}`));
+
+          return {
+            reviewId: review.id,
+            filePath: issue.file,
+            line,
+            endLine: line,
+            replacementStartLine: hasRange ? range.startLine : null,
+            replacementEndLine: hasRange ? range.endLine : null,
+            severity: String(issue.severity || 'low'),
+            type: String(issue.type || 'logic'),
+            message: issue.message,
+            suggestion: issue.suggestion || null,
+            fingerprint: issue.fingerprint || null,
+            verificationConfidence: issue.verification?.confidence || null,
+            verificationReason: issue.verification?.reason || null,
+            discussionId: issue.discussionId || null,
+            state: dismissed ? IssueState.DISMISSED : IssueState.OPEN,
+            disputeOutcome,
+            disputedBy: issue.dispute?.disputedBy || null,
+            disputeReplies: Number.isInteger(issue.dispute?.replies) ? issue.dispute.replies : 0,
+            disputedAt: issue.dispute?.updatedAt ? new Date(issue.dispute.updatedAt) : null,
+          };
+        });
+
+      if (data.length === 0) {
+        continue;
+      }
+
+      await prisma.reviewIssue.createMany({ data });
+      reviewsUpdated++;
+      issuesCreated += data.length;
+    }
+  }
+
+  console.log(`✓ Backfill completed: ${issuesCreated} issues from ${reviewsUpdated} reviews`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
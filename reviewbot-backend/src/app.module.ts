@@ -10,6 +10,7 @@ import { AuthModule } from './auth/auth.module';
 import { ProjectsModule } from './projects/projects.module';
 import { ReviewsModule } from './reviews/reviews.module';
 import { DevelopersModule } from './developers/developers.module';
+import { MetricsModule } from './metrics/metrics.module';
 
 @Module({
   imports: [
@@ -35,6 +36,7 @@ import { DevelopersModule } from './developers/developers.module';
     ProjectsModule,
     ReviewsModule,
     DevelopersModule,
+    MetricsModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -7,19 +7,25 @@ import {
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import * as crypto from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
 
 /**
  * GitLab Webhook Guard
  * Validates incoming webhook requests using X-Gitlab-Token header
+ * Registered projects are checked against their own webhook secret;
+ * the global GITLAB_WEBHOOK_SECRET is only a fallback for unregistered projects
  * Uses constant-time comparison to prevent timing attacks
  */
 @Injectable()
 export class GitLabWebhookGuard implements CanActivate {
   private readonly logger = new Logger(GitLabWebhookGuard.name);
 
-  constructor(private configService: ConfigService) {}
+  constructor(
+    private configService: ConfigService,
+    private prisma: PrismaService,
+  ) {}
 
-  canActivate(context: ExecutionContext): boolean {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     const request = context.switchToHttp().getRequest();
     const token = request.headers['x-gitlab-token'];
 
@@ -28,15 +34,51 @@ export class GitLabWebhookGuard implements CanActivate {
       throw new UnauthorizedException('Missing GitLab token');
     }
 
-    const expectedToken = this.configService.get<string>('GITLAB_WEBHOOK_SECRET');
+    // Resolve project from payload (MR and Note hooks carry project.id)
+    const gitlabProjectId = Number(request.body?.project?.id ?? request.body?.project_id);
+    const project = Number.isInteger(gitlabProjectId)
+      ? await this.prisma.project.findUnique({
+          where: { gitlabProjectId },
+          select: { id: true, webhookSecret: true },
+        })
+      : null;
 
-    if (!expectedToken) {
-      this.logger.error('GITLAB_WEBHOOK_SECRET not configured in environment');
+    if (project) {
+      if (!this.safeCompare(token, project.webhookSecret)) {
+        this.logger.warn(`Invalid GitLab webhook token for project ${gitlabProjectId}`);
+        throw new UnauthorizedException('Invalid GitLab token');
+      }
+
+      this.logger.debug(`GitLab webhook token validated against project ${gitlabProjectId} secret`);
+      return true;
+    }
+
+    // Unregistered project: fall back to the global secret if one is configured
+    const globalSecret = this.configService.get<string>('GITLAB_WEBHOOK_SECRET');
+
+    if (!globalSecret) {
+      this.logger.warn(`No webhook secret available for unregistered project ${gitlabProjectId || 'unknown'}`);
       throw new UnauthorizedException('Webhook secret not configured');
     }
 
-    // Constant-time comparison to prevent timing attacks
-    // Pad tokens to same length to prevent length leakage
+    if (!this.safeCompare(token, globalSecret)) {
+      this.logger.warn('Invalid GitLab webhook token');
+      throw new UnauthorizedException('Invalid GitLab token');
+    }
+
+    this.logger.debug('GitLab webhook token validated against global secret');
+    return true;
+  }
+
+  /**
+   * Constant-time token comparison
+   * Pads tokens to same length to prevent length leakage
+   */
+  private safeCompare(token: string, expectedToken: string): boolean {
+    if (!expectedToken) {
+      return false;
+    }
+
     const maxLen = Math.max(token.length, expectedToken.length);
     const tokenBuf = Buffer.alloc(maxLen);
     const expectedBuf = Buffer.alloc(maxLen);
@@ -44,14 +86,6 @@ export class GitLabWebhookGuard implements CanActivate {
     tokenBuf.write(token);
     expectedBuf.write(expectedToken);
 
-    const isValid = crypto.timingSafeEqual(tokenBuf, expectedBuf) && token.length === expectedToken.length;
-
-    if (!isValid) {
-      this.logger.warn('Invalid GitLab webhook token');
-      throw new UnauthorizedException('Invalid GitLab token');
-    }
-
-    this.logger.debug('GitLab webhook token validated successfully');
-    return true;
+    return crypto.timingSafeEqual(tokenBuf, expectedBuf) && token.length === expectedToken.length;
   }
 }
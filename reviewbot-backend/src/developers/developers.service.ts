@@ -121,7 +121,7 @@ export class DevelopersService {
   }
 
   async getDeveloperStats(id: string) {
-    const [metrics, recentReviews, commonIssues] = await Promise.all([
+    const [metrics, recentReviews] = await Promise.all([
       this.prisma.developerMetrics.findUnique({
         where: { developerId: id },
       }),
@@ -139,9 +139,11 @@ export class DevelopersService {
           },
         },
       }),
-      this.getCommonIssues(id),
     ]);
 
+    // Stored by the metrics aggregation; computed live until the first recompute
+    const commonIssues = (metrics?.commonIssues as unknown as CommonIssue[] | null) ?? (await this.getCommonIssues(id));
+
     return {
       metrics: metrics || {
         developerId: id,
@@ -155,28 +157,20 @@ export class DevelopersService {
     };
   }
 
-  private async getCommonIssues(developerId: string) {
-    const issues = await this.prisma.$queryRaw<
-      Array<{
-        type: string;
-        count: bigint;
-      }>
-    >`
-      SELECT
-        jsonb_extract_path_text(issue, 'type') as type,
-        COUNT(*) as count
-      FROM review,
-        jsonb_array_elements(review_content -> 'issues') as issue
-      WHERE developer_id = ${developerId}
-        AND jsonb_extract_path_text(issue, 'type') IS NOT NULL
-      GROUP BY type
-      ORDER BY count DESC
-      LIMIT 5
-    `;
+  private async getCommonIssues(developerId: string): Promise<CommonIssue[]> {
+    const issues = await this.prisma.reviewIssue.groupBy({
+      by: ['type'],
+      where: {
+        review: { developerId },
+      },
+      _count: true,
+      orderBy: { _count: { type: 'desc' } },
+      take: 5,
+    });
 
     return issues.map((issue) => ({
       type: issue.type,
-      count: Number(issue.count),
+      count: issue._count,
     }));
   }
 
@@ -197,3 +191,11 @@ export class DevelopersService {
     return now;
   }
 }
+
+/**
+ * Issue type with its number of findings
+ */
+export interface CommonIssue {
+  type: string;
+  count: number;
+}
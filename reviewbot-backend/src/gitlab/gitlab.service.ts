@@ -1,6 +1,8 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { Gitlab } from '@gitbeaker/rest';
+import { Readable } from 'stream';
+import { ReadableStream as WebReadableStream } from 'stream/web';
 
 /**
  * GitLab Service
@@ -10,6 +12,7 @@ import { Gitlab } from '@gitbeaker/rest';
 export class GitLabService {
   private readonly logger = new Logger(GitLabService.name);
   private readonly client: InstanceType<typeof Gitlab>;
+  private botUserId: number | null = null;
 
   constructor(private configService: ConfigService) {
     const token = this.configService.get<string>('GITLAB_ACCESS_TOKEN');
@@ -30,45 +33,77 @@ export class GitLabService {
    * @param projectId GitLab project ID
    * @param mergeRequestIid MR IID
    * @param comment Comment text (supports Markdown)
+   * @returns Note ID of the new comment
    */
   async postMRComment(
     projectId: number,
     mergeRequestIid: number,
     comment: string,
-  ): Promise<void> {
+  ): Promise<number> {
     try {
-      await this.client.MergeRequestNotes.create(
+      const note = await this.client.MergeRequestNotes.create(
         projectId,
         mergeRequestIid,
         comment,
       );
       this.logger.log(`✓ Posted summary comment to MR ${mergeRequestIid}`);
+      return note.id;
     } catch (error) {
       this.logger.error(`Failed to post MR comment: ${error.message}`);
       throw error;
     }
   }
 
+  /**
+   * Replace the text of an existing merge request comment
+   * @param projectId GitLab project ID
+   * @param mergeRequestIid MR IID
+   * @param noteId Note ID of the comment
+   * @param comment New comment text (supports Markdown)
+   * @returns false if the comment could not be edited (e.g. it was deleted)
+   */
+  async updateMRComment(
+    projectId: number,
+    mergeRequestIid: number,
+    noteId: number,
+    comment: string,
+  ): Promise<boolean> {
+    try {
+      await this.client.MergeRequestNotes.edit(
+        projectId,
+        mergeRequestIid,
+        noteId,
+        { body: comment },
+      );
+      this.logger.log(`✓ Updated comment ${noteId} on MR ${mergeRequestIid}`);
+      return true;
+    } catch (error) {
+      this.logger.warn(`Failed to update comment ${noteId} on MR ${mergeRequestIid}: ${error.message}`);
+      return false;
+    }
+  }
+
   /**
    * Post inline comment at specific line in diff
    * @param projectId GitLab project ID
    * @param mergeRequestIid MR IID
    * @param diffData Inline comment data with position
+   * @returns Discussion ID of the new thread, null if posting failed
    */
   async postInlineComment(
     projectId: number,
     mergeRequestIid: number,
     diffData: InlineCommentData,
-  ): Promise<void> {
+  ): Promise<string | null> {
     try {
       this.logger.log(`📝 Attempting to post inline comment:`);
       this.logger.log(`   File: ${diffData.filePath}`);
-      this.logger.log(`   Line: ${diffData.line}`);
+      this.logger.log(`   Line: ${this.formatPositionLine(diffData)}`);
       this.logger.log(`   baseSha: ${diffData.baseSha.substring(0, 8)}`);
       this.logger.log(`   headSha: ${diffData.headSha.substring(0, 8)}`);
       this.logger.log(`   startSha: ${diffData.startSha.substring(0, 8)}`);
 
-      await this.client.MergeRequestDiscussions.create(
+      const discussion = await this.client.MergeRequestDiscussions.create(
         projectId,
         mergeRequestIid,
         diffData.comment,
@@ -77,32 +112,251 @@ export class GitLabService {
             positionType: 'text',
             oldPath: diffData.oldPath,
             newPath: diffData.filePath,
-            newLine: String(diffData.line),
+            // Added lines only have a new line, removed lines only an old line, unchanged lines both
+            ...(diffData.line && { newLine: String(diffData.line) }),
+            ...(diffData.oldLine && { oldLine: String(diffData.oldLine) }),
             baseSha: diffData.baseSha,
             headSha: diffData.headSha,
             startSha: diffData.startSha,
           },
         },
       );
-      this.logger.log(`✓ Posted inline comment at ${diffData.filePath}:${diffData.line}`);
+      this.logger.log(`✓ Posted inline comment at ${diffData.filePath}:${this.formatPositionLine(diffData)}`);
+      return String(discussion.id);
     } catch (error) {
-      this.logger.error(`❌ Failed to post inline comment at ${diffData.filePath}:${diffData.line}`);
+      this.logger.error(`❌ Failed to post inline comment at ${diffData.filePath}:${this.formatPositionLine(diffData)}`);
       this.logger.error(`   Error: ${error.message}`);
       if (error.response) {
         this.logger.error(`   Response: ${JSON.stringify(error.response)}`);
       }
       // Don't throw - inline comments are non-critical
+      return null;
+    }
+  }
+
+  /**
+   * Describe the line of an inline comment position for logs
+   */
+  private formatPositionLine(diffData: InlineCommentData): string {
+    return diffData.line ? String(diffData.line) : `old ${diffData.oldLine}`;
+  }
+
+  /**
+   * Reply to an existing merge request discussion thread
+   * @param projectId GitLab project ID
+   * @param mergeRequestIid MR IID
+   * @param discussionId Discussion ID to reply to
+   * @param body Reply text (supports Markdown)
+   */
+  async replyToDiscussion(
+    projectId: number,
+    mergeRequestIid: number,
+    discussionId: string,
+    body: string,
+  ): Promise<void> {
+    try {
+      await this.client.MergeRequestDiscussions.addNote(
+        projectId,
+        mergeRequestIid,
+        discussionId,
+        body,
+      );
+      this.logger.log(`✓ Replied to discussion ${discussionId} on MR ${mergeRequestIid}`);
+    } catch (error) {
+      this.logger.error(`Failed to reply to discussion ${discussionId}: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a merge request discussion with all of its notes
+   * @param projectId GitLab project ID
+   * @param mergeRequestIid MR IID
+   * @param discussionId Discussion ID
+   * @returns Discussion notes in chronological order
+   */
+  async getDiscussion(
+    projectId: number,
+    mergeRequestIid: number,
+    discussionId: string,
+  ): Promise<DiscussionNote[]> {
+    try {
+      const discussion: any = await this.client.MergeRequestDiscussions.show(
+        projectId,
+        mergeRequestIid,
+        discussionId,
+      );
+
+      return (discussion.notes || []).map((note: any) => ({
+        id: note.id,
+        body: note.body || '',
+        authorUsername: note.author?.username || '',
+        system: !!note.system,
+        createdAt: note.created_at,
+      }));
+    } catch (error) {
+      this.logger.warn(`Failed to fetch discussion ${discussionId}: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve or unresolve a merge request discussion
+   * @param projectId GitLab project ID
+   * @param mergeRequestIid MR IID
+   * @param discussionId Discussion ID
+   * @param resolved Whether the discussion should be resolved
+   */
+  async resolveDiscussion(
+    projectId: number,
+    mergeRequestIid: number,
+    discussionId: string,
+    resolved: boolean = true,
+  ): Promise<void> {
+    try {
+      await this.client.MergeRequestDiscussions.resolve(
+        projectId,
+        mergeRequestIid,
+        discussionId,
+        resolved,
+      );
+      this.logger.log(`✓ ${resolved ? 'Resolved' : 'Unresolved'} discussion ${discussionId} on MR ${mergeRequestIid}`);
+    } catch (error) {
+      this.logger.error(`Failed to resolve discussion ${discussionId}: ${error.message}`);
+      // Don't throw - resolving is non-critical
+    }
+  }
+
+  /**
+   * Get the IDs of the resolved discussions of a merge request
+   * Covers threads resolved by hand in GitLab, which send no webhook the bot listens to
+   * @param projectId GitLab project ID
+   * @param mergeRequestIid MR IID
+   * @returns Resolved discussion IDs
+   */
+  async getResolvedDiscussionIds(projectId: number, mergeRequestIid: number): Promise<Set<string>> {
+    try {
+      const discussions: any[] = await this.client.MergeRequestDiscussions.all(projectId, mergeRequestIid);
+
+      return new Set(
+        discussions
+          .filter((discussion) => {
+            const resolvable = (discussion.notes || []).filter((note: any) => note.resolvable);
+            return resolvable.length > 0 && resolvable.every((note: any) => note.resolved);
+          })
+          .map((discussion) => discussion.id as string),
+      );
+    } catch (error) {
+      this.logger.warn(`Failed to fetch discussions of MR ${mergeRequestIid}: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Publish a commit status on a commit (shown in the MR pipeline widget)
+   * @param projectId GitLab project ID
+   * @param sha Commit SHA
+   * @param state Status state
+   * @param options Status name, description and link
+   */
+  async setCommitStatus(
+    projectId: number,
+    sha: string,
+    state: 'pending' | 'running' | 'success' | 'failed' | 'canceled',
+    options: { name: string; description?: string; targetUrl?: string },
+  ): Promise<void> {
+    try {
+      await this.client.Commits.editStatus(projectId, sha, state, options);
+      this.logger.log(`✓ Set commit status ${options.name}=${state} on ${sha.substring(0, 8)}`);
+    } catch (error) {
+      this.logger.error(`Failed to set commit status on ${sha.substring(0, 8)}: ${error.message}`);
+      // Don't throw - commit status is non-critical
+    }
+  }
+
+  /**
+   * Add and remove merge request labels
+   * @param projectId GitLab project ID
+   * @param mergeRequestIid MR IID
+   * @param labels Labels to add and remove
+   */
+  async updateMRLabels(
+    projectId: number,
+    mergeRequestIid: number,
+    labels: { add: string[]; remove: string[] },
+  ): Promise<void> {
+    if (labels.add.length === 0 && labels.remove.length === 0) {
+      return;
+    }
+
+    try {
+      await this.client.MergeRequests.edit(projectId, mergeRequestIid, {
+        ...(labels.add.length > 0 && { addLabels: labels.add.join(',') }),
+        ...(labels.remove.length > 0 && { removeLabels: labels.remove.join(',') }),
+      });
+      this.logger.log(`✓ Updated labels on MR ${mergeRequestIid} (+${labels.add.join(',')} -${labels.remove.join(',')})`);
+    } catch (error) {
+      this.logger.error(`Failed to update labels on MR ${mergeRequestIid}: ${error.message}`);
+      // Don't throw - labels are non-critical
+    }
+  }
+
+  /**
+   * Approve or revoke the bot's approval of a merge request
+   * @param projectId GitLab project ID
+   * @param mergeRequestIid MR IID
+   * @param approved Whether the MR should be approved
+   * @param sha Head SHA the approval applies to (approval fails if the MR moved on)
+   */
+  async setMRApproval(
+    projectId: number,
+    mergeRequestIid: number,
+    approved: boolean,
+    sha?: string,
+  ): Promise<void> {
+    try {
+      if (approved) {
+        await this.client.MergeRequestApprovals.approve(projectId, mergeRequestIid, sha ? { sha } : {});
+      } else {
+        await this.client.MergeRequestApprovals.unapprove(projectId, mergeRequestIid);
+      }
+      this.logger.log(`✓ ${approved ? 'Approved' : 'Unapproved'} MR ${mergeRequestIid}`);
+    } catch (error) {
+      // GitLab rejects approving twice and unapproving without an approval
+      this.logger.warn(`Could not ${approved ? 'approve' : 'unapprove'} MR ${mergeRequestIid}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get the GitLab user ID of the bot's access token (cached)
+   * Used to ignore webhook events triggered by the bot's own comments
+   * @returns Bot user ID, or null if it cannot be determined
+   */
+  async getBotUserId(): Promise<number | null> {
+    if (this.botUserId !== null) {
+      return this.botUserId;
+    }
+
+    try {
+      const user: any = await this.client.Users.showCurrentUser();
+      this.botUserId = user.id;
+      return this.botUserId;
+    } catch (error) {
+      this.logger.warn(`Failed to fetch bot user: ${error.message}`);
+      return null;
     }
   }
 
   /**
    * Get cumulative merge request diff between source and target branches
    * This returns the final diff, not individual commit diffs
+   * When sinceSha is given, only changes between that commit and the MR head are returned
    * @param projectId GitLab project ID
    * @param mergeRequestIid MR IID
+   * @param sinceSha Previously reviewed head SHA for incremental reviews (optional)
    * @returns Array of diff objects representing cumulative changes
    */
-  async getMRDiffs(projectId: number, mergeRequestIid: number) {
+  async getMRDiffs(projectId: number, mergeRequestIid: number, sinceSha?: string) {
     try {
       this.logger.log(`Fetching cumulative diffs for MR ${mergeRequestIid} in project ${projectId}...`);
 
@@ -116,12 +370,22 @@ export class GitLabService {
 
       // Use Repositories.compare() to get cumulative diff between target and source
       // This ensures we only review the FINAL state, not individual commits
-      this.logger.log(`Comparing ${mrDetails.targetBranch} (base) → ${mrDetails.sourceBranch} (head)`);
-      this.logger.log(`   baseSha: ${mrDetails.baseSha.substring(0, 8)} → headSha: ${mrDetails.headSha.substring(0, 8)}`);
+      const fromSha = sinceSha || mrDetails.baseSha;
+      if (sinceSha) {
+        this.logger.log(`Comparing last reviewed commit → ${mrDetails.sourceBranch} (head)`);
+      } else {
+        this.logger.log(`Comparing ${mrDetails.targetBranch} (base) → ${mrDetails.sourceBranch} (head)`);
+      }
+      this.logger.log(`   fromSha: ${fromSha.substring(0, 8)} → headSha: ${mrDetails.headSha.substring(0, 8)}`);
+
+      if (fromSha === mrDetails.headSha) {
+        this.logger.log(`MR ${mergeRequestIid} head has not moved since ${fromSha.substring(0, 8)}`);
+        return [];
+      }
 
       const comparison: any = await this.client.Repositories.compare(
         projectId,
-        mrDetails.baseSha,
+        fromSha,
         mrDetails.headSha,
       );
 
@@ -147,6 +411,37 @@ export class GitLabService {
     }
   }
 
+  /**
+   * Whether the changes since a reviewed commit belong to the MR alone
+   * After a rebase or a merge of the target branch, comparing against the old head would pull in
+   * target-branch commits; that is detected by a moved MR base or an old head that is no longer an ancestor
+   * @param projectId GitLab project ID
+   * @param mergeRequestIid MR IID
+   * @param sinceSha Previously reviewed head SHA
+   * @returns false if the MR has to be reviewed in full
+   */
+  async canReviewSince(projectId: number, mergeRequestIid: number, sinceSha: string): Promise<boolean> {
+    const mrDetails = await this.getMRDetails(projectId, mergeRequestIid);
+    if (!mrDetails.baseSha || !mrDetails.headSha) {
+      return false;
+    }
+
+    const versions = await this.client.MergeRequests.allDiffVersions(projectId, mergeRequestIid);
+    const reviewedVersion = versions.find((version) => version.head_commit_sha === sinceSha);
+    if (!reviewedVersion || reviewedVersion.base_commit_sha !== mrDetails.baseSha) {
+      this.logger.log(`MR ${mergeRequestIid} base moved since ${sinceSha.substring(0, 8)} (rebase or target branch merged)`);
+      return false;
+    }
+
+    const mergeBase = await this.client.Repositories.mergeBase(projectId, [sinceSha, mrDetails.headSha]);
+    if (mergeBase.id !== sinceSha) {
+      this.logger.log(`${sinceSha.substring(0, 8)} is no longer an ancestor of the head of MR ${mergeRequestIid}`);
+      return false;
+    }
+
+    return true;
+  }
+
   /**
    * Get merge request details including SHA values
    * @param projectId GitLab project ID
@@ -247,7 +542,7 @@ export class GitLabService {
    * @param filePath File path to detect language
    * @returns Array of import lines
    */
-  private extractImports(lines: string[], filePath: string): string[] {
+  extractImports(lines: string[], filePath: string): string[] {
     const imports: string[] = [];
     const ext = filePath.split('.').pop()?.toLowerCase() || '';
 
@@ -331,6 +626,84 @@ export class GitLabService {
       throw error;
     }
   }
+
+  /**
+   * Get the default branch of a project and the commit at its head
+   * @param projectId GitLab project ID
+   * @returns Branch name and head SHA
+   */
+  async getDefaultBranchHead(projectId: number): Promise<{ branch: string; sha: string }> {
+    try {
+      const project: any = await this.client.Projects.show(projectId);
+      const branch: any = await this.client.Branches.show(projectId, project.default_branch);
+      return { branch: project.default_branch, sha: branch.commit.id };
+    } catch (error) {
+      this.logger.error(`Failed to fetch default branch of project ${projectId}: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Download the repository at a commit as a tar.gz archive
+   * @param projectId GitLab project ID
+   * @param sha Commit SHA
+   * @returns Gzipped tar archive as a stream, so large repositories are never buffered
+   */
+  async downloadArchive(projectId: number, sha: string): Promise<Readable> {
+    try {
+      this.logger.log(`Downloading archive of project ${projectId} at ${sha.substring(0, 8)}...`);
+
+      const archive = await this.client.Repositories.showArchive(projectId, { fileType: 'tar.gz', sha, asStream: true });
+      return Readable.fromWeb(archive as WebReadableStream);
+    } catch (error) {
+      this.logger.error(`Failed to download archive of project ${projectId}: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Compare two commits of a project
+   * @param projectId GitLab project ID
+   * @param fromSha Base commit
+   * @param toSha Head commit
+   * @returns GitLab diffs (paths and flags) and whether the comparison timed out
+   */
+  async compareCommits(projectId: number, fromSha: string, toSha: string): Promise<{ diffs: any[]; timedOut: boolean }> {
+    try {
+      const comparison: any = await this.client.Repositories.compare(projectId, fromSha, toSha);
+      return { diffs: comparison.diffs || [], timedOut: !!comparison.compare_timeout };
+    } catch (error) {
+      this.logger.error(`Failed to compare ${fromSha.substring(0, 8)}..${toSha.substring(0, 8)} in project ${projectId}: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Search file contents of a project at a ref
+   * Never throws: search can be disabled or rate limited on the instance
+   * @param projectId GitLab project ID
+   * @param query Search terms
+   * @param ref Branch or commit to search
+   * @returns Matching snippets, or an empty list on failure
+   */
+  async searchBlobs(projectId: number, query: string, ref: string): Promise<BlobSearchResult[]> {
+    try {
+      const results: any[] = await this.client.Search.all('blobs', query, { projectId, ref } as any);
+      return results.map((result) => ({ path: result.path, startLine: result.startline, data: result.data }));
+    } catch (error) {
+      this.logger.warn(`Blob search for "${query}" in project ${projectId} failed: ${error.message}`);
+      return [];
+    }
+  }
+}
+
+/**
+ * Code search hit within a project
+ */
+export interface BlobSearchResult {
+  path: string;
+  startLine: number;
+  data: string; // Matching lines with a little context
 }
 
 /**
@@ -339,13 +712,25 @@ export class GitLabService {
 export interface InlineCommentData {
   filePath: string;
   oldPath: string;
-  line: number;
+  line?: number; // Line in the new file (added or unchanged code)
+  oldLine?: number; // Line in the old file (removed or unchanged code)
   comment: string;
   baseSha: string;
   headSha: string;
   startSha: string;
 }
 
+/**
+ * Note within a merge request discussion
+ */
+export interface DiscussionNote {
+  id: number;
+  body: string;
+  authorUsername: string;
+  system: boolean;
+  createdAt: string;
+}
+
 /**
  * File content with context lines and imports
  */
@@ -356,4 +741,7 @@ export interface FileContentWithContext {
   endLineNumber: number;
   totalLines: number;
   imports: string[]; // Import statements from top of file
+  lineNumbers?: number[]; // Line number of each entry in `lines` when they are not contiguous
+  targetLineNumbers?: number[]; // All changed lines the context was built for
+  scopes?: string[]; // Signatures of the enclosing functions/classes
 }
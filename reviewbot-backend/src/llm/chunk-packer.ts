@@ -0,0 +1,81 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DiffChunk } from './llm.service';
+
+/**
+ * Chunk Packer
+ * Packs diff chunks into as few LLM calls as fit the prompt token budget
+ * Chunks of the same file stay together, and files are ordered so that
+ * neighbours in the same directory (and source/test pairs) share a call
+ */
+@Injectable()
+export class ChunkPacker {
+  private readonly logger = new Logger(ChunkPacker.name);
+
+  /**
+   * Pack chunks into review calls
+   * @param chunks Chunks to review
+   * @param budget Prompt tokens available per call
+   * @param estimate Token estimate of one chunk
+   * @returns Groups of chunks, one LLM call each
+   */
+  pack<T extends DiffChunk>(chunks: T[], budget: number, estimate: (chunk: T) => number): T[][] {
+    // Group chunks by file, preserving hunk order
+    const byFile = new Map<string, Array<{ chunk: T; tokens: number }>>();
+    for (const chunk of chunks) {
+      const group = byFile.get(chunk.filename) || [];
+      group.push({ chunk, tokens: estimate(chunk) });
+      byFile.set(chunk.filename, group);
+    }
+
+    const files = [...byFile.keys()].sort((a, b) => this.relationKey(a).localeCompare(this.relationKey(b)));
+
+    const packs: T[][] = [];
+    let current: T[] = [];
+    let currentTokens = 0;
+
+    const flush = () => {
+      if (current.length > 0) {
+        packs.push(current);
+        current = [];
+        currentTokens = 0;
+      }
+    };
+
+    for (const file of files) {
+      const group = byFile.get(file)!;
+      const groupTokens = group.reduce((sum, item) => sum + item.tokens, 0);
+
+      // Start a new call rather than splitting a file that would fit on its own
+      if (currentTokens + groupTokens > budget && groupTokens <= budget) {
+        flush();
+      }
+
+      for (const item of group) {
+        if (current.length > 0 && currentTokens + item.tokens > budget) {
+          flush();
+        }
+        if (item.tokens > budget) {
+          this.logger.warn(`Chunk of ${file} needs ~${item.tokens} tokens (budget ${budget}) - reviewing it alone`);
+        }
+
+        current.push(item.chunk);
+        currentTokens += item.tokens;
+      }
+    }
+    flush();
+
+    this.logger.log(`📦 Packed ${chunks.length} chunks from ${files.length} files into ${packs.length} LLM call(s) (budget ${budget} tokens)`);
+    return packs;
+  }
+
+  /**
+   * Sort key placing related files next to each other
+   * `src/a/user.service.ts` and `src/a/user.service.spec.ts` both map to `src/a/user`
+   */
+  private relationKey(path: string): string {
+    const slash = path.lastIndexOf('/');
+    const dir = slash >= 0 ? path.substring(0, slash) : '';
+    const stem = path.substring(slash + 1).split('.')[0];
+    return `${dir}/${stem}\u0000${path}`;
+  }
+}
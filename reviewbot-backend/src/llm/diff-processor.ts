@@ -1,5 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import * as parseDiff from 'parse-diff';
+import { countTokens } from './token-counter';
 
 /**
  * Diff Processor
@@ -13,11 +14,13 @@ export class DiffProcessor {
    * Extract changed lines with surrounding context from diff
    * @param diff Raw diff string
    * @param contextLines Number of context lines before/after changes (default: 20)
+   * @param maxChunkTokens Hunks larger than this are split into several chunks (default: no limit)
    * @returns Array of processed diffs ready for LLM review
    */
   extractChangedLinesWithContext(
     diff: string,
     contextLines: number = 20,
+    maxChunkTokens: number = Infinity,
   ): ProcessedDiff[] {
     try {
       const files = parseDiff(diff);
@@ -34,32 +37,33 @@ export class DiffProcessor {
           continue;
         }
 
-        // Skip deleted files
-        if (file.deleted) {
-          this.logger.debug(`Skipping deleted file: ${file.from}`);
-          continue;
-        }
-
         if (!file.chunks || file.chunks.length === 0) {
           this.logger.debug(`No chunks found for file: ${file.to || file.from}`);
           continue;
         }
 
         for (const chunk of file.chunks) {
-          const processedChunk = this.processChunk(chunk, contextLines);
-
-          if (processedChunk.hasChanges) {
-            const filename = file.to || file.from || 'unknown';
-            this.logger.log(`📝 Extracted chunk from: ${filename} (+${processedChunk.additions} -${processedChunk.deletions})`);
-
-            results.push({
-              filename,
-              language: this.detectLanguage(file.to || ''),
-              hunks: processedChunk.content,
-              additions: processedChunk.additions,
-              deletions: processedChunk.deletions,
-              changedLines: processedChunk.changedLines,
-            });
+          const lines = this.processChunk(chunk, contextLines);
+          if (!lines.some((line) => line.kind !== 'context')) {
+            continue;
+          }
+
+          // Deleted files only have an old path; their removed lines are reviewed on the old side
+          const filename = (file.to && file.to !== '/dev/null' ? file.to : file.from) || 'unknown';
+          const pieces = this.splitLines(lines, maxChunkTokens);
+
+          if (pieces.length > 1) {
+            this.logger.log(`✂️  Split oversized hunk in ${filename} into ${pieces.length} chunks`);
+          }
+
+          for (const piece of pieces) {
+            const processed = this.toProcessedDiff(filename, piece, chunk.newStart);
+            if (processed.additions + processed.deletions === 0) {
+              continue;
+            }
+
+            this.logger.log(`📝 Extracted chunk from: ${filename} (+${processed.additions} -${processed.deletions})`);
+            results.push(processed);
           }
         }
       }
@@ -76,15 +80,11 @@ export class DiffProcessor {
    * Process a single chunk with context
    * @param chunk Parsed diff chunk
    * @param contextLines Number of context lines
-   * @returns Processed chunk with formatted content
+   * @returns Diff lines to review, in order, with their old- and new-file line numbers
    */
-  private processChunk(chunk: any, contextLines: number) {
+  private processChunk(chunk: any, contextLines: number): DiffLine[] {
     const lines = chunk.changes || [];
-    const result: string[] = [];
-    const changedLines: number[] = [];
-    let additions = 0;
-    let deletions = 0;
-    let hasChanges = false;
+    const result: DiffLine[] = [];
 
     // Track which lines we've already added to avoid duplicates
     const addedIndices = new Set<number>();
@@ -92,21 +92,22 @@ export class DiffProcessor {
     for (let i = 0; i < lines.length; i++) {
       const line = lines[i];
 
-      if (line.type === 'add') {
-        additions++;
-        hasChanges = true;
-        changedLines.push(line.ln || 0);
-
+      // Removed code gets context too, so dropped checks can be judged
+      if (line.type === 'add' || line.type === 'del') {
         // Add context before (if not already added)
         for (let j = Math.max(0, i - contextLines); j < i; j++) {
           if (!addedIndices.has(j) && lines[j].type === 'normal') {
-            result.push(` ${lines[j].content || ''}`);
+            result.push(this.toContextLine(lines[j]));
             addedIndices.add(j);
           }
         }
 
         // Add the changed line
-        result.push(`+${line.content || ''}`);
+        result.push(
+          line.type === 'add'
+            ? { kind: 'add', text: `+${line.content || ''}`, newLine: line.ln || 0 }
+            : { kind: 'del', text: `-${line.content || ''}`, oldLine: line.ln || 0 },
+        );
         addedIndices.add(i);
 
         // Add context after
@@ -117,7 +118,7 @@ export class DiffProcessor {
         ) {
           if (!addedIndices.has(j)) {
             if (lines[j].type === 'normal') {
-              result.push(` ${lines[j].content || ''}`);
+              result.push(this.toContextLine(lines[j]));
               addedIndices.add(j);
             } else if (lines[j].type === 'add' || lines[j].type === 'del') {
               // Stop at next change
@@ -125,28 +126,95 @@ export class DiffProcessor {
             }
           }
         }
-      } else if (line.type === 'del') {
-        deletions++;
-        hasChanges = true;
-        result.push(`-${line.content || ''}`);
-        addedIndices.add(i);
       }
     }
 
-    // Limit chunk size to prevent token overflow (max 100 lines)
-    const maxLines = 100;
-    const content = result.slice(0, maxLines).join('\n');
+    return result;
+  }
+
+  /**
+   * Convert an unchanged parse-diff line, which exists on both sides
+   */
+  private toContextLine(change: any): DiffLine {
+    return { kind: 'context', text: ` ${change.content || ''}`, oldLine: change.ln1, newLine: change.ln2 };
+  }
 
-    if (result.length > maxLines) {
-      this.logger.warn(`Chunk truncated from ${result.length} to ${maxLines} lines`);
+  /**
+   * Split diff lines into pieces that each fit the token limit
+   * Prefers cutting right before a context line so changes stay with their surroundings
+   * @param lines Processed diff lines
+   * @param maxTokens Token limit per piece
+   */
+  private splitLines(lines: DiffLine[], maxTokens: number): DiffLine[][] {
+    if (!Number.isFinite(maxTokens) || countTokens(lines.map((line) => line.text).join('\n')) <= maxTokens) {
+      return [lines];
     }
 
+    const pieces: DiffLine[][] = [];
+    let current: DiffLine[] = [];
+    let currentTokens = 0;
+    let lastContextIndex = -1;
+
+    for (const line of lines) {
+      const lineTokens = countTokens(line.text) + 1;
+
+      if (current.length > 0 && currentTokens + lineTokens > maxTokens) {
+        // Cut at the last context line if that keeps a reasonable piece, otherwise here
+        const cutAt = lastContextIndex > current.length / 2 ? lastContextIndex : current.length;
+        pieces.push(current.slice(0, cutAt));
+        current = current.slice(cutAt);
+        currentTokens = countTokens(current.map((l) => l.text).join('\n'));
+        lastContextIndex = -1;
+      }
+
+      if (line.kind === 'context') {
+        lastContextIndex = current.length;
+      }
+      current.push(line);
+      currentTokens += lineTokens;
+    }
+
+    if (current.length > 0) {
+      pieces.push(current);
+    }
+
+    return pieces;
+  }
+
+  /**
+   * Build a processed diff from a piece of a hunk
+   * @param filename File path
+   * @param lines Diff lines of the piece
+   * @param hunkStart First new-file line of the hunk (used for deletion-only pieces)
+   */
+  private toProcessedDiff(filename: string, lines: DiffLine[], hunkStart: number): ProcessedDiff {
+    const newLines = lines.map((line) => line.newLine).filter((line): line is number => !!line);
+    const oldWidth = Math.max(1, ...lines.map((line) => String(line.oldLine || '').length));
+    const newWidth = Math.max(1, ...lines.map((line) => String(line.newLine || '').length));
+
     return {
-      content,
-      hasChanges,
-      additions,
-      deletions,
-      changedLines,
+      filename,
+      language: this.detectLanguage(filename),
+      // Gutter with old and new line numbers, so findings can point at either side
+      hunks: lines
+        .map((line) => {
+          const oldLine = String(line.oldLine || '').padStart(oldWidth);
+          const newLine = String(line.newLine || '').padStart(newWidth);
+          return `${line.text[0]}${oldLine} ${newLine} |${line.text.substring(1)}`;
+        })
+        .join('\n'),
+      additions: lines.filter((line) => line.kind === 'add').length,
+      deletions: lines.filter((line) => line.kind === 'del').length,
+      changedLines: lines.filter((line) => line.kind === 'add').map((line) => line.newLine || 0),
+      lineRange: {
+        start: newLines.length > 0 ? Math.min(...newLines) : hunkStart,
+        end: newLines.length > 0 ? Math.max(...newLines) : hunkStart,
+      },
+      positions: lines.map((line) => ({
+        ...(line.oldLine && { oldLine: line.oldLine }),
+        ...(line.newLine && { newLine: line.newLine }),
+        code: line.text.substring(1),
+      })),
     };
   }
 
@@ -155,7 +223,7 @@ export class DiffProcessor {
    * @param filepath File path
    * @returns Language name
    */
-  private detectLanguage(filepath: string): string {
+  detectLanguage(filepath: string): string {
     const ext = filepath.split('.').pop()?.toLowerCase();
     const langMap: Record<string, string> = {
       ts: 'typescript',
@@ -194,4 +262,26 @@ export interface ProcessedDiff {
   additions: number;
   deletions: number;
   changedLines: number[];
+  lineRange: { start: number; end: number }; // Hunk range in the new file
+  positions: DiffLinePosition[]; // Every reviewed line with its old/new line numbers
+}
+
+/**
+ * Reviewed diff line with its line numbers: removed lines only have oldLine,
+ * added lines only newLine, unchanged lines both
+ */
+export interface DiffLinePosition {
+  oldLine?: number;
+  newLine?: number;
+  code: string;
+}
+
+/**
+ * Diff line kept for review
+ */
+interface DiffLine {
+  kind: 'add' | 'del' | 'context';
+  text: string;
+  oldLine?: number; // Line number in the old file (not set for additions)
+  newLine?: number; // Line number in the new file (not set for deletions)
 }
@@ -0,0 +1,176 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as path from 'path';
+import { GeneratedFileClassifier } from './generated-file-classifier';
+
+/** Path patterns that make a change riskier, with the weight they add */
+const RISK_PATTERNS: RiskPattern[] = [
+  { pattern: /(^|\/)(auth|authn|authz|security|permissions?|acl|rbac|oauth|jwt|session|crypto|secrets?)([/._-]|$)/i, weight: 30, reason: 'security-sensitive path' },
+  { pattern: /(password|token|credential|guard|policy)/i, weight: 20, reason: 'security-sensitive name' },
+  { pattern: /(^|\/)(migrations?|migrate)\/|\.sql$|(^|\/)schema\.prisma$/i, weight: 25, reason: 'database migration or schema' },
+  { pattern: /(payment|billing|invoice|checkout)/i, weight: 20, reason: 'payment code' },
+  { pattern: /(^|\/)(controllers?|routes?|handlers?|resolvers?|api)\/|\.(controller|route|resolver|handler)\.\w+$/i, weight: 15, reason: 'API surface' },
+  { pattern: /(^|\/)(Dockerfile|\.gitlab-ci\.yml|docker-compose[^/]*\.ya?ml)$|(^|\/)(deploy|infra|k8s|helm|terraform)\//i, weight: 10, reason: 'deployment config' },
+  { pattern: /(^|\/)(__tests__|tests?|spec)\/|\.(spec|test)\.\w+$|_test\.(go|py)$/i, weight: -10, reason: 'test file' },
+  { pattern: /\.(md|mdx|rst|txt)$|(^|\/)docs?\//i, weight: -15, reason: 'documentation' },
+];
+
+/** Weight of a file's language by extension; unknown extensions get DEFAULT_LANGUAGE_WEIGHT */
+const LANGUAGE_WEIGHTS: Record<string, number> = {
+  '.ts': 10, '.tsx': 10, '.js': 10, '.jsx': 10, '.mjs': 10, '.cjs': 10,
+  '.py': 10, '.go': 10, '.java': 10, '.kt': 10, '.rb': 10, '.php': 10, '.cs': 10,
+  '.rs': 10, '.c': 10, '.cpp': 10, '.h': 8, '.swift': 10, '.scala': 10,
+  '.sql': 10, '.sh': 8, '.prisma': 8,
+  '.yml': 4, '.yaml': 4, '.json': 3, '.xml': 3, '.toml': 4,
+  '.html': 3, '.css': 2, '.scss': 2,
+  '.md': 0, '.txt': 0, '.svg': 0,
+};
+const DEFAULT_LANGUAGE_WEIGHT = 5;
+
+/** Cap of the churn contribution, reached at roughly 30 changed lines */
+const MAX_CHURN_WEIGHT = 20;
+
+/** Weight per earlier finding in the file, and its cap */
+const PAST_ISSUE_WEIGHT = 5;
+const MAX_PAST_ISSUE_WEIGHT = 20;
+
+/**
+ * File Prioritizer
+ * Scores every file of a merge request for risk and picks the files to review
+ * within the file and changed-line budget, highest risk first
+ */
+@Injectable()
+export class FilePrioritizer {
+  private readonly logger = new Logger(FilePrioritizer.name);
+
+  constructor(private generatedFileClassifier: GeneratedFileClassifier) {}
+
+  /**
+   * Score and select files for review
+   * @param diffs GitLab diffs of the MR
+   * @param budget Maximum files and changed lines (0 = no line limit) to review
+   * @param pastIssues Findings of earlier reviews in this project by file path
+   * @returns Files to review in risk order and the files that were left out
+   */
+  prioritize<T extends FileDiff>(
+    diffs: T[],
+    budget: { maxFiles: number; maxChangedLines: number },
+    pastIssues: Map<string, number> = new Map(),
+  ): FilePrioritization<T> {
+    const scored = diffs
+      .map((diff) => ({ diff, risk: this.score(diff, pastIssues) }))
+      .sort((a, b) => b.risk.score - a.risk.score || a.risk.path.localeCompare(b.risk.path));
+
+    const selected: Array<{ diff: T; risk: FileRisk }> = [];
+    const skipped: SkippedFile[] = [];
+    let changedLines = 0;
+
+    for (const { diff, risk } of scored) {
+      if (selected.length >= budget.maxFiles) {
+        skipped.push({ ...risk, reason: `file budget of ${budget.maxFiles} reached` });
+      } else if (budget.maxChangedLines > 0 && changedLines + risk.churn > budget.maxChangedLines && selected.length > 0) {
+        // Smaller, lower-risk files may still fit, so keep going
+        skipped.push({ ...risk, reason: `would exceed the budget of ${budget.maxChangedLines} changed lines` });
+      } else {
+        selected.push({ diff, risk });
+        changedLines += risk.churn;
+      }
+    }
+
+    if (skipped.length > 0) {
+      this.logger.log(`🎯 Reviewing ${selected.length} of ${diffs.length} file(s) by risk; skipped ${skipped.length}`);
+    }
+
+    return { selected, skipped };
+  }
+
+  /**
+   * Risk score of one file
+   * Path patterns, language, churn and earlier findings add up; generated files score 0
+   * @param diff GitLab diff
+   * @param pastIssues Findings of earlier reviews by file path
+   */
+  score(diff: FileDiff, pastIssues: Map<string, number> = new Map()): FileRisk {
+    const filePath = diff.new_path || diff.old_path || '';
+    const churn = this.countChangedLines(diff.diff || '');
+
+    // Generated and lock files are reviewed last and only if the budget allows
+    const generated = this.generatedFileClassifier.matchPath(filePath);
+    if (generated) {
+      return { path: filePath, score: 0, churn, reasons: [`${generated.kind} file`] };
+    }
+
+    const reasons: string[] = [];
+    let score = LANGUAGE_WEIGHTS[path.extname(filePath).toLowerCase()] ?? DEFAULT_LANGUAGE_WEIGHT;
+
+    for (const { pattern, weight, reason } of RISK_PATTERNS) {
+      if (pattern.test(filePath)) {
+        score += weight;
+        reasons.push(reason);
+      }
+    }
+
+    // Logarithmic, so one huge file does not outrank every sensitive one
+    score += Math.min(MAX_CHURN_WEIGHT, Math.round(4 * Math.log2(1 + churn)));
+
+    const previous = pastIssues.get(filePath) || 0;
+    if (previous > 0) {
+      score += Math.min(MAX_PAST_ISSUE_WEIGHT, previous * PAST_ISSUE_WEIGHT);
+      reasons.push(`${previous} earlier finding(s)`);
+    }
+
+    if (diff.deleted_file) {
+      score = Math.round(score / 2);
+      reasons.push('deleted file');
+    }
+
+    return { path: filePath, score: Math.max(1, score), churn, reasons };
+  }
+
+  /**
+   * Count added and removed lines of a GitLab diff (hunks only, no file headers)
+   */
+  private countChangedLines(diff: string): number {
+    return diff.split('\n').filter((line) => line.startsWith('+') || line.startsWith('-')).length;
+  }
+}
+
+interface RiskPattern {
+  pattern: RegExp;
+  weight: number;
+  reason: string;
+}
+
+/**
+ * GitLab diff fields needed for scoring
+ */
+export interface FileDiff {
+  new_path?: string;
+  old_path?: string;
+  diff?: string;
+  deleted_file?: boolean;
+}
+
+/**
+ * Risk score of a changed file
+ */
+export interface FileRisk {
+  path: string;
+  score: number;
+  churn: number; // Added plus removed lines
+  reasons: string[];
+}
+
+/**
+ * File that was not reviewed, with why
+ */
+export interface SkippedFile extends FileRisk {
+  reason: string;
+}
+
+/**
+ * Files picked for review, highest risk first, and the files left out
+ */
+export interface FilePrioritization<T> {
+  selected: Array<{ diff: T; risk: FileRisk }>;
+  skipped: SkippedFile[];
+}
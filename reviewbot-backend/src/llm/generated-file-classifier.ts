@@ -0,0 +1,156 @@
+import { Injectable } from '@nestjs/common';
+import { minimatch } from 'minimatch';
+
+/**
+ * Built-in path rules; projects add their own globs with `generated` in .reviewbot.yml
+ */
+const BUILTIN_PATH_RULES: PathRule[] = [
+  {
+    kind: 'lockfile',
+    globs: [
+      '**/package-lock.json', '**/yarn.lock', '**/pnpm-lock.yaml', '**/npm-shrinkwrap.json', '**/bun.lockb',
+      '**/composer.lock', '**/Gemfile.lock', '**/Cargo.lock', '**/poetry.lock', '**/Pipfile.lock',
+      '**/go.sum', '**/packages.lock.json', '**/*.lock',
+    ],
+  },
+  {
+    kind: 'vendored',
+    globs: ['**/vendor/**', '**/node_modules/**', '**/third_party/**', '**/bower_components/**', '**/.yarn/**'],
+  },
+  {
+    kind: 'minified',
+    globs: ['**/*.min.js', '**/*.min.css', '**/*.min.mjs', '**/*.map'],
+  },
+  {
+    kind: 'snapshot',
+    globs: ['**/__snapshots__/**', '**/*.snap'],
+  },
+  {
+    kind: 'generated',
+    globs: [
+      '**/generated/**', '**/__generated__/**', '**/*.generated.*', '**/*.g.dart', '**/*.pb.go', '**/*_pb2.py',
+      '**/*.pb.ts', '**/*_grpc.pb.*', '**/node_modules/.prisma/**', '**/prisma/client/**', '**/dist/**',
+    ],
+  },
+];
+
+/**
+ * Built-in header markers of generated code; projects add their own with `generated_markers`
+ * Matched case-sensitively and only after comment syntax, so a hand-written
+ * "do not edit without ..." note does not hide a file from review
+ */
+const BUILTIN_MARKERS: Array<{ name: string; pattern: RegExp }> = [
+  { name: '@generated', pattern: /^\s*(?:\/\/|#|\/\*|\*|--|<!--|;).*@generated\b/ },
+  // Go convention, also followed by protoc, sqlc, stringer and most other generators
+  {
+    name: 'Code generated ... DO NOT EDIT.',
+    pattern: /^\s*(?:\/\/|#|\/\*|\*|--|<!--|;)\s*Code generated .* DO NOT EDIT\.(?:\s*(?:\*\/|-->))?\s*$/,
+  },
+];
+
+/** Lines at the top of a file searched for header markers */
+export const MARKER_SCAN_LINES = 10;
+
+/** Added lines longer than this on average mark a file as minified */
+const MINIFIED_AVERAGE_LENGTH = 300;
+
+/** Added lines needed before the average length is trusted */
+const MINIFIED_MIN_LINES = 5;
+
+/** A single added line this long marks a file as minified */
+const MINIFIED_MAX_LINE_LENGTH = 2000;
+
+/**
+ * Generated File Classifier
+ * Detects lock files, vendored code, minified bundles, snapshots and generated sources
+ * from path globs, header markers and line-length heuristics, so they never reach the LLM
+ */
+@Injectable()
+export class GeneratedFileClassifier {
+  /**
+   * Classify a changed file
+   * @param filePath Repository-relative path
+   * @param addedLines Added lines of the file's diff
+   * @param headerLines First lines of the file at the MR head, if known
+   * @param custom Project globs and markers from .reviewbot.yml
+   * @returns Why the file is excluded, or null if it should be reviewed
+   */
+  classify(
+    filePath: string,
+    addedLines: string[],
+    headerLines: string[] | null,
+    custom: { globs: string[]; markers: string[] } = { globs: [], markers: [] },
+  ): GeneratedFileMatch | null {
+    const pathMatch = this.matchPath(filePath, custom.globs);
+    if (pathMatch) {
+      return pathMatch;
+    }
+
+    if (headerLines) {
+      const lines = headerLines.slice(0, MARKER_SCAN_LINES);
+      const builtin = BUILTIN_MARKERS.find((m) => lines.some((line) => m.pattern.test(line)));
+      if (builtin) {
+        return { kind: 'generated', reason: `header has a "${builtin.name}" comment` };
+      }
+
+      const header = lines.join('\n').toLowerCase();
+      const marker = custom.markers.find((m) => header.includes(m.toLowerCase()));
+      if (marker) {
+        return { kind: 'generated', reason: `header contains "${marker}"` };
+      }
+    }
+
+    if (addedLines.length > 0) {
+      const lengths = addedLines.map((line) => line.length);
+      const average = lengths.reduce((sum, length) => sum + length, 0) / lengths.length;
+      const longest = Math.max(...lengths);
+      if ((addedLines.length >= MINIFIED_MIN_LINES && average > MINIFIED_AVERAGE_LENGTH) || longest > MINIFIED_MAX_LINE_LENGTH) {
+        return { kind: 'minified', reason: `added lines average ${Math.round(average)} characters (longest ${longest})` };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Classify a file by its path only
+   * @param filePath Repository-relative path
+   * @param customGlobs Project globs from .reviewbot.yml
+   * @returns Matching rule, or null
+   */
+  matchPath(filePath: string, customGlobs: string[] = []): GeneratedFileMatch | null {
+    for (const glob of customGlobs) {
+      if (this.matches(filePath, glob)) {
+        return { kind: 'generated', reason: `matches \`${glob}\` in .reviewbot.yml` };
+      }
+    }
+
+    for (const rule of BUILTIN_PATH_RULES) {
+      const glob = rule.globs.find((g) => this.matches(filePath, g));
+      if (glob) {
+        return { kind: rule.kind, reason: `matches \`${glob}\`` };
+      }
+    }
+
+    return null;
+  }
+
+  private matches(filePath: string, glob: string): boolean {
+    return minimatch(filePath, glob, { dot: true, matchBase: !glob.includes('/') });
+  }
+}
+
+interface PathRule {
+  kind: GeneratedFileKind;
+  globs: string[];
+}
+
+export type GeneratedFileKind = 'lockfile' | 'vendored' | 'minified' | 'snapshot' | 'generated';
+
+/**
+ * Why a file was classified as generated or vendored
+ */
+export interface GeneratedFileMatch {
+  kind: GeneratedFileKind;
+  reason: string;
+}
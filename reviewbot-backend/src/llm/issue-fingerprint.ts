@@ -0,0 +1,194 @@
+import * as crypto from 'crypto';
+
+/** Minimum message similarity (0-1) for two findings to count as the same */
+const MIN_MESSAGE_SIMILARITY = 0.5;
+
+/** Lines a re-anchored finding may be away from the new finding's line */
+const MAX_LINE_DISTANCE = 3;
+
+/** Minimum similarity (0-1) for a changed code line to still anchor a finding */
+const MIN_SNIPPET_SIMILARITY = 0.8;
+
+/** Lines around the old position searched for a changed code line */
+const REANCHOR_WINDOW = 50;
+
+/**
+ * Compute a short fingerprint identifying a review issue independent of its line number
+ * Built from the file, the flagged code line, the issue type and the message, all normalized
+ * Used to reference findings from MR comments (e.g. `/reviewbot ignore <fingerprint>`)
+ * @param issue Issue with file, type and message
+ * @param snippet Code on the issue's line (optional)
+ * @returns 12-character hex fingerprint
+ */
+export function computeIssueFingerprint(
+  issue: { file: string; type: string; message: string },
+  snippet?: string | null,
+): string {
+  return crypto
+    .createHash('sha1')
+    .update(`${issue.file}|${issue.type}|${normalizeSnippet(snippet)}|${normalizeMessage(issue.message)}`)
+    .digest('hex')
+    .substring(0, 12);
+}
+
+/**
+ * Normalize an issue message so rewording of numbers, quoting and punctuation does not matter
+ * @param message Issue message
+ */
+export function normalizeMessage(message: string): string {
+  return message
+    .toLowerCase()
+    .replace(/\d+/g, '#') // Line numbers and counts shift between runs
+    .replace(/[`'"“”‘’.,:;!?()[\]{}]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Normalize a code line so indentation and spacing changes do not matter
+ * @param snippet Code line
+ */
+export function normalizeSnippet(snippet?: string | null): string {
+  return (snippet || '').replace(/\s+/g, '').trim();
+}
+
+/**
+ * Word overlap (Jaccard) between two issue messages
+ * @returns Similarity between 0 and 1
+ */
+export function messageSimilarity(a: string, b: string): number {
+  const wordsA = new Set(normalizeMessage(a).split(' ').filter(Boolean));
+  const wordsB = new Set(normalizeMessage(b).split(' ').filter(Boolean));
+  if (wordsA.size === 0 || wordsB.size === 0) {
+    return 0;
+  }
+
+  const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+/**
+ * Find the line a finding's code moved to after unrelated edits
+ * Prefers the old line, then the nearest identical line, then the most similar line nearby
+ * @param snippet Code line the finding was reported on
+ * @param oldLine Line the finding was reported on
+ * @param lines Current file content
+ * @returns New line number, or null if the code is gone
+ */
+export function reanchorLine(snippet: string | null | undefined, oldLine: number, lines: string[]): number | null {
+  const target = normalizeSnippet(snippet);
+  if (!target) {
+    return null;
+  }
+
+  if (normalizeSnippet(lines[oldLine - 1]) === target) {
+    return oldLine;
+  }
+
+  let nearest: number | null = null;
+  lines.forEach((line, index) => {
+    if (normalizeSnippet(line) === target && (nearest === null || Math.abs(index + 1 - oldLine) < Math.abs(nearest - oldLine))) {
+      nearest = index + 1;
+    }
+  });
+  if (nearest !== null) {
+    return nearest;
+  }
+
+  let best: { line: number; similarity: number } | null = null;
+  const from = Math.max(1, oldLine - REANCHOR_WINDOW);
+  const to = Math.min(lines.length, oldLine + REANCHOR_WINDOW);
+  for (let line = from; line <= to; line++) {
+    const similarity = snippetSimilarity(target, normalizeSnippet(lines[line - 1]));
+    if (similarity >= MIN_SNIPPET_SIMILARITY && (!best || similarity > best.similarity)) {
+      best = { line, similarity };
+    }
+  }
+
+  return best ? best.line : null;
+}
+
+/**
+ * Match a new finding to a finding from an earlier run of the same MR
+ * An exact fingerprint wins; otherwise the earlier finding is re-anchored in the current
+ * file and must land next to the new one with the same type and a similar message
+ * @param issue New finding
+ * @param known Findings from earlier runs
+ * @param lines Current content of the finding's file, if available
+ * @returns The matching earlier finding, or null
+ */
+export function matchKnownIssue<T extends KnownIssue>(
+  issue: { file: string; line: number; side?: string; type: string; message: string; fingerprint?: string },
+  known: T[],
+  lines: string[] | null,
+): T | null {
+  const exact = known.find((k) => k.fingerprint === issue.fingerprint);
+  if (exact) {
+    return exact;
+  }
+
+  let best: { issue: T; similarity: number } | null = null;
+  for (const candidate of known) {
+    if (candidate.file !== issue.file || candidate.type !== issue.type) continue;
+    if ((candidate.side || 'new') !== (issue.side || 'new')) continue;
+
+    const anchoredLine = lines ? reanchorLine(candidate.snippet, candidate.line, lines) : candidate.line;
+    if (anchoredLine === null || Math.abs(anchoredLine - issue.line) > MAX_LINE_DISTANCE) continue;
+
+    const similarity = messageSimilarity(candidate.message, issue.message);
+    if (similarity >= MIN_MESSAGE_SIMILARITY && (!best || similarity > best.similarity)) {
+      best = { issue: candidate, similarity };
+    }
+  }
+
+  return best ? best.issue : null;
+}
+
+/**
+ * Extract a fingerprint embedded in a bot comment by formatInlineComment
+ * @param body Comment body
+ * @returns Fingerprint or null if the comment has none
+ */
+export function extractIssueFingerprint(body: string): string | null {
+  const match = body.match(/<!-- reviewbot:fingerprint=([a-f0-9]+) -->/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Character bigram overlap (Dice) between two normalized code lines
+ */
+function snippetSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const bigram = a.substring(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+
+  let shared = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const bigram = b.substring(i, i + 2);
+    const count = bigrams.get(bigram) || 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      shared++;
+    }
+  }
+
+  return (2 * shared) / (a.length + b.length - 2);
+}
+
+/**
+ * Finding from an earlier run, as needed for matching
+ */
+export interface KnownIssue {
+  file: string;
+  line: number;
+  side?: string;
+  type: string;
+  message: string;
+  fingerprint: string;
+  snippet?: string | null;
+}
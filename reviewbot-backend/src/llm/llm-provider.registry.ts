@@ -0,0 +1,145 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import OpenAI, { AzureOpenAI } from 'openai';
+import { LlmProvider, LlmProviderName, LLM_PROVIDER_NAMES } from './providers/llm-provider.interface';
+import { OpenAiCompatibleProvider } from './providers/openai-compatible.provider';
+import { AnthropicProvider } from './providers/anthropic.provider';
+import { MockProvider } from './providers/mock.provider';
+
+/**
+ * LLM Provider Registry
+ * Builds every provider that has credentials configured and resolves
+ * the provider for a call (project override or LLM_PROVIDER default)
+ */
+@Injectable()
+export class LlmProviderRegistry {
+  private readonly logger = new Logger(LlmProviderRegistry.name);
+  private readonly providers = new Map<LlmProviderName, LlmProvider>();
+  private readonly defaultProvider: LlmProviderName | null;
+
+  constructor(private configService: ConfigService) {
+    this.registerAzure();
+    this.registerOpenAi();
+    this.registerAnthropic();
+    this.registerLocal();
+    this.providers.set('mock', new MockProvider());
+
+    const configured = this.configService.get<string>('LLM_PROVIDER') as LlmProviderName | undefined;
+    if (configured && !LLM_PROVIDER_NAMES.includes(configured)) {
+      this.logger.warn(`Unknown LLM_PROVIDER "${configured}" - expected one of ${LLM_PROVIDER_NAMES.join(', ')}`);
+    }
+
+    if (configured && this.providers.has(configured)) {
+      this.defaultProvider = configured;
+    } else {
+      if (configured && LLM_PROVIDER_NAMES.includes(configured)) {
+        this.logger.warn(`LLM_PROVIDER "${configured}" is not configured - falling back`);
+      }
+      // Mock is never picked implicitly
+      this.defaultProvider = (['azure', 'openai', 'anthropic', 'local'] as LlmProviderName[])
+        .find((name) => this.providers.has(name)) || null;
+    }
+
+    if (this.defaultProvider) {
+      this.logger.log(`✓ Default LLM provider: ${this.defaultProvider}`);
+    } else {
+      this.logger.warn('No LLM provider configured - AI review features disabled');
+    }
+  }
+
+  /**
+   * Resolve the provider for a call
+   * @param name Requested provider (e.g. project override); falls back to the default if unavailable
+   * @returns Provider, or null if no provider is configured
+   */
+  resolve(name?: string | null): LlmProvider | null {
+    if (name) {
+      const provider = this.providers.get(name as LlmProviderName);
+      if (provider) {
+        return provider;
+      }
+      this.logger.warn(`LLM provider "${name}" is not configured - using default provider`);
+    }
+
+    return this.defaultProvider ? this.providers.get(this.defaultProvider)! : null;
+  }
+
+  /**
+   * Names of all providers that can be used
+   */
+  getAvailableProviders(): LlmProviderName[] {
+    return [...this.providers.keys()];
+  }
+
+  /**
+   * Context window for a provider's model, overridable with LLM_CONTEXT_WINDOW
+   * @param fallback Typical window of the provider's models
+   */
+  private getContextWindow(fallback: number): number {
+    const configured = parseInt(this.configService.get<string>('LLM_CONTEXT_WINDOW') || '', 10);
+    return configured > 0 ? configured : fallback;
+  }
+
+  private registerAzure(): void {
+    const endpoint = this.configService.get<string>('AZURE_OPENAI_ENDPOINT');
+    const apiKey = this.configService.get<string>('AZURE_OPENAI_KEY');
+    if (!endpoint || !apiKey) {
+      return;
+    }
+
+    const deployment = this.configService.get<string>('AZURE_OPENAI_DEPLOYMENT');
+    if (!deployment) {
+      this.logger.warn('AZURE_OPENAI_DEPLOYMENT not configured - Azure OpenAI provider disabled');
+      return;
+    }
+    const apiVersion = this.configService.get<string>('AZURE_OPENAI_API_VERSION') || '2024-12-01-preview';
+
+    // No fixed deployment on the client: the request model is the deployment, so a project's llmModel selects it
+    const client = new AzureOpenAI({ endpoint, apiKey, apiVersion });
+    this.providers.set('azure', new OpenAiCompatibleProvider('azure', client, deployment, this.getContextWindow(128000)));
+    this.logger.log('✓ Azure OpenAI provider initialized');
+  }
+
+  private registerOpenAi(): void {
+    const apiKey = this.configService.get<string>('OPENAI_API_KEY');
+    if (!apiKey) {
+      return;
+    }
+
+    const client = new OpenAI({
+      apiKey,
+      baseURL: this.configService.get<string>('OPENAI_BASE_URL') || undefined,
+    });
+    const model = this.configService.get<string>('OPENAI_MODEL') || 'gpt-4o-mini';
+    this.providers.set('openai', new OpenAiCompatibleProvider('openai', client, model, this.getContextWindow(128000)));
+    this.logger.log('✓ OpenAI provider initialized');
+  }
+
+  private registerAnthropic(): void {
+    const apiKey = this.configService.get<string>('ANTHROPIC_API_KEY');
+    if (!apiKey) {
+      return;
+    }
+
+    const baseUrl = this.configService.get<string>('ANTHROPIC_BASE_URL') || 'https://api.anthropic.com';
+    const model = this.configService.get<string>('ANTHROPIC_MODEL') || 'claude-haiku-4-5';
+    this.providers.set('anthropic', new AnthropicProvider(apiKey, baseUrl, model, this.getContextWindow(200000)));
+    this.logger.log('✓ Anthropic provider initialized');
+  }
+
+  private registerLocal(): void {
+    const baseURL = this.configService.get<string>('LOCAL_LLM_BASE_URL');
+    if (!baseURL) {
+      return;
+    }
+
+    // Local servers usually ignore the key, but the SDK requires one
+    const client = new OpenAI({
+      baseURL,
+      apiKey: this.configService.get<string>('LOCAL_LLM_API_KEY') || 'not-needed',
+    });
+    const model = this.configService.get<string>('LOCAL_LLM_MODEL') || 'local-model';
+    this.providers.set('local', new OpenAiCompatibleProvider('local', client, model, this.getContextWindow(32768)));
+    this.logger.log(`✓ Local OpenAI-compatible provider initialized (${baseURL})`);
+  }
+}
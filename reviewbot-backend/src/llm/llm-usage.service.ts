@@ -0,0 +1,188 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../prisma/prisma.service';
+
+/**
+ * Default prices in USD per million tokens
+ * Matched by exact model name first, then by longest prefix
+ */
+const DEFAULT_PRICING: Record<string, ModelPricing> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'haiku-4-5': { input: 1, output: 5 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-opus-4': { input: 15, output: 75 },
+};
+
+/**
+ * LLM Usage Service
+ * Records token usage, latency and estimated cost of every LLM call and
+ * rolls the totals up into the review, project and developer metrics
+ */
+@Injectable()
+export class LlmUsageService {
+  private readonly logger = new Logger(LlmUsageService.name);
+  private readonly pricing: Record<string, ModelPricing>;
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+  ) {
+    this.pricing = { ...DEFAULT_PRICING, ...this.loadPricingOverrides() };
+  }
+
+  /**
+   * Record one LLM call
+   * Never throws - usage tracking must not break a review
+   * @param call Call details
+   */
+  async record(call: LlmCallRecord): Promise<void> {
+    const estimatedCost = this.estimateCost(call.provider, call.model, call.promptTokens, call.completionTokens);
+
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        await tx.llmCall.create({
+          data: {
+            reviewId: call.reviewId || null,
+            projectId: call.projectId || null,
+            provider: call.provider,
+            model: call.model,
+            task: call.task,
+            promptTokens: call.promptTokens,
+            completionTokens: call.completionTokens,
+            latencyMs: call.latencyMs,
+            estimatedCost,
+            success: call.success,
+          },
+        });
+
+        const increments = {
+          promptTokens: { increment: call.promptTokens },
+          completionTokens: { increment: call.completionTokens },
+          estimatedCost: { increment: estimatedCost },
+        };
+
+        let developerId: string | null = null;
+        if (call.reviewId) {
+          const review = await tx.review.update({
+            where: { id: call.reviewId },
+            data: increments,
+            select: { developerId: true },
+          });
+          developerId = review.developerId;
+        }
+
+        if (call.projectId) {
+          await tx.projectMetrics.upsert({
+            where: { projectId: call.projectId },
+            update: increments,
+            create: {
+              projectId: call.projectId,
+              promptTokens: call.promptTokens,
+              completionTokens: call.completionTokens,
+              estimatedCost,
+            },
+          });
+        }
+
+        if (developerId) {
+          await tx.developerMetrics.upsert({
+            where: { developerId },
+            update: increments,
+            create: {
+              developerId,
+              promptTokens: call.promptTokens,
+              completionTokens: call.completionTokens,
+              estimatedCost,
+            },
+          });
+        }
+      });
+    } catch (error) {
+      this.logger.warn(`Failed to record LLM usage: ${error.message}`);
+    }
+  }
+
+  /**
+   * Estimate the cost of a call in USD
+   * Local and mock providers are free
+   */
+  estimateCost(provider: string, model: string, promptTokens: number, completionTokens: number): number {
+    if (provider === 'local' || provider === 'mock') {
+      return 0;
+    }
+
+    const price = this.findPricing(model);
+    if (!price) {
+      return 0;
+    }
+
+    return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+  }
+
+  private findPricing(model: string): ModelPricing | null {
+    const name = model.toLowerCase();
+    if (this.pricing[name]) {
+      return this.pricing[name];
+    }
+
+    const prefix = Object.keys(this.pricing)
+      .filter((key) => name.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+
+    return prefix ? this.pricing[prefix] : null;
+  }
+
+  /**
+   * Read LLM_PRICING, e.g. {"my-deployment": {"input": 1, "output": 5}} (USD per million tokens)
+   */
+  private loadPricingOverrides(): Record<string, ModelPricing> {
+    const raw = this.configService.get<string>('LLM_PRICING');
+    if (!raw) {
+      return {};
+    }
+
+    try {
+      const parsed = JSON.parse(raw);
+      const overrides: Record<string, ModelPricing> = {};
+      for (const [model, price] of Object.entries<any>(parsed)) {
+        if (typeof price?.input === 'number' && typeof price?.output === 'number') {
+          overrides[model.toLowerCase()] = { input: price.input, output: price.output };
+        } else {
+          this.logger.warn(`Ignoring invalid LLM_PRICING entry for ${model}`);
+        }
+      }
+      return overrides;
+    } catch (error) {
+      this.logger.warn(`Invalid LLM_PRICING JSON: ${error.message}`);
+      return {};
+    }
+  }
+}
+
+/**
+ * Model price in USD per million tokens
+ */
+interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+/**
+ * Single LLM call to record
+ */
+export interface LlmCallRecord {
+  reviewId?: string;
+  projectId?: string;
+  provider: string;
+  model: string;
+  task: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  success: boolean;
+}
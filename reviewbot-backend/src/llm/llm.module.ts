@@ -1,12 +1,45 @@
 import { Module } from '@nestjs/common';
 import { LlmService } from './llm.service';
+import { LlmProviderRegistry } from './llm-provider.registry';
 import { DiffProcessor } from './diff-processor';
 import { IssueVerifier } from './issue-verifier.service';
+import { ChunkPacker } from './chunk-packer';
+import { FilePrioritizer } from './file-prioritizer';
+import { GeneratedFileClassifier } from './generated-file-classifier';
+import { ScopeContextBuilder } from './scope-context-builder';
+import { SymbolResolver } from './symbol-resolver';
+import { ReviewConfigService } from './review-config.service';
+import { LlmUsageService } from './llm-usage.service';
 import { GitLabModule } from '../gitlab/gitlab.module';
+import { PrismaModule } from '../prisma/prisma.module';
 
 @Module({
-  imports: [GitLabModule],
-  providers: [LlmService, DiffProcessor, IssueVerifier],
-  exports: [LlmService, DiffProcessor, IssueVerifier],
+  imports: [GitLabModule, PrismaModule],
+  providers: [
+    LlmProviderRegistry,
+    LlmService,
+    DiffProcessor,
+    IssueVerifier,
+    ChunkPacker,
+    FilePrioritizer,
+    GeneratedFileClassifier,
+    ScopeContextBuilder,
+    SymbolResolver,
+    ReviewConfigService,
+    LlmUsageService,
+  ],
+  exports: [
+    LlmProviderRegistry,
+    LlmService,
+    DiffProcessor,
+    IssueVerifier,
+    ChunkPacker,
+    FilePrioritizer,
+    GeneratedFileClassifier,
+    ScopeContextBuilder,
+    SymbolResolver,
+    ReviewConfigService,
+    LlmUsageService,
+  ],
 })
 export class LlmModule {}
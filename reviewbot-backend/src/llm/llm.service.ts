@@ -1,51 +1,79 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
-import { AzureOpenAI } from 'openai';
 import pRetry from 'p-retry';
 import { FileContentWithContext } from '../gitlab/gitlab.service';
+import { SymbolDefinition } from './symbol-resolver';
+import { RetrievedSnippet } from '../repo-index/repo-index.service';
+import { DiffLinePosition } from './diff-processor';
+import { LlmProviderRegistry } from './llm-provider.registry';
+import { LlmUsageService } from './llm-usage.service';
+import { LlmProvider, LlmTask, LlmCompletion, LlmMessage } from './providers/llm-provider.interface';
+import { countTokens } from './token-counter';
+import { validateReviewResponse, stripCodeFences, ReviewValidation, SuggestedReplacement } from './review-response.validator';
 
 /**
  * LLM Service
- * Integrates with Azure OpenAI for code review analysis
+ * Runs code review prompts against the configured LLM provider
  * Optimized for token efficiency by reviewing only changed lines
  */
 @Injectable()
 export class LlmService {
   private readonly logger = new Logger(LlmService.name);
-  private readonly client: AzureOpenAI;
-  private readonly deployment: string;
-  private readonly modelName: string;
-  private readonly enabled: boolean;
-
-  constructor(private configService: ConfigService) {
-    const endpoint = this.configService.get<string>('AZURE_OPENAI_ENDPOINT');
-    const apiKey = this.configService.get<string>('AZURE_OPENAI_KEY');
-    this.deployment = this.configService.get<string>('AZURE_OPENAI_DEPLOYMENT') || 'haiku-4-5';
-    this.modelName = this.configService.get<string>('AZURE_OPENAI_MODEL_NAME') || 'haiku-4-5';
-    const apiVersion = this.configService.get<string>('AZURE_OPENAI_API_VERSION') || '2024-12-01-preview';
-
-    if (!endpoint || !apiKey) {
-      this.logger.warn('Azure OpenAI not configured - AI review features disabled');
-      this.enabled = false;
-      return;
+  private readonly MAX_REPAIR_ATTEMPTS = 2;
+  private readonly REVIEW_MAX_COMPLETION_TOKENS = 40000;
+  private readonly MIN_PROMPT_BUDGET = 4000;
+
+  constructor(
+    private providerRegistry: LlmProviderRegistry,
+    private usageService: LlmUsageService,
+  ) {}
+
+  /**
+   * Check if an LLM provider is available for the call
+   * @param options Per-project provider/model override
+   */
+  isEnabled(options?: LlmCallOptions): boolean {
+    return this.providerRegistry.resolve(options?.provider) !== null;
+  }
+
+  /**
+   * Provider and model that answer a call, for comment footers
+   * @param options Per-project provider/model override
+   * @returns e.g. "openai · gpt-4o-mini", or null if no provider is configured
+   */
+  describeModel(options?: LlmCallOptions): string | null {
+    const provider = this.providerRegistry.resolve(options?.provider);
+    return provider ? `${provider.name} · ${options?.model || provider.defaultModel}` : null;
+  }
+
+  /**
+   * Tokens available for file sections in one review call
+   * Context window minus completion reserve, system prompt and batch instructions
+   * @param options Per-project provider/model override
+   */
+  getPromptTokenBudget(options?: LlmCallOptions): number {
+    const provider = this.providerRegistry.resolve(options?.provider);
+    if (!provider) {
+      return this.MIN_PROMPT_BUDGET;
     }
 
-    this.enabled = true;
-    // Configure Azure OpenAI client with proper parameters
-    this.client = new AzureOpenAI({
-      endpoint,
-      apiKey,
-      deployment: this.deployment,
-      apiVersion,
-    });
-    this.logger.log('✓ Azure OpenAI client initialized');
+    // Prompt scaffolding without any file content (single-chunk or batched, whichever is larger)
+    const emptyChunk: DiffChunk = { filename: '', language: '', hunks: '', additions: 0, deletions: 0 };
+    const overhead = countTokens(this.getSystemPrompt(options)) + Math.max(
+      countTokens(this.buildOptimizedPrompt(emptyChunk)),
+      countTokens(this.buildBatchedPrompt([])),
+    );
+
+    // 10% headroom for tokenizer differences between providers
+    const budget = Math.floor((provider.contextWindow - this.getCompletionReserve(provider) - overhead) * 0.9);
+    return Math.max(budget, this.MIN_PROMPT_BUDGET);
   }
 
   /**
-   * Check if LLM service is enabled and configured
+   * Estimate the prompt tokens one chunk adds to a review call
+   * @param chunk Diff chunk including its file context
    */
-  isEnabled(): boolean {
-    return this.enabled;
+  estimateChunkTokens(chunk: DiffChunk): number {
+    return countTokens(this.buildFileSection(chunk, 0, 1));
   }
 
   /**
@@ -53,13 +81,14 @@ export class LlmService {
    * @param chunks Array of diff chunks to review together
    * @returns Structured code review result with issues from all files
    */
-  async reviewMultipleChunks(chunks: DiffChunk[]): Promise<BatchedCodeReviewResult> {
-    if (!this.enabled) {
+  async reviewMultipleChunks(chunks: DiffChunk[], options?: LlmCallOptions): Promise<BatchedCodeReviewResult> {
+    const provider = this.providerRegistry.resolve(options?.provider);
+    if (!provider) {
       this.logger.warn('LLM service disabled - returning empty review');
       return { summary: '', issues: [] };
     }
 
-    const systemPrompt = this.getSystemPrompt();
+    const systemPrompt = this.getSystemPrompt(options);
     const userPrompt = this.buildBatchedPrompt(chunks);
 
     this.logger.log('='.repeat(80));
@@ -72,67 +101,44 @@ export class LlmService {
     console.log('\n' + '='.repeat(80) + '\n');
 
     try {
-      const review = await pRetry(
-        async () => {
-          const response = await this.client.chat.completions.create({
-            model: this.modelName,
-            messages: [
-              { role: 'system', content: systemPrompt },
-              { role: 'user', content: userPrompt },
-            ],
-            max_completion_tokens: 40000,
-          });
-
-          const content = response.choices[0]?.message?.content;
-          if (!content) {
-            throw new Error('Empty response from Azure OpenAI');
-          }
-
-          this.logger.log('='.repeat(80));
-          this.logger.log('📥 RECEIVED BATCHED RESPONSE');
-          this.logger.log('='.repeat(80));
-          console.log('\n🔶 RAW RESPONSE:');
-          console.log(content);
-          console.log('\n🔶 TOKEN USAGE:');
-          console.log(JSON.stringify({
-            prompt_tokens: response.usage?.prompt_tokens,
-            completion_tokens: response.usage?.completion_tokens,
-            total_tokens: response.usage?.total_tokens,
-          }, null, 2));
-          console.log('\n' + '='.repeat(80) + '\n');
-
-          return content;
-        },
-        {
-          retries: 3,
-          onFailedAttempt: (err: any) => {
-            this.logger.warn(`Retry ${err.attemptNumber}: ${err instanceof Error ? err.message : 'Unknown error'}`);
-          },
-        },
+      const { validation, repairAttempts } = await this.reviewWithRepair(
+        provider,
+        'batched-review',
+        systemPrompt,
+        userPrompt,
+        chunks,
+        options,
       );
+      this.logger.log(`✅ Parsed batched review: ${validation.issues.length} total issues`);
 
-      const parsed = this.parseBatchedReviewResponse(review);
-      this.logger.log(`✅ Parsed batched review: ${parsed.issues.length} total issues`);
-
-      return parsed;
+      return {
+        summary: validation.fatal ? 'Failed to parse batched review results' : validation.summary,
+        issues: validation.issues,
+        validation: { failed: validation.fatal, repairAttempts, errors: validation.errors },
+      };
     } catch (error) {
       this.logger.error(`Failed to get batched LLM review: ${error.message}`);
-      return { summary: 'Error during batched review', issues: [] };
+      return {
+        summary: 'Error during batched review',
+        issues: [],
+        validation: { failed: true, repairAttempts: 0, errors: [error.message] },
+      };
     }
   }
 
   /**
-   * Review code changes using Azure OpenAI
+   * Review code changes using the configured LLM provider
    * @param chunk Diff chunk with changed lines and context
    * @returns Structured code review result
    */
-  async reviewChangedLines(chunk: DiffChunk): Promise<CodeReviewResult> {
-    if (!this.enabled) {
+  async reviewChangedLines(chunk: DiffChunk, options?: LlmCallOptions): Promise<CodeReviewResult> {
+    const provider = this.providerRegistry.resolve(options?.provider);
+    if (!provider) {
       this.logger.warn('LLM service disabled - returning empty review');
       return { summary: '', issues: [] };
     }
 
-    const systemPrompt = this.getSystemPrompt();
+    const systemPrompt = this.getSystemPrompt(options);
     const userPrompt = this.buildOptimizedPrompt(chunk);
 
     // Log prompt being sent to LLM
@@ -146,47 +152,20 @@ export class LlmService {
     console.log('\n' + '='.repeat(80) + '\n');
 
     try {
-      const review = await pRetry(
-        async () => {
-          const response = await this.client.chat.completions.create({
-            model: this.modelName,
-            messages: [
-              { role: 'system', content: systemPrompt },
-              { role: 'user', content: userPrompt },
-            ],
-            max_completion_tokens: 40000,
-          });
-
-          const content = response.choices[0]?.message?.content;
-          if (!content) {
-            throw new Error('Empty response from Azure OpenAI');
-          }
-
-          // Log LLM response
-          this.logger.log('='.repeat(80));
-          this.logger.log('📥 RECEIVED RESPONSE FROM LLM');
-          this.logger.log('='.repeat(80));
-          console.log('\n🔶 RAW RESPONSE:');
-          console.log(content);
-          console.log('\n🔶 TOKEN USAGE:');
-          console.log(JSON.stringify({
-            prompt_tokens: response.usage?.prompt_tokens,
-            completion_tokens: response.usage?.completion_tokens,
-            total_tokens: response.usage?.total_tokens,
-          }, null, 2));
-          console.log('\n' + '='.repeat(80) + '\n');
-
-          return content;
-        },
-        {
-          retries: 3,
-          onFailedAttempt: (err: any) => {
-            this.logger.warn(`Retry ${err.attemptNumber}: ${err instanceof Error ? err.message : 'Unknown error'}`);
-          },
-        },
+      const { validation, repairAttempts } = await this.reviewWithRepair(
+        provider,
+        'review',
+        systemPrompt,
+        userPrompt,
+        [chunk],
+        options,
       );
 
-      const parsed = this.parseReviewResponse(review);
+      const parsed: CodeReviewResult = {
+        summary: validation.fatal ? 'Failed to parse review results' : validation.summary,
+        issues: validation.issues.map(({ file: _file, ...issue }) => issue),
+        validation: { failed: validation.fatal, repairAttempts, errors: validation.errors },
+      };
 
       // Log parsed result
       this.logger.log('✅ Parsed review result:');
@@ -195,10 +174,307 @@ export class LlmService {
       return parsed;
     } catch (error) {
       this.logger.error(`Failed to get LLM review: ${error.message}`);
-      return { summary: 'Error during review', issues: [] };
+      return {
+        summary: 'Error during review',
+        issues: [],
+        validation: { failed: true, repairAttempts: 0, errors: [error.message] },
+      };
+    }
+  }
+
+  /**
+   * Explain a previously reported issue in more depth
+   * Used by the `/reviewbot explain` MR comment command
+   * @param issue Issue to explain
+   * @param fileContext Code around the issue at the MR head (optional)
+   * @returns Markdown explanation, or null if the LLM is unavailable
+   */
+  async explainIssue(
+    issue: BatchedCodeReviewResult['issues'][number],
+    fileContext?: FileContentWithContext,
+    options?: LlmCallOptions,
+  ): Promise<string | null> {
+    const provider = this.providerRegistry.resolve(options?.provider);
+    if (!provider) {
+      this.logger.warn('LLM service disabled - cannot explain issue');
+      return null;
+    }
+
+    let userPrompt = `# Explain Code Review Finding
+
+- **File:** ${issue.file}
+- **Line:** ${issue.line}
+- **Severity:** ${issue.severity}
+- **Type:** ${issue.type}
+- **Finding:** ${issue.message}
+- **Suggested fix:** ${issue.suggestion}
+
+`;
+
+    if (fileContext && fileContext.lines.length > 0) {
+      userPrompt += `## Code Context
+
+\`\`\`
+${this.formatContextLines(fileContext, [issue.line])}
+\`\`\`
+
+`;
+    }
+
+    userPrompt += `Explain to the developer why this is a problem, what could go wrong in practice, and how to fix it.
+Keep it under 250 words and answer in Markdown (no JSON).`;
+
+    try {
+      const { content: explanation } = await this.complete(
+        provider,
+        'explain',
+        'You are an expert code reviewer explaining your findings to a developer in a merge request thread.',
+        userPrompt,
+        4000,
+        options,
+      );
+
+      return explanation.trim();
+    } catch (error) {
+      this.logger.error(`Failed to explain issue: ${error.message}`);
+      return null;
     }
   }
 
+  /**
+   * Respond to a developer's reply on one of the bot's inline review threads
+   * The model either concedes the finding or explains it further
+   * @param issue Original issue the thread was created for
+   * @param thread Conversation so far, oldest first (the bot's original comment excluded)
+   * @param fileContext Current code around the issue (optional)
+   * @returns Verdict and reply text, or null if the LLM is unavailable or answered invalidly
+   */
+  async respondToDiscussion(
+    issue: BatchedCodeReviewResult['issues'][number],
+    thread: DiscussionMessage[],
+    fileContext?: FileContentWithContext,
+    options?: LlmCallOptions,
+  ): Promise<DiscussionResponse | null> {
+    const provider = this.providerRegistry.resolve(options?.provider);
+    if (!provider) {
+      this.logger.warn('LLM service disabled - cannot respond to discussion');
+      return null;
+    }
+
+    const systemPrompt = `You are an expert code reviewer who reported an issue on a merge request.
+A developer has replied to your finding. Re-evaluate the finding honestly using the conversation and the current code.
+
+- If the developer's explanation is valid, the code has been fixed, or the finding was a false positive: CONCEDE.
+- Otherwise: MAINTAIN the finding and explain briefly and respectfully why it still matters.
+
+Response format (valid JSON only):
+{
+  "verdict": "concede|maintain",
+  "reply": "Markdown reply to the developer (max 150 words)"
+}`;
+
+    let userPrompt = `# Original Finding
+
+- **File:** ${issue.file}
+- **Line:** ${issue.line}
+- **Severity:** ${issue.severity}
+- **Type:** ${issue.type}
+- **Finding:** ${issue.message}
+- **Suggested fix:** ${issue.suggestion}
+
+`;
+
+    if (fileContext && fileContext.lines.length > 0) {
+      userPrompt += `# Current Code
+
+\`\`\`
+${this.formatContextLines(fileContext, [issue.line])}
+\`\`\`
+
+`;
+    }
+
+    userPrompt += `# Conversation
+
+${thread.map((message) => `**${message.isBot ? 'ReviewBot (you)' : `@${message.author}`}:**\n${message.body}`).join('\n\n')}
+`;
+
+    try {
+      const { content } = await this.complete(provider, 'discussion', systemPrompt, userPrompt, 4000, options);
+
+      const parsed = JSON.parse(stripCodeFences(content));
+
+      if (!['concede', 'maintain'].includes(parsed.verdict) || !parsed.reply) {
+        throw new Error('Invalid discussion response structure');
+      }
+
+      return { verdict: parsed.verdict, reply: String(parsed.reply) };
+    } catch (error) {
+      this.logger.error(`Failed to respond to discussion: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Completion tokens reserved for a review answer
+   * Capped to a quarter of the context window for small local models
+   */
+  private getCompletionReserve(provider: LlmProvider): number {
+    return Math.min(this.REVIEW_MAX_COMPLETION_TOKENS, Math.floor(provider.contextWindow / 4));
+  }
+
+  /**
+   * Run a review completion and validate it against the review schema
+   * Invalid answers are sent back to the model with the validation errors
+   * (up to MAX_REPAIR_ATTEMPTS times); issues still invalid afterwards are dropped
+   * @param provider Resolved provider
+   * @param task Review task
+   * @param systemPrompt System prompt
+   * @param userPrompt Review prompt
+   * @param chunks Chunks included in the prompt (define valid files and lines)
+   * @param options Per-project model override
+   */
+  private async reviewWithRepair(
+    provider: LlmProvider,
+    task: 'review' | 'batched-review',
+    systemPrompt: string,
+    userPrompt: string,
+    chunks: DiffChunk[],
+    options?: LlmCallOptions,
+  ): Promise<{ validation: ReviewValidation; repairAttempts: number }> {
+    const batched = task === 'batched-review';
+    let completion = await this.complete(provider, task, systemPrompt, userPrompt, this.getCompletionReserve(provider), options);
+    this.logResponse(provider, completion, batched);
+
+    let validation = validateReviewResponse(completion.content, chunks, batched);
+    let repairAttempts = 0;
+
+    while (validation.errors.length > 0 && repairAttempts < this.MAX_REPAIR_ATTEMPTS) {
+      repairAttempts++;
+      this.logger.warn(`🔧 Repair attempt ${repairAttempts}/${this.MAX_REPAIR_ATTEMPTS}: ${validation.errors.length} schema error(s)`);
+      validation.errors.forEach((error) => this.logger.debug(`   ${error}`));
+
+      const repaired = await this.complete(provider, task, systemPrompt, userPrompt, this.getCompletionReserve(provider), options, [
+        { role: 'assistant', content: completion.content },
+        { role: 'user', content: this.buildRepairPrompt(validation.errors, batched) },
+      ]);
+      this.logResponse(provider, repaired, batched);
+
+      const repairedValidation = validateReviewResponse(repaired.content, chunks, batched);
+
+      // Never trade a usable answer for an unusable one
+      if (repairedValidation.fatal && !validation.fatal) {
+        continue;
+      }
+
+      completion = repaired;
+      validation = repairedValidation;
+    }
+
+    if (validation.errors.length > 0) {
+      this.logger.warn(`⚠️ ${validation.errors.length} schema error(s) left after ${repairAttempts} repair attempt(s)${validation.fatal ? ' - response unusable' : ' - invalid issues dropped'}`);
+    }
+
+    return { validation, repairAttempts };
+  }
+
+  /**
+   * Build the follow-up prompt asking the model to fix its previous answer
+   * @param errors Validation errors of the previous answer
+   * @param batched Whether issues must name their file
+   */
+  private buildRepairPrompt(errors: string[], batched: boolean): string {
+    return `Your previous answer does not match the required response format:
+
+${errors.slice(0, 20).map((error) => `- ${error}`).join('\n')}
+
+Return the corrected answer as valid JSON only (no Markdown, no prose):
+- "summary": non-empty string
+- "issues": array of objects with ${batched ? '"file" (one of the reviewed files), ' : ''}"line" (a changed line number in the NEW file, inside the diff; or an OLD-file line with "side": "old" for problems caused by removed code), "severity" (critical|high|medium|low), "type" (security|performance|logic|style), "message", "suggestion" and optionally "replacement" ({"startLine", "endLine", "code"} with startLine <= line <= endLine, inside the diff)
+
+Drop any issue you cannot place on a line inside the diff.`;
+  }
+
+  /**
+   * Log a raw review response with token usage
+   */
+  private logResponse(provider: LlmProvider, completion: LlmCompletion, batched: boolean): void {
+    this.logger.log('='.repeat(80));
+    this.logger.log(`📥 RECEIVED ${batched ? 'BATCHED RESPONSE' : 'RESPONSE FROM LLM'} (${provider.name}/${completion.model})`);
+    this.logger.log('='.repeat(80));
+    console.log('\n🔶 RAW RESPONSE:');
+    console.log(completion.content);
+    console.log('\n🔶 TOKEN USAGE:');
+    console.log(JSON.stringify(completion.usage || {}, null, 2));
+    console.log('\n' + '='.repeat(80) + '\n');
+  }
+
+  /**
+   * Run a chat completion with retries
+   * Every attempt is recorded with its token usage, latency and estimated cost
+   * @param provider Resolved provider
+   * @param task What the completion is used for
+   * @param systemPrompt System prompt
+   * @param userPrompt User prompt
+   * @param maxTokens Completion token limit
+   * @param options Per-project model override and usage tracking context
+   * @param conversation Further turns after the user prompt (e.g. repair requests)
+   */
+  private async complete(
+    provider: LlmProvider,
+    task: LlmTask,
+    systemPrompt: string,
+    userPrompt: string,
+    maxTokens: number,
+    options?: LlmCallOptions,
+    conversation?: LlmMessage[],
+  ): Promise<LlmCompletion> {
+    // A model override only applies to the provider it was configured for
+    const model = options?.model && (!options.provider || options.provider === provider.name)
+      ? options.model
+      : provider.defaultModel;
+
+    return pRetry(
+      async () => {
+        const startedAt = Date.now();
+        try {
+          const completion = await provider.complete({ task, model, systemPrompt, userPrompt, conversation, maxTokens });
+          await this.usageService.record({
+            ...options?.tracking,
+            provider: provider.name,
+            model: completion.model || model,
+            task,
+            // Some local servers omit usage - fall back to a local count
+            promptTokens: completion.usage?.promptTokens
+              ?? countTokens(systemPrompt + userPrompt + (conversation || []).map((m) => m.content).join('')),
+            completionTokens: completion.usage?.completionTokens ?? countTokens(completion.content),
+            latencyMs: Date.now() - startedAt,
+            success: true,
+          });
+          return completion;
+        } catch (error) {
+          await this.usageService.record({
+            ...options?.tracking,
+            provider: provider.name,
+            model,
+            task,
+            promptTokens: 0,
+            completionTokens: 0,
+            latencyMs: Date.now() - startedAt,
+            success: false,
+          });
+          throw error;
+        }
+      },
+      {
+        retries: 3,
+        onFailedAttempt: (err: any) => {
+          this.logger.warn(`Retry ${err.attemptNumber}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        },
+      },
+    );
+  }
+
   /**
    * Build batched prompt combining multiple file changes
    * @param chunks Array of chunks to review
@@ -213,32 +489,7 @@ Reviewing ${chunks.length} file(s) with changes.
 
     // Add each file as a section
     for (let i = 0; i < chunks.length; i++) {
-      const chunk = chunks[i];
-      prompt += `---\n\n## File ${i + 1}/${chunks.length}: ${chunk.filename}\n\n`;
-      prompt += `**Language:** ${chunk.language}\n`;
-      prompt += `**Changes:** +${chunk.additions} -${chunk.deletions}\n\n`;
-
-      // Imports
-      if (chunk.fileContext?.imports && chunk.fileContext.imports.length > 0) {
-        prompt += `### ✅ Available Imports\n\n`;
-        prompt += `\`\`\`${chunk.language}\n${chunk.fileContext.imports.join('\n')}\n\`\`\`\n\n`;
-      }
-
-      // Context
-      if (chunk.fileContext && chunk.fileContext.lines.length > 0) {
-        prompt += `### Code Context\n\n`;
-        prompt += `\`\`\`${chunk.language}\n`;
-        prompt += chunk.fileContext.lines.map((line, idx) => {
-          const lineNum = chunk.fileContext!.startLineNumber + idx;
-          const isTargetLine = lineNum === chunk.fileContext!.targetLineNumber;
-          return `${lineNum.toString().padStart(4, ' ')} ${isTargetLine ? '→' : ' '} ${line}`;
-        }).join('\n');
-        prompt += `\n\`\`\`\n\n`;
-      }
-
-      // Diff
-      prompt += `### Changes to Review\n\n`;
-      prompt += `\`\`\`diff\n${chunk.hunks}\n\`\`\`\n\n`;
+      prompt += this.buildFileSection(chunks[i], i, chunks.length);
     }
 
     prompt += `---\n\n## Instructions\n\n`;
@@ -254,10 +505,12 @@ Reviewing ${chunks.length} file(s) with changes.
     prompt += `    {\n`;
     prompt += `      "file": "path/to/file.ts",\n`;
     prompt += `      "line": <line_number>,\n`;
+    prompt += `      "side": "new|old",\n`;
     prompt += `      "severity": "critical|high|medium|low",\n`;
     prompt += `      "type": "security|performance|logic|style",\n`;
     prompt += `      "message": "Issue description",\n`;
-    prompt += `      "suggestion": "Fix recommendation"\n`;
+    prompt += `      "suggestion": "Fix recommendation",\n`;
+    prompt += `      "replacement": { "startLine": <first_replaced_line>, "endLine": <last_replaced_line>, "code": "exact new code" }\n`;
     prompt += `    }\n`;
     prompt += `  ]\n`;
     prompt += `}\n\`\`\`\n`;
@@ -265,12 +518,98 @@ Reviewing ${chunks.length} file(s) with changes.
     return prompt;
   }
 
+  /**
+   * Render code context with line numbers, marking target lines with → and gaps with ⋮
+   * @param fileContext Code context
+   * @param targets Lines to mark (default: the lines the context was built for)
+   */
+  private formatContextLines(fileContext: FileContentWithContext, targets?: number[]): string {
+    const marked = targets || fileContext.targetLineNumbers || [fileContext.targetLineNumber];
+    const lineNumbers = fileContext.lineNumbers || fileContext.lines.map((_, idx) => fileContext.startLineNumber + idx);
+
+    return fileContext.lines.map((line, idx) => {
+      const lineNum = lineNumbers[idx];
+      const gap = idx > 0 && lineNum !== lineNumbers[idx - 1] + 1 ? '   ⋮\n' : '';
+      return `${gap}${lineNum.toString().padStart(4, ' ')} ${marked.includes(lineNum) ? '→' : ' '} ${line}`;
+    }).join('\n');
+  }
+
+  /**
+   * Render definitions of referenced symbols with their location
+   * @param definitions Definitions from other files
+   * @param language Code fence language
+   */
+  private formatDefinitions(definitions: SymbolDefinition[], language: string): string {
+    return definitions
+      .map((definition) => `\`${definition.name}\` (${definition.filePath}:${definition.line})\n\`\`\`${language}\n${definition.code}\n\`\`\`\n\n`)
+      .join('');
+  }
+
+  /**
+   * Render similar code from the repository index with its location
+   * @param snippets Snippets from the default branch
+   * @param language Code fence language
+   */
+  private formatSimilarCode(snippets: RetrievedSnippet[], language: string): string {
+    return snippets
+      .map((snippet) => `${snippet.name ? `\`${snippet.name}\` ` : ''}(${snippet.filePath}:${snippet.startLine}-${snippet.endLine})\n\`\`\`${language}\n${snippet.code}\n\`\`\`\n\n`)
+      .join('');
+  }
+
+  /**
+   * Build the prompt section for one chunk of a batched review
+   * @param chunk Chunk to describe
+   * @param index Position in the batch
+   * @param total Number of chunks in the batch
+   */
+  private buildFileSection(chunk: DiffChunk, index: number, total: number): string {
+    let section = `---\n\n## File ${index + 1}/${total}: ${chunk.filename}\n\n`;
+    section += `**Language:** ${chunk.language}\n`;
+    section += `**Changes:** +${chunk.additions} -${chunk.deletions}\n\n`;
+
+    // Imports
+    if (chunk.fileContext?.imports && chunk.fileContext.imports.length > 0) {
+      section += `### ✅ Available Imports\n\n`;
+      section += `\`\`\`${chunk.language}\n${chunk.fileContext.imports.join('\n')}\n\`\`\`\n\n`;
+    }
+
+    // Context
+    if (chunk.fileContext && chunk.fileContext.lines.length > 0) {
+      section += `### Code Context\n\n`;
+      if (chunk.fileContext.scopes && chunk.fileContext.scopes.length > 0) {
+        section += `**Enclosing scope:** ${chunk.fileContext.scopes.map((scope) => `\`${scope}\``).join(', ')}\n\n`;
+      }
+      section += `\`\`\`${chunk.language}\n`;
+      section += this.formatContextLines(chunk.fileContext);
+      section += `\n\`\`\`\n\n`;
+    }
+
+    // Definitions from other files
+    if (chunk.definitions && chunk.definitions.length > 0) {
+      section += `### Referenced Definitions\n\n`;
+      section += this.formatDefinitions(chunk.definitions, chunk.language);
+    }
+
+    // Similar code elsewhere in the repository
+    if (chunk.similarCode && chunk.similarCode.length > 0) {
+      section += `### Similar Code in the Repository\n\n`;
+      section += this.formatSimilarCode(chunk.similarCode, chunk.language);
+    }
+
+    // Diff
+    section += `### Changes to Review\n\n`;
+    section += `\`\`\`diff\n${chunk.hunks}\n\`\`\`\n\n`;
+
+    return section;
+  }
+
   /**
    * Get system prompt for code review
    * Emphasizes reviewing only changed lines for token efficiency
+   * @param options Repository issue types and team guidelines (from .reviewbot.yml)
    */
-  private getSystemPrompt(): string {
-    return `You are an expert code reviewer analyzing ONLY CHANGED lines in diffs.
+  private getSystemPrompt(options?: LlmCallOptions): string {
+    let prompt = `You are an expert code reviewer analyzing ONLY CHANGED lines in diffs.
 
 CRITICAL RULES:
 1. Review ONLY lines starting with + (added) or - (removed)
@@ -286,9 +625,11 @@ CRITICAL RULES:
 - Only report import issues if the import is truly absent from the list
 
 ⚠️ VARIABLE VERIFICATION RULE:
-- The prompt includes "Code Context" showing ±10 lines around changes
+- The prompt includes "Code Context" showing the enclosing functions/classes of the changes; ⋮ marks skipped lines
 - Check if variables are defined in the context before reporting undefined
 - Only report undefined if truly not present in context or imports
+- "Referenced Definitions" shows signatures of imported symbols from other files; check calls against them before reporting misuse
+- "Similar Code in the Repository" shows existing code from the default branch for reference only; never report issues in it, but point out when a change duplicates an existing helper or breaks a convention it shows
 
 Focus areas (in priority order):
 1. Security vulnerabilities (SQL injection, XSS, authentication flaws)
@@ -303,15 +644,46 @@ Response format (valid JSON only):
   "issues": [
     {
       "line": <line_number_in_new_file>,
+      "side": "new",
       "severity": "critical|high|medium|low",
       "type": "security|performance|logic|style",
       "message": "Clear description of the issue",
-      "suggestion": "Specific fix recommendation"
+      "suggestion": "Specific fix recommendation",
+      "replacement": {
+        "startLine": <first_replaced_line_in_new_file>,
+        "endLine": <last_replaced_line_in_new_file>,
+        "code": "Exact code that replaces those lines"
+      }
     }
   ]
 }
 
+"replacement" is optional. Include it only when the fix is a direct edit of the flagged lines:
+- startLine <= line <= endLine, and all replaced lines are NEW-file lines shown in the diff
+- "code" holds the complete new lines with their original indentation, without +/- markers (use "" to delete the lines)
+- Omit it when the fix needs changes elsewhere or you are unsure of the exact code
+
+Line numbers: every diff line starts with its OLD and NEW line number before the "|".
+Added lines (+) only have a new number, removed lines (-) only an old number.
+- Report issues in added or changed code with the NEW line number and "side": "new" (the default)
+- Report problems caused by REMOVED code (e.g. a dropped auth check, validation or error handling) on the removed line with its OLD line number and "side": "old"; such issues cannot have a "replacement"
+
 If no significant issues found, return: {"summary": "No major issues found", "issues": []}`;
+
+    if (options?.issueTypes && options.issueTypes.length > 0 && options.issueTypes.length < 4) {
+      prompt += `
+
+ENABLED ISSUE TYPES: Only report issues of type ${options.issueTypes.join(', ')}. Do not report any other type.`;
+    }
+
+    if (options?.guidelines) {
+      prompt += `
+
+TEAM GUIDELINES (from the repository's .reviewbot.yml - apply them to the changed lines):
+${options.guidelines}`;
+    }
+
+    return prompt;
   }
 
   /**
@@ -353,19 +725,27 @@ This file has no imports at the top. Any external dependencies WILL be missing.
 
     // Add actual file content with context if available
     if (chunk.fileContext && chunk.fileContext.lines.length > 0) {
-      prompt += `## Code Context (±10 lines around changes)
-
+      prompt += `## Code Context (enclosing functions and classes of the changes)
+${chunk.fileContext.scopes && chunk.fileContext.scopes.length > 0 ? `\n**Enclosing scope:** ${chunk.fileContext.scopes.map((scope) => `\`${scope}\``).join(', ')}\n` : ''}
 \`\`\`${chunk.language}
-${chunk.fileContext.lines.map((line, idx) => {
-  const lineNum = chunk.fileContext!.startLineNumber + idx;
-  const isTargetLine = lineNum === chunk.fileContext!.targetLineNumber;
-  return `${lineNum.toString().padStart(4, ' ')} ${isTargetLine ? '→' : ' '} ${line}`;
-}).join('\n')}
+${this.formatContextLines(chunk.fileContext)}
 \`\`\`
 
 `;
     }
 
+    if (chunk.definitions && chunk.definitions.length > 0) {
+      prompt += `## Referenced Definitions (from other files at the MR head)
+
+${this.formatDefinitions(chunk.definitions, chunk.language)}`;
+    }
+
+    if (chunk.similarCode && chunk.similarCode.length > 0) {
+      prompt += `## Similar Code in the Repository (default branch, for reference only)
+
+${this.formatSimilarCode(chunk.similarCode, chunk.language)}`;
+    }
+
     prompt += `## Changes to Review (diff format)
 
 **Review ONLY the lines with + (added) or - (removed) prefix:**
@@ -379,96 +759,17 @@ ${chunk.hunks}
 ## Review Instructions
 
 1. **Available Imports section** shows ALL imports - these ARE in the file
-2. **Code Context section** shows ±10 lines around changes for understanding
+2. **Code Context section** shows the enclosing functions/classes of the changes (⋮ marks skipped lines)
 3. **Review ONLY** lines with plus or minus prefix in the diff
 4. **DO NOT** report missing imports that are in the Available Imports section
-5. **DO NOT** report undefined variables that are in the Code Context section
-6. Provide line numbers relative to the NEW file (after changes)
+5. **DO NOT** report undefined variables that are in the Code Context section, or misuse of symbols that matches their Referenced Definitions
+6. Provide NEW-file line numbers, or OLD-file line numbers with "side": "old" for problems caused by removed lines
 7. Focus on security, logic errors, and performance - not minor style issues
 
 **Remember:** Imports and context are DEFINITIVE - if they are shown, they exist!`;
 
     return prompt;
   }
-
-  /**
-   * Parse LLM response into structured format
-   * @param response Raw LLM response string
-   * @returns Structured code review result
-   */
-  private parseReviewResponse(response: string): CodeReviewResult {
-    try {
-      // Remove markdown code blocks if present
-      const cleanResponse = response
-        .replace(/```json\n?/g, '')
-        .replace(/```\n?/g, '')
-        .trim();
-
-      const parsed = JSON.parse(cleanResponse);
-
-      // Validate structure
-      if (!parsed.summary || !Array.isArray(parsed.issues)) {
-        throw new Error('Invalid response structure');
-      }
-
-      return {
-        summary: parsed.summary,
-        issues: parsed.issues.map((issue: any) => ({
-          line: parseInt(issue.line) || 0,
-          severity: issue.severity || 'low',
-          type: issue.type || 'style',
-          message: issue.message || 'No description',
-          suggestion: issue.suggestion || 'No suggestion',
-        })),
-      };
-    } catch (error) {
-      this.logger.error(`Failed to parse LLM response: ${error.message}`);
-      this.logger.debug(`Raw response: ${response}`);
-      return {
-        summary: 'Failed to parse review results',
-        issues: [],
-      };
-    }
-  }
-
-  /**
-   * Parse batched LLM response with issues from multiple files
-   * @param response Raw LLM response string
-   * @returns Batched review result
-   */
-  private parseBatchedReviewResponse(response: string): BatchedCodeReviewResult {
-    try {
-      const cleanResponse = response
-        .replace(/```json\n?/g, '')
-        .replace(/```\n?/g, '')
-        .trim();
-
-      const parsed = JSON.parse(cleanResponse);
-
-      if (!parsed.summary || !Array.isArray(parsed.issues)) {
-        throw new Error('Invalid batched response structure');
-      }
-
-      return {
-        summary: parsed.summary,
-        issues: parsed.issues.map((issue: any) => ({
-          file: issue.file || 'unknown',
-          line: parseInt(issue.line) || 0,
-          severity: issue.severity || 'low',
-          type: issue.type || 'style',
-          message: issue.message || 'No description',
-          suggestion: issue.suggestion || 'No suggestion',
-        })),
-      };
-    } catch (error) {
-      this.logger.error(`Failed to parse batched LLM response: ${error.message}`);
-      this.logger.debug(`Raw response: ${response}`);
-      return {
-        summary: 'Failed to parse batched review results',
-        issues: [],
-      };
-    }
-  }
 }
 
 /**
@@ -480,7 +781,48 @@ export interface DiffChunk {
   hunks: string; // Formatted diff with context
   additions: number;
   deletions: number;
+  lineRange?: { start: number; end: number }; // Hunk range in the new file, used to validate issue lines
+  positions?: DiffLinePosition[]; // Old/new line numbers of reviewed lines, used to validate old-side issues
   fileContext?: FileContentWithContext;
+  definitions?: SymbolDefinition[]; // Definitions in other files of symbols used in the changed lines
+  similarCode?: RetrievedSnippet[]; // Similar code from the repository index
+}
+
+/**
+ * Per-call settings from project settings and the repository's .reviewbot.yml
+ */
+export interface LlmCallOptions {
+  provider?: string | null;
+  model?: string | null;
+  issueTypes?: string[]; // Issue types the model may report
+  guidelines?: string; // Team guidelines appended to the system prompt
+  tracking?: { reviewId?: string; projectId?: string }; // Links recorded usage to a review/project
+}
+
+/**
+ * Message in an MR discussion thread passed to the LLM
+ */
+export interface DiscussionMessage {
+  author: string;
+  isBot: boolean;
+  body: string;
+}
+
+/**
+ * LLM decision on a disputed finding
+ */
+export interface DiscussionResponse {
+  verdict: 'concede' | 'maintain';
+  reply: string;
+}
+
+/**
+ * Outcome of schema validation for a review answer
+ */
+export interface ReviewValidationReport {
+  failed: boolean; // No usable answer (transport error or unparseable after repairs)
+  repairAttempts: number;
+  errors: string[]; // Errors left after repairs (invalid issues were dropped)
 }
 
 /**
@@ -488,12 +830,15 @@ export interface DiffChunk {
  */
 export interface CodeReviewResult {
   summary: string;
+  validation?: ReviewValidationReport;
   issues: Array<{
     line: number;
+    side?: 'new' | 'old';
     severity: 'critical' | 'high' | 'medium' | 'low';
     type: 'security' | 'performance' | 'logic' | 'style';
     message: string;
     suggestion: string;
+    replacement?: SuggestedReplacement;
   }>;
 }
 
@@ -502,12 +847,15 @@ export interface CodeReviewResult {
  */
 export interface BatchedCodeReviewResult {
   summary: string;
+  validation?: ReviewValidationReport;
   issues: Array<{
     file: string;
     line: number;
+    side?: 'new' | 'old';
     severity: 'critical' | 'high' | 'medium' | 'low';
     type: 'security' | 'performance' | 'logic' | 'style';
     message: string;
     suggestion: string;
+    replacement?: SuggestedReplacement;
   }>;
 }
@@ -0,0 +1,59 @@
+import { LlmProvider, LlmCompletionRequest, LlmCompletion } from './llm-provider.interface';
+
+/**
+ * Provider for the Anthropic Messages API and compatible gateways
+ * Talks plain HTTP so no extra SDK is required
+ */
+export class AnthropicProvider implements LlmProvider {
+  readonly name = 'anthropic' as const;
+  private readonly API_VERSION = '2023-06-01';
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly baseUrl: string,
+    readonly defaultModel: string,
+    readonly contextWindow: number,
+  ) {}
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': this.API_VERSION,
+      },
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        system: request.systemPrompt,
+        messages: [{ role: 'user', content: request.userPrompt }, ...(request.conversation || [])],
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Anthropic API error ${response.status}: ${(await response.text()).substring(0, 500)}`);
+    }
+
+    const data: any = await response.json();
+    const content = (data.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+
+    if (!content) {
+      throw new Error('Empty response from anthropic provider');
+    }
+
+    const promptTokens = data.usage?.input_tokens || 0;
+    const completionTokens = data.usage?.output_tokens || 0;
+
+    return {
+      content,
+      model: data.model || request.model,
+      usage: data.usage
+        ? { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+        : undefined,
+    };
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Supported LLM provider backends
+ */
+export const LLM_PROVIDER_NAMES = ['azure', 'openai', 'anthropic', 'local', 'mock'] as const;
+
+export type LlmProviderName = (typeof LLM_PROVIDER_NAMES)[number];
+
+/**
+ * What a completion is used for
+ * Lets providers (e.g. the mock) shape their answer without parsing prompts
+ */
+export type LlmTask = 'review' | 'batched-review' | 'explain' | 'discussion';
+
+/**
+ * Chat completion backend used by LlmService
+ */
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  readonly defaultModel: string;
+  readonly contextWindow: number; // Max prompt + completion tokens of the default model
+
+  /**
+   * Run a single chat completion
+   * @throws Error on transport failures or empty responses (callers retry)
+   */
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion>;
+}
+
+/**
+ * Provider-agnostic chat completion request
+ */
+export interface LlmCompletionRequest {
+  task: LlmTask;
+  model: string;
+  systemPrompt: string;
+  userPrompt: string;
+  conversation?: LlmMessage[]; // Further turns after the user prompt
+  maxTokens: number;
+}
+
+/**
+ * Chat turn following the initial user prompt
+ */
+export interface LlmMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Provider-agnostic chat completion result
+ */
+export interface LlmCompletion {
+  content: string;
+  model: string;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+}
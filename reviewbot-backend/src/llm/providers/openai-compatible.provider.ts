@@ -0,0 +1,45 @@
+import OpenAI from 'openai';
+import { LlmProvider, LlmProviderName, LlmCompletionRequest, LlmCompletion } from './llm-provider.interface';
+
+/**
+ * Provider for any backend speaking the OpenAI chat completions API
+ * Used for OpenAI itself, Azure OpenAI (AzureOpenAI extends OpenAI) and
+ * local servers such as llama.cpp, vLLM or Ollama
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  constructor(
+    readonly name: LlmProviderName,
+    private readonly client: OpenAI,
+    readonly defaultModel: string,
+    readonly contextWindow: number,
+  ) {}
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const response = await this.client.chat.completions.create({
+      model: request.model,
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        { role: 'user', content: request.userPrompt },
+        ...(request.conversation || []),
+      ],
+      max_completion_tokens: request.maxTokens,
+    });
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error(`Empty response from ${this.name} provider`);
+    }
+
+    return {
+      content,
+      model: response.model || request.model,
+      usage: response.usage
+        ? {
+            promptTokens: response.usage.prompt_tokens,
+            completionTokens: response.usage.completion_tokens,
+            totalTokens: response.usage.total_tokens,
+          }
+        : undefined,
+    };
+  }
+}
@@ -0,0 +1,226 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as yaml from 'js-yaml';
+import { minimatch } from 'minimatch';
+import { GitLabService } from '../gitlab/gitlab.service';
+
+const SEVERITIES = ['critical', 'high', 'medium', 'low'] as const;
+const ISSUE_TYPES = ['security', 'performance', 'logic', 'style'] as const;
+
+/**
+ * Defaults used when a repository has no .reviewbot.yml (or a key is missing/invalid)
+ */
+export const DEFAULT_REVIEW_CONFIG: ReviewConfig = {
+  ignore: [],
+  generated: [],
+  generatedMarkers: [],
+  minSeverity: 'low',
+  inlineSeverity: 'medium',
+  issueTypes: [...ISSUE_TYPES],
+  guidelines: '',
+  maxFiles: 50,
+  maxChangedLines: 0,
+};
+
+/**
+ * Review Config Service
+ * Loads the repository-level `.reviewbot.yml` at the MR head
+ *
+ * ```yaml
+ * ignore: ["**\/*.generated.ts", "docs/**"]
+ * generated: ["src/api/client/**"]    # extra generated/vendored globs
+ * generated_markers: ["Generated by"] # extra header markers of generated files
+ * min_severity: low        # drop findings below this severity
+ * inline_severity: medium  # post inline comments from this severity up
+ * issue_types: [security, logic, performance]
+ * max_files: 50
+ * max_changed_lines: 2000 # 0 = no limit
+ * guidelines: |
+ *   Prefer async/await over promise chains.
+ * ```
+ */
+@Injectable()
+export class ReviewConfigService {
+  private readonly logger = new Logger(ReviewConfigService.name);
+  private readonly CONFIG_FILE = '.reviewbot.yml';
+  private readonly MAX_FILES_LIMIT = 200;
+  private readonly MAX_CHANGED_LINES_LIMIT = 50000;
+  private readonly MAX_GUIDELINES_LENGTH = 4000;
+
+  constructor(private gitlabService: GitLabService) {}
+
+  /**
+   * Load the review configuration of a repository
+   * A missing file yields the defaults; invalid keys fall back to their default with a warning
+   * @param projectId GitLab project ID
+   * @param sha Commit to read the file at (MR head)
+   */
+  async load(projectId: number, sha: string): Promise<LoadedReviewConfig> {
+    if (!sha) {
+      return { config: { ...DEFAULT_REVIEW_CONFIG }, fromFile: false, warnings: [] };
+    }
+
+    let raw: string;
+    try {
+      raw = await this.gitlabService.getFileContent(projectId, this.CONFIG_FILE, sha);
+    } catch {
+      this.logger.debug(`No ${this.CONFIG_FILE} in project ${projectId} - using defaults`);
+      return { config: { ...DEFAULT_REVIEW_CONFIG }, fromFile: false, warnings: [] };
+    }
+
+    const loaded = this.parse(raw);
+    this.logger.log(`⚙️  Loaded ${this.CONFIG_FILE} for project ${projectId}${loaded.warnings.length > 0 ? ` (${loaded.warnings.length} warning(s))` : ''}`);
+    return loaded;
+  }
+
+  /**
+   * Parse and validate the YAML content of a config file
+   * @param raw File content
+   */
+  parse(raw: string): LoadedReviewConfig {
+    const config: ReviewConfig = {
+      ...DEFAULT_REVIEW_CONFIG,
+      generated: [],
+      generatedMarkers: [],
+      issueTypes: [...DEFAULT_REVIEW_CONFIG.issueTypes],
+    };
+    const warnings: string[] = [];
+
+    let data: any;
+    try {
+      data = yaml.load(raw);
+    } catch (error) {
+      return { config, fromFile: true, warnings: [`Invalid YAML: ${error.message.split('\n')[0]}`] };
+    }
+
+    if (data === undefined || data === null) {
+      return { config, fromFile: true, warnings };
+    }
+    if (typeof data !== 'object' || Array.isArray(data)) {
+      return { config, fromFile: true, warnings: ['Top level must be a mapping of options'] };
+    }
+
+    const known = ['ignore', 'generated', 'generated_markers', 'min_severity', 'inline_severity', 'issue_types', 'guidelines', 'max_files', 'max_changed_lines'];
+    for (const key of Object.keys(data)) {
+      if (!known.includes(key)) {
+        warnings.push(`Unknown option \`${key}\` ignored`);
+      }
+    }
+
+    for (const [key, field, expected] of [
+      ['ignore', 'ignore', 'glob patterns'],
+      ['generated', 'generated', 'glob patterns'],
+      ['generated_markers', 'generatedMarkers', 'strings'],
+    ] as const) {
+      if (data[key] === undefined) continue;
+      const values = Array.isArray(data[key]) ? data[key] : [data[key]];
+      if (values.every((value: unknown) => typeof value === 'string' && value.trim())) {
+        config[field] = values.map((value: string) => value.trim());
+      } else {
+        warnings.push(`\`${key}\` must be a list of ${expected}`);
+      }
+    }
+
+    for (const [key, field] of [['min_severity', 'minSeverity'], ['inline_severity', 'inlineSeverity']] as const) {
+      if (data[key] === undefined) continue;
+      const value = String(data[key]).toLowerCase();
+      if (SEVERITIES.includes(value as Severity)) {
+        config[field] = value as Severity;
+      } else {
+        warnings.push(`\`${key}\` must be one of ${SEVERITIES.join(', ')}`);
+      }
+    }
+
+    if (data.issue_types !== undefined) {
+      const types = (Array.isArray(data.issue_types) ? data.issue_types : [data.issue_types]).map((t: unknown) => String(t).toLowerCase());
+      const invalid = types.filter((t: string) => !ISSUE_TYPES.includes(t as IssueType));
+      if (invalid.length > 0 || types.length === 0) {
+        warnings.push(`\`issue_types\` must list some of ${ISSUE_TYPES.join(', ')}`);
+      } else {
+        config.issueTypes = [...new Set<IssueType>(types)];
+      }
+    }
+
+    if (data.guidelines !== undefined) {
+      if (typeof data.guidelines === 'string') {
+        config.guidelines = data.guidelines.trim().substring(0, this.MAX_GUIDELINES_LENGTH);
+        if (data.guidelines.trim().length > this.MAX_GUIDELINES_LENGTH) {
+          warnings.push(`\`guidelines\` truncated to ${this.MAX_GUIDELINES_LENGTH} characters`);
+        }
+      } else {
+        warnings.push('`guidelines` must be a string');
+      }
+    }
+
+    if (data.max_files !== undefined) {
+      const maxFiles = Number(data.max_files);
+      if (Number.isInteger(maxFiles) && maxFiles > 0) {
+        config.maxFiles = Math.min(maxFiles, this.MAX_FILES_LIMIT);
+        if (maxFiles > this.MAX_FILES_LIMIT) {
+          warnings.push(`\`max_files\` capped at ${this.MAX_FILES_LIMIT}`);
+        }
+      } else {
+        warnings.push('`max_files` must be a positive integer');
+      }
+    }
+
+    if (data.max_changed_lines !== undefined) {
+      const maxChangedLines = Number(data.max_changed_lines);
+      if (Number.isInteger(maxChangedLines) && maxChangedLines >= 0) {
+        config.maxChangedLines = Math.min(maxChangedLines, this.MAX_CHANGED_LINES_LIMIT);
+        if (maxChangedLines > this.MAX_CHANGED_LINES_LIMIT) {
+          warnings.push(`\`max_changed_lines\` capped at ${this.MAX_CHANGED_LINES_LIMIT}`);
+        }
+      } else {
+        warnings.push('`max_changed_lines` must be a non-negative integer');
+      }
+    }
+
+    return { config, fromFile: true, warnings };
+  }
+
+  /**
+   * Check whether a file path matches one of the ignore globs
+   * @param config Review configuration
+   * @param filePath Repository-relative path
+   */
+  isIgnored(config: ReviewConfig, filePath: string): boolean {
+    return config.ignore.some((glob) => minimatch(filePath, glob, { dot: true, matchBase: !glob.includes('/') }));
+  }
+
+  /**
+   * Check whether a severity reaches a threshold
+   * @param severity Issue severity
+   * @param threshold Minimum severity
+   */
+  meetsSeverity(severity: string, threshold: Severity): boolean {
+    const rank = SEVERITIES.indexOf(severity as Severity);
+    return rank !== -1 && rank <= SEVERITIES.indexOf(threshold);
+  }
+}
+
+type Severity = (typeof SEVERITIES)[number];
+type IssueType = (typeof ISSUE_TYPES)[number];
+
+/**
+ * Effective review configuration of a repository
+ */
+export interface ReviewConfig {
+  ignore: string[];
+  generated: string[]; // Extra globs of generated or vendored files
+  generatedMarkers: string[]; // Extra header markers of generated files
+  minSeverity: Severity;
+  inlineSeverity: Severity;
+  issueTypes: IssueType[];
+  guidelines: string;
+  maxFiles: number;
+  maxChangedLines: number; // 0 = no limit
+}
+
+/**
+ * Review configuration with its origin and validation warnings
+ */
+export interface LoadedReviewConfig {
+  config: ReviewConfig;
+  fromFile: boolean;
+  warnings: string[];
+}
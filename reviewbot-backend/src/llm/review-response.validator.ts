@@ -0,0 +1,219 @@
+import { DiffChunk } from './llm.service';
+
+const SEVERITIES = ['critical', 'high', 'medium', 'low'] as const;
+const ISSUE_TYPES = ['security', 'performance', 'logic', 'style'] as const;
+const SIDES = ['new', 'old'] as const;
+
+/**
+ * Validate a raw LLM review answer against the review schema and the reviewed diff
+ * Invalid issues are dropped and reported in `errors`; a response that is not
+ * parseable JSON of the expected shape is `fatal`
+ * @param response Raw LLM response
+ * @param chunks Chunks that were sent for review
+ * @param batched Whether issues must name their file (batched prompt)
+ */
+export function validateReviewResponse(
+  response: string,
+  chunks: DiffChunk[],
+  batched: boolean,
+): ReviewValidation {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(stripCodeFences(response));
+  } catch (error) {
+    return { summary: '', issues: [], errors: [`Response is not valid JSON: ${error.message}`], fatal: true };
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { summary: '', issues: [], errors: ['Response must be a JSON object'], fatal: true };
+  }
+
+  const errors: string[] = [];
+  if (typeof parsed.summary !== 'string' || !parsed.summary.trim()) {
+    errors.push('"summary" must be a non-empty string');
+  }
+  if (!Array.isArray(parsed.issues)) {
+    errors.push('"issues" must be an array');
+    return { summary: '', issues: [], errors, fatal: true };
+  }
+
+  // Allowed new-file line ranges and old-file lines per file
+  const rangesByFile = new Map<string, Array<{ start: number; end: number }>>();
+  const oldLinesByFile = new Map<string, Set<number>>();
+  for (const chunk of chunks) {
+    const ranges = rangesByFile.get(chunk.filename) || [];
+    if (chunk.lineRange) {
+      ranges.push(chunk.lineRange);
+    }
+    rangesByFile.set(chunk.filename, ranges);
+
+    const oldLines = oldLinesByFile.get(chunk.filename) || new Set<number>();
+    for (const position of chunk.positions || []) {
+      if (position.oldLine) oldLines.add(position.oldLine);
+    }
+    oldLinesByFile.set(chunk.filename, oldLines);
+  }
+  const singleFile = chunks[0]?.filename || 'unknown';
+
+  const issues: ValidatedIssue[] = [];
+  parsed.issues.forEach((issue: any, index: number) => {
+    const label = `issues[${index}]`;
+    const issueErrors: string[] = [];
+
+    if (!issue || typeof issue !== 'object') {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+
+    const file = batched ? issue.file : singleFile;
+    if (batched && (typeof file !== 'string' || !rangesByFile.has(file))) {
+      issueErrors.push(`"file" must be one of the reviewed files (got ${JSON.stringify(issue.file)})`);
+    }
+
+    const side = issue.side ?? 'new';
+    if (!SIDES.includes(side)) {
+      issueErrors.push(`"side" must be one of ${SIDES.join('|')} (got ${JSON.stringify(issue.side)})`);
+    }
+
+    const line = Number(issue.line);
+    if (!Number.isInteger(line) || line <= 0) {
+      issueErrors.push(`"line" must be a positive integer (got ${JSON.stringify(issue.line)})`);
+    } else if (side === 'old') {
+      // Old-side findings must point at a removed or unchanged line shown in the diff
+      if (rangesByFile.has(file) && !oldLinesByFile.get(file)!.has(line)) {
+        issueErrors.push(`"line" ${line} is not an old-file line in the diff of ${file}`);
+      }
+    } else if (rangesByFile.has(file)) {
+      const ranges = rangesByFile.get(file)!;
+      if (ranges.length > 0 && !ranges.some((range) => line >= range.start && line <= range.end)) {
+        const allowed = ranges.map((range) => `${range.start}-${range.end}`).join(', ');
+        issueErrors.push(`"line" ${line} is outside the diff of ${file} (allowed: ${allowed})`);
+      }
+    }
+
+    if (!SEVERITIES.includes(issue.severity)) {
+      issueErrors.push(`"severity" must be one of ${SEVERITIES.join('|')} (got ${JSON.stringify(issue.severity)})`);
+    }
+    if (!ISSUE_TYPES.includes(issue.type)) {
+      issueErrors.push(`"type" must be one of ${ISSUE_TYPES.join('|')} (got ${JSON.stringify(issue.type)})`);
+    }
+    if (typeof issue.message !== 'string' || !issue.message.trim()) {
+      issueErrors.push('"message" must be a non-empty string');
+    }
+    if (issue.suggestion !== undefined && typeof issue.suggestion !== 'string') {
+      issueErrors.push('"suggestion" must be a string');
+    }
+
+    if (issueErrors.length > 0) {
+      errors.push(...issueErrors.map((error) => `${label}: ${error}`));
+      return;
+    }
+
+    // A bad replacement only costs the one-click fix, not the finding
+    const replacement = side === 'old' && issue.replacement
+      ? '"replacement" is only allowed for new-side issues'
+      : validateReplacement(issue.replacement, line, rangesByFile.get(file) || []);
+    if (typeof replacement === 'string') {
+      errors.push(`${label}: ${replacement}`);
+    }
+
+    issues.push({
+      file,
+      line,
+      ...(side === 'old' && { side }),
+      severity: issue.severity,
+      type: issue.type,
+      message: issue.message.trim(),
+      suggestion: issue.suggestion?.trim() || 'No suggestion',
+      ...(replacement && typeof replacement === 'object' && { replacement }),
+    });
+  });
+
+  return {
+    summary: typeof parsed.summary === 'string' ? parsed.summary : '',
+    issues,
+    errors,
+    fatal: false,
+  };
+}
+
+/**
+ * Validate the optional exact replacement of an issue
+ * The replaced lines must include the issue's line and lie inside the reviewed diff
+ * @param raw Replacement from the LLM answer
+ * @param line Issue line
+ * @param ranges Reviewed new-file line ranges of the issue's file
+ * @returns Replacement, undefined if none was given, or an error message
+ */
+function validateReplacement(
+  raw: any,
+  line: number,
+  ranges: Array<{ start: number; end: number }>,
+): SuggestedReplacement | string | undefined {
+  if (raw === undefined || raw === null) {
+    return undefined;
+  }
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return '"replacement" must be an object with "startLine", "endLine" and "code"';
+  }
+
+  const startLine = Number(raw.startLine);
+  const endLine = Number(raw.endLine);
+  if (!Number.isInteger(startLine) || !Number.isInteger(endLine) || startLine <= 0 || endLine < startLine) {
+    return `"replacement" needs integer "startLine" <= "endLine" (got ${JSON.stringify(raw.startLine)}-${JSON.stringify(raw.endLine)})`;
+  }
+  if (line < startLine || line > endLine) {
+    return `"replacement" lines ${startLine}-${endLine} must include the issue line ${line}`;
+  }
+  if (ranges.length > 0 && !ranges.some((range) => startLine >= range.start && endLine <= range.end)) {
+    return `"replacement" lines ${startLine}-${endLine} must lie inside one reviewed diff range`;
+  }
+  if (typeof raw.code !== 'string') {
+    return '"replacement.code" must be a string (use "" to delete the lines)';
+  }
+
+  return { startLine, endLine, code: raw.code.replace(/\r\n/g, '\n').replace(/\n$/, '') };
+}
+
+/**
+ * Remove markdown code fences the model may wrap its JSON in
+ */
+export function stripCodeFences(response: string): string {
+  return response
+    .replace(/```json\n?/g, '')
+    .replace(/```\n?/g, '')
+    .trim();
+}
+
+/**
+ * Issue that passed schema validation
+ */
+export interface ValidatedIssue {
+  file: string;
+  line: number;
+  side?: (typeof SIDES)[number]; // 'old' = line number in the old file (removed code), default 'new'
+  severity: (typeof SEVERITIES)[number];
+  type: (typeof ISSUE_TYPES)[number];
+  message: string;
+  suggestion: string;
+  replacement?: SuggestedReplacement;
+}
+
+/**
+ * Exact code replacing a line range of the new file, posted as a GitLab suggestion
+ */
+export interface SuggestedReplacement {
+  startLine: number;
+  endLine: number;
+  code: string; // Replacement lines without diff markers
+}
+
+/**
+ * Result of validating an LLM review answer
+ */
+export interface ReviewValidation {
+  summary: string;
+  issues: ValidatedIssue[];
+  errors: string[];
+  fatal: boolean; // Response could not be used at all
+}
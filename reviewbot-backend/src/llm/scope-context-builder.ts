@@ -0,0 +1,345 @@
+import { Injectable } from '@nestjs/common';
+import * as path from 'path';
+import { countTokens } from './token-counter';
+
+/** Languages whose blocks are delimited by braces */
+const BRACE_EXTENSIONS = new Set([
+  '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.go', '.java', '.kt', '.cs', '.c', '.cpp', '.h', '.rs', '.php', '.swift', '.scala',
+]);
+
+/** Languages whose blocks are delimited by indentation */
+const INDENT_EXTENSIONS = new Set(['.py']);
+
+/** Block headers that declare a scope worth showing (as opposed to if/for/try blocks) */
+const DECLARATION_PATTERNS = [
+  /\b(class|interface|enum|struct|trait|impl|namespace|module|object)\b/,
+  /\b(function|func|fn)\b/,
+  /=>\s*\{?\s*$/,
+  // Method signatures: name(args) with optional modifiers, return type and throws clause
+  /^\s*(?:[\w$@<>[\],.?]+\s+)*[A-Za-z_$][\w$]*\s*(?:<[^>]*>)?\s*\(.*\)\s*(?::[^{;]*|throws[^{;]*)?\{?\s*$/,
+];
+
+/** Block headers that only look like method signatures */
+const CONTROL_KEYWORDS = /^\s*(?:\}\s*)?(if|else|for|foreach|while|do|switch|case|catch|try|finally|with|return|new|synchronized|using|lock|select)\b/;
+
+const PYTHON_DECLARATION = /^\s*(?:async\s+def|def|class)\b/;
+
+/** Lines shown around a change when no enclosing scope is found */
+const FALLBACK_RADIUS = 10;
+
+/** Window radii tried around changed lines when whole scopes exceed the budget */
+const DEGRADED_RADII = [10, 5, 2, 0];
+
+/** Lines above a signature searched for its decorators and doc comment */
+const MAX_LEADING_LINES = 15;
+
+/** Lines a multi-line signature may span */
+const MAX_SIGNATURE_LINES = 12;
+
+/**
+ * Scope Context Builder
+ * Expands the changed lines of a chunk to their enclosing function, method or class
+ * so the reviewer sees signatures and every changed line, within a token budget
+ * Uses brace matching for C-like languages and indentation for Python
+ */
+@Injectable()
+export class ScopeContextBuilder {
+  /**
+   * Build the code context of a chunk
+   * Whole enclosing scopes are used when they fit the budget; otherwise their signatures
+   * plus a shrinking window around each changed line
+   * @param lines File content at the MR head
+   * @param filePath Repository-relative path (selects the parser)
+   * @param changedLines New-file line numbers to cover
+   * @param maxTokens Token budget of the context
+   */
+  build(lines: string[], filePath: string, changedLines: number[], maxTokens: number): ScopeContext {
+    const anchors = [...new Set(changedLines)].filter((line) => line >= 1 && line <= lines.length).sort((a, b) => a - b);
+    const scopes = this.findScopes(lines, filePath);
+    const enclosing = anchors.map((line) => this.innermostScope(scopes, line));
+
+    const full = new Set<number>();
+    anchors.forEach((line, index) => {
+      const scope = enclosing[index];
+      if (scope) {
+        this.addRange(full, scope.start, scope.end);
+        scope.parents.forEach((parent) => this.addRange(full, parent.start, parent.signatureEnd));
+      } else {
+        this.addRange(full, line - FALLBACK_RADIUS, line + FALLBACK_RADIUS);
+      }
+    });
+
+    let selected = this.clamp(full, lines.length);
+    for (const radius of DEGRADED_RADII) {
+      if (this.estimateTokens(lines, selected) <= maxTokens) break;
+
+      const reduced = new Set<number>();
+      anchors.forEach((line, index) => {
+        const scope = enclosing[index];
+        if (scope) {
+          this.addRange(reduced, scope.start, scope.signatureEnd);
+          scope.parents.forEach((parent) => this.addRange(reduced, parent.start, parent.signatureEnd));
+        }
+        this.addRange(reduced, line - radius, line + radius);
+      });
+      selected = this.clamp(reduced, lines.length);
+    }
+
+    // Still too large: keep the changed lines themselves until the budget runs out
+    if (this.estimateTokens(lines, selected) > maxTokens) {
+      selected = [];
+      for (const line of anchors) {
+        if (this.estimateTokens(lines, [...selected, line]) > maxTokens) break;
+        selected.push(line);
+      }
+    }
+
+    const names = [...new Set(enclosing.filter((scope): scope is CodeScope => !!scope).map((scope) => scope.name))];
+
+    return {
+      lines: selected.map((line) => lines[line - 1]),
+      lineNumbers: selected,
+      startLineNumber: selected[0] || 0,
+      endLineNumber: selected[selected.length - 1] || 0,
+      targetLineNumber: anchors[0] || 0,
+      targetLineNumbers: anchors,
+      scopes: names,
+    };
+  }
+
+  /**
+   * Find the declaration scopes of a file
+   * @param lines File content
+   * @param filePath Path used to pick brace or indentation parsing
+   * @returns Scopes with 1-based line ranges, or none for unsupported languages
+   */
+  findScopes(lines: string[], filePath: string): CodeScope[] {
+    const ext = path.extname(filePath).toLowerCase();
+    const scopes = BRACE_EXTENSIONS.has(ext)
+      ? this.findBraceScopes(lines)
+      : INDENT_EXTENSIONS.has(ext)
+        ? this.findIndentScopes(lines)
+        : [];
+
+    // Parents are the scopes that contain each scope, outermost first
+    for (const scope of scopes) {
+      scope.parents = scopes
+        .filter((other) => other !== scope && other.start <= scope.start && other.end >= scope.end && other.end - other.start > scope.end - scope.start)
+        .sort((a, b) => a.start - b.start);
+    }
+
+    return scopes;
+  }
+
+  /**
+   * Brace-delimited scopes; strings and comments are blanked before counting braces
+   */
+  private findBraceScopes(lines: string[]): CodeScope[] {
+    const code = this.stripStringsAndComments(lines);
+    const open: number[] = [];
+    const scopes: CodeScope[] = [];
+
+    code.forEach((text, index) => {
+      for (const char of text) {
+        if (char === '{') {
+          open.push(index);
+        } else if (char === '}') {
+          const openIndex = open.pop();
+          if (openIndex === undefined) continue;
+
+          const signatureStart = this.findSignatureStart(code, openIndex);
+          const signature = code.slice(signatureStart, openIndex + 1).join(' ');
+          if (!this.isDeclaration(signature)) continue;
+
+          scopes.push({
+            name: lines[signatureStart].trim().substring(0, 100),
+            start: this.findLeadingStart(lines, signatureStart) + 1,
+            signatureStart: signatureStart + 1,
+            signatureEnd: openIndex + 1,
+            end: index + 1,
+            parents: [],
+          });
+        }
+      }
+    });
+
+    // Object types in a multi-line signature share its first line; keep only the real body
+    return scopes.filter(
+      (scope) => !scopes.some((other) => other.signatureStart === scope.signatureStart && other.end > scope.end),
+    );
+  }
+
+  /**
+   * Indentation-delimited scopes (def/class blocks)
+   */
+  private findIndentScopes(lines: string[]): CodeScope[] {
+    const scopes: CodeScope[] = [];
+
+    lines.forEach((line, index) => {
+      if (!PYTHON_DECLARATION.test(line)) return;
+
+      const indent = this.indentOf(line);
+      let signatureEnd = index;
+      while (signatureEnd < lines.length - 1 && signatureEnd - index < MAX_SIGNATURE_LINES && !/:\s*(#.*)?$/.test(lines[signatureEnd])) {
+        signatureEnd++;
+      }
+
+      let end = signatureEnd;
+      for (let next = signatureEnd + 1; next < lines.length; next++) {
+        if (!lines[next].trim()) continue;
+        if (this.indentOf(lines[next]) <= indent) break;
+        end = next;
+      }
+
+      scopes.push({
+        name: line.trim().substring(0, 100),
+        start: this.findLeadingStart(lines, index) + 1,
+        signatureStart: index + 1,
+        signatureEnd: signatureEnd + 1,
+        end: end + 1,
+        parents: [],
+      });
+    });
+
+    return scopes;
+  }
+
+  /**
+   * Smallest scope containing a line
+   */
+  private innermostScope(scopes: CodeScope[], line: number): CodeScope | null {
+    return scopes
+      .filter((scope) => scope.start <= line && scope.end >= line)
+      .reduce<CodeScope | null>((best, scope) => (!best || scope.end - scope.start < best.end - best.start ? scope : best), null);
+  }
+
+  /**
+   * First line of a block header whose `{` is on openIndex (multi-line signatures)
+   */
+  private findSignatureStart(code: string[], openIndex: number): number {
+    let start = openIndex;
+    // A line that is only "{" or starts mid-signature belongs to the lines above
+    while (
+      start > 0 &&
+      openIndex - start < MAX_SIGNATURE_LINES &&
+      (/^\s*[{)]/.test(code[start]) || /[,(]\s*$/.test(code[start - 1]) || /^\s*[:.]/.test(code[start]))
+    ) {
+      start--;
+    }
+    return start;
+  }
+
+  /**
+   * Extend a signature upwards over its decorators, annotations and doc comment
+   * @param lines File content
+   * @param signatureStart 0-based index of the signature's first line
+   * @returns 0-based index of the first leading line
+   */
+  findLeadingStart(lines: string[], signatureStart: number): number {
+    let start = signatureStart;
+    while (start > 0 && signatureStart - start < MAX_LEADING_LINES) {
+      const previous = lines[start - 1].trim();
+      if (!/^(@|\/\/|\/\*|\*|#(?!!))/.test(previous)) break;
+      start--;
+    }
+    return start;
+  }
+
+  private isDeclaration(signature: string): boolean {
+    const header = signature.substring(0, signature.lastIndexOf('{') + 1);
+    return !CONTROL_KEYWORDS.test(header) && DECLARATION_PATTERNS.some((pattern) => pattern.test(header));
+  }
+
+  /**
+   * Blank out string literals and comments so braces inside them are not counted
+   */
+  private stripStringsAndComments(lines: string[]): string[] {
+    let inBlockComment = false;
+
+    return lines.map((line) => {
+      let result = '';
+      let quote: string | null = null;
+
+      for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        const pair = line.substring(i, i + 2);
+
+        if (inBlockComment) {
+          if (pair === '*/') {
+            inBlockComment = false;
+            i++;
+          }
+          continue;
+        }
+        if (quote) {
+          if (char === '\\') {
+            i++;
+          } else if (char === quote) {
+            quote = null;
+            result += char;
+          }
+          continue;
+        }
+
+        if (pair === '//') break;
+        if (pair === '/*') {
+          inBlockComment = true;
+          i++;
+          continue;
+        }
+        if (char === '"' || char === "'" || char === '`') {
+          quote = char;
+        }
+        result += char;
+      }
+
+      return result;
+    });
+  }
+
+  private indentOf(line: string): number {
+    return line.replace(/\t/g, '    ').search(/\S|$/);
+  }
+
+  private addRange(target: Set<number>, start: number, end: number): void {
+    for (let line = start; line <= end; line++) {
+      target.add(line);
+    }
+  }
+
+  private clamp(lines: Set<number>, total: number): number[] {
+    return [...lines].filter((line) => line >= 1 && line <= total).sort((a, b) => a - b);
+  }
+
+  /**
+   * Tokens of the selected lines as rendered in the prompt (number gutter included)
+   */
+  private estimateTokens(lines: string[], selected: number[]): number {
+    return countTokens(selected.map((line) => `${line} ${lines[line - 1]}`).join('\n'));
+  }
+}
+
+/**
+ * Function, method or class found in a file
+ */
+export interface CodeScope {
+  name: string; // First line of the signature
+  start: number; // First line, including decorators and doc comment
+  signatureStart: number; // First line of the signature itself
+  signatureEnd: number; // Line that opens the body
+  end: number;
+  parents: CodeScope[]; // Enclosing scopes, outermost first
+}
+
+/**
+ * Context lines of a chunk, possibly with gaps between them
+ */
+export interface ScopeContext {
+  lines: string[];
+  lineNumbers: number[];
+  startLineNumber: number;
+  endLineNumber: number;
+  targetLineNumber: number;
+  targetLineNumbers: number[];
+  scopes: string[];
+}
@@ -0,0 +1,383 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as path from 'path';
+import { GitLabService } from '../gitlab/gitlab.service';
+import { ScopeContextBuilder, CodeScope } from './scope-context-builder';
+import { countTokens } from './token-counter';
+
+/** Extensions tried for extensionless TS/JS imports */
+const JS_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '/index.ts', '/index.tsx', '/index.js'];
+
+/** Path prefixes tried for TS/JS path aliases like `@/utils` */
+const ALIAS_ROOTS = ['src/', ''];
+
+/** Symbols looked up per chunk */
+const MAX_SYMBOLS_PER_CHUNK = 8;
+
+/** Code searches per review run (Go and Java symbols are found by search) */
+const MAX_SEARCHES_PER_RUN = 10;
+
+/** Java/Kotlin packages that are never part of the repository */
+const JAVA_PLATFORM_PACKAGES = /^(java|javax|jakarta|kotlin|kotlinx|android|androidx)\./;
+
+/** Type-like definitions up to this many lines are shown with their body */
+const MAX_BODY_LINES = 25;
+
+/** Lines of a statement definition (const, type alias) shown */
+const MAX_STATEMENT_LINES = 10;
+
+/**
+ * Symbol Resolver
+ * Finds the definitions of symbols used in changed lines but declared in other files
+ * (imports in TS/JS and Python, code search for Go and Java) and extracts their
+ * signatures and doc comments for the "Referenced definitions" prompt section
+ */
+@Injectable()
+export class SymbolResolver {
+  private readonly logger = new Logger(SymbolResolver.name);
+
+  constructor(
+    private gitlabService: GitLabService,
+    private scopeContextBuilder: ScopeContextBuilder,
+  ) {}
+
+  /**
+   * Create the lookup state shared by all chunks of a review run
+   * @param projectId GitLab project ID
+   * @param sha MR head SHA
+   * @param readFile File reader sharing the run's file cache
+   */
+  createLookup(projectId: number, sha: string, readFile: (filePath: string) => Promise<string[] | null>): SymbolLookup {
+    return { projectId, sha, readFile, definitions: new Map(), searches: 0 };
+  }
+
+  /**
+   * Resolve symbols referenced by the changed lines of a chunk
+   * @param lookup Shared lookup state of the run
+   * @param filePath Path of the changed file
+   * @param fileLines Content of the changed file at the MR head
+   * @param changedLines New-file line numbers of the chunk's added lines
+   * @param maxTokens Token budget of the definitions
+   * @returns Definitions found in other files, in order of first use
+   */
+  async resolve(
+    lookup: SymbolLookup,
+    filePath: string,
+    fileLines: string[],
+    changedLines: number[],
+    maxTokens: number,
+  ): Promise<SymbolDefinition[]> {
+    const references = this.findReferences(filePath, fileLines, changedLines).slice(0, MAX_SYMBOLS_PER_CHUNK);
+    const definitions: SymbolDefinition[] = [];
+    let tokens = 0;
+
+    for (const reference of references) {
+      const key = this.lookupKey(filePath, reference);
+      if (!lookup.definitions.has(key)) {
+        lookup.definitions.set(key, await this.lookupDefinition(lookup, filePath, reference));
+      }
+
+      const definition = lookup.definitions.get(key);
+      if (!definition || definition.filePath === filePath) continue;
+
+      const definitionTokens = countTokens(definition.code);
+      if (tokens + definitionTokens > maxTokens) continue;
+      definitions.push(definition);
+      tokens += definitionTokens;
+    }
+
+    return definitions;
+  }
+
+  /**
+   * Find imported symbols used in the changed lines
+   * @param filePath Path of the changed file
+   * @param fileLines File content
+   * @param changedLines New-file line numbers to scan
+   */
+  findReferences(filePath: string, fileLines: string[], changedLines: number[]): SymbolReference[] {
+    const imports = this.parseImports(filePath, fileLines);
+    if (imports.length === 0) {
+      return [];
+    }
+
+    const comment = path.extname(filePath).toLowerCase() === '.py' ? /#.*$/ : /\/\/.*$/;
+    const changedCode = changedLines
+      .map((line) => fileLines[line - 1] || '')
+      .map((line) => line.replace(/(["'`])(?:\\.|(?!\1).)*\1/g, '""').replace(comment, ''))
+      .join('\n');
+
+    const references: SymbolReference[] = [];
+    const seen = new Set<string>();
+    const add = (reference: SymbolReference) => {
+      const key = `${reference.source}|${reference.name}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        references.push(reference);
+      }
+    };
+
+    for (const match of changedCode.matchAll(/([A-Za-z_$][\w$]*)(?:\s*\.\s*([A-Za-z_$][\w$]*))?/g)) {
+      const [, identifier, member] = match;
+      const imported = imports.find((i) => i.local === identifier);
+      if (!imported) continue;
+
+      if (imported.namespace) {
+        // `utils.format(...)` with `import * as utils` / Go packages: the member is the symbol
+        if (member) add({ name: member, source: imported.source, language: imported.language });
+      } else {
+        add({ name: imported.name, source: imported.source, language: imported.language });
+      }
+    }
+
+    return references;
+  }
+
+  /**
+   * Parse the import statements of a file
+   * @param filePath Path (selects the language)
+   * @param lines File content
+   */
+  parseImports(filePath: string, lines: string[]): ImportedSymbol[] {
+    const ext = path.extname(filePath).toLowerCase();
+    const code = lines.join('\n');
+    const imports: ImportedSymbol[] = [];
+
+    if (['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'].includes(ext)) {
+      for (const [, clause, source] of code.matchAll(/import\s+(?:type\s+)?([\w$*{}\s,]+?)\s+from\s+['"]([^'"]+)['"]/g)) {
+        if (!source.startsWith('.') && !/^[@~]\//.test(source)) continue; // Packages are not in the repository
+
+        const namespace = clause.match(/\*\s+as\s+([\w$]+)/);
+        if (namespace) {
+          imports.push({ local: namespace[1], name: '*', source, namespace: true, language: 'js' });
+        }
+        const defaultImport = clause.match(/^\s*([\w$]+)\s*(?:,|$)/);
+        if (defaultImport) {
+          imports.push({ local: defaultImport[1], name: 'default', source, namespace: false, language: 'js' });
+        }
+        const named = clause.match(/\{([^}]*)\}/);
+        for (const specifier of named ? named[1].split(',') : []) {
+          const [name, local] = specifier.replace(/^\s*type\s+/, '').split(/\s+as\s+/).map((part) => part.trim());
+          if (name) imports.push({ local: local || name, name, source, namespace: false, language: 'js' });
+        }
+      }
+    } else if (ext === '.py') {
+      for (const [, source, names] of code.matchAll(/^\s*from\s+([.\w]+)\s+import\s+\(?([\w\s,]+)\)?/gm)) {
+        for (const specifier of names.split(',')) {
+          const [name, local] = specifier.split(/\s+as\s+/).map((part) => part.trim());
+          if (name) imports.push({ local: local || name, name, source, namespace: false, language: 'python' });
+        }
+      }
+    } else if (ext === '.go') {
+      const block = code.match(/import\s*\(([\s\S]*?)\)/);
+      const specs = [...(block ? block[1].split('\n') : []), ...[...code.matchAll(/^import\s+(.+)$/gm)].map((m) => m[1])];
+      for (const spec of specs) {
+        const match = spec.trim().match(/^(?:([\w.]+)\s+)?"([^"]+)"/);
+        if (!match || match[1] === '_' || match[1] === '.') continue;
+        const local = match[1] || match[2].split('/').pop()!;
+        imports.push({ local, name: '*', source: match[2], namespace: true, language: 'go' });
+      }
+    } else if (ext === '.java' || ext === '.kt') {
+      for (const [, source, name] of code.matchAll(/^\s*import\s+(?!static)([\w.]+)\.([A-Z][\w]*)\s*;?\s*$/gm)) {
+        imports.push({ local: name, name, source, namespace: false, language: 'java' });
+      }
+    }
+
+    return imports;
+  }
+
+  /**
+   * Locate the file defining a referenced symbol and extract its definition
+   */
+  private async lookupDefinition(lookup: SymbolLookup, fromFile: string, reference: SymbolReference): Promise<SymbolDefinition | null> {
+    if (!(await this.isInRepository(lookup, reference))) {
+      return null;
+    }
+
+    const candidates =
+      reference.language === 'js' || reference.language === 'python'
+        ? this.candidatePaths(fromFile, reference)
+        : await this.searchPaths(lookup, reference);
+
+    for (const candidate of candidates) {
+      const lines = await lookup.readFile(candidate);
+      if (!lines) continue;
+
+      const definition = this.extractDefinition(candidate, lines, reference.name);
+      if (definition) {
+        this.logger.debug(`🔗 Resolved ${reference.name} to ${candidate}:${definition.line}`);
+        return definition;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Skip Go and Java imports of the standard library and third-party modules before searching
+   * Go packages must be under the module path from go.mod
+   */
+  private async isInRepository(lookup: SymbolLookup, reference: SymbolReference): Promise<boolean> {
+    if (reference.language === 'java') {
+      return !JAVA_PLATFORM_PACKAGES.test(`${reference.source}.`);
+    }
+    if (reference.language === 'go') {
+      const goMod = await lookup.readFile('go.mod');
+      const modulePath = goMod?.map((line) => line.match(/^module\s+(\S+)/)?.[1]).find(Boolean);
+      return !!modulePath && reference.source.startsWith(`${modulePath}/`);
+    }
+    return true;
+  }
+
+  /**
+   * Key of a reference in the run-wide definition cache
+   * Relative imports are keyed on the path they resolve to, since `./utils` means a different file in every directory
+   */
+  private lookupKey(fromFile: string, reference: SymbolReference): string {
+    const source = reference.source.startsWith('.') ? this.candidatePaths(fromFile, reference)[0] : reference.source;
+    return `${source}|${reference.name}`;
+  }
+
+  /**
+   * Repository paths an import source can refer to
+   */
+  private candidatePaths(fromFile: string, reference: SymbolReference): string[] {
+    const dir = path.posix.dirname(fromFile);
+
+    if (reference.language === 'python') {
+      const relative = reference.source.match(/^(\.+)(.*)$/);
+      const base = relative
+        ? path.posix.join(dir, '../'.repeat(relative[1].length - 1), relative[2].replace(/\./g, '/'))
+        : reference.source.replace(/\./g, '/');
+      const roots = relative ? [''] : ['', 'src/'];
+      return roots.flatMap((root) => [`${root}${base}.py`, `${root}${base}/__init__.py`]);
+    }
+
+    const bases = reference.source.startsWith('.')
+      ? [path.posix.join(dir, reference.source)]
+      : ALIAS_ROOTS.map((root) => `${root}${reference.source.substring(2)}`);
+    return bases.flatMap((base) => (path.posix.extname(base) ? [base] : JS_EXTENSIONS.map((ext) => `${base}${ext}`)));
+  }
+
+  /**
+   * Find files declaring a Go or Java symbol with the GitLab code search
+   */
+  private async searchPaths(lookup: SymbolLookup, reference: SymbolReference): Promise<string[]> {
+    if (lookup.searches >= MAX_SEARCHES_PER_RUN) {
+      return [];
+    }
+    lookup.searches++;
+
+    const query = reference.language === 'go' ? reference.name : `class ${reference.name}`;
+    const results = await this.gitlabService.searchBlobs(lookup.projectId, query, lookup.sha);
+
+    // Keep files in the imported package (Go) or matching the imported class path (Java)
+    const expected =
+      reference.language === 'go'
+        ? `${reference.source.split('/').pop()}/`
+        : `${reference.source.replace(/\./g, '/')}/${reference.name}.`;
+    return [...new Set(results.map((result) => result.path))].filter((file) => file.includes(expected));
+  }
+
+  /**
+   * Extract the signature and doc comment of a top-level definition
+   * Interfaces, types and enums are shown with their body when short; classes
+   * with the signatures of their public members
+   * @param filePath Defining file
+   * @param lines File content
+   * @param name Exported name ('default' for default exports)
+   */
+  extractDefinition(filePath: string, lines: string[], name: string): SymbolDefinition | null {
+    const escaped = name.replace(/\$/g, '\\$');
+    const pattern =
+      name === 'default'
+        ? /^\s*export\s+default\s+(?:abstract\s+)?(?:async\s+)?(?:function\*?|class)\s*([\w$]*)/
+        : new RegExp(
+            `^\\s*(?:export\\s+)?(?:declare\\s+)?(?:(?:public|private|protected|static|final|abstract|async|sealed|data|open)\\s+)*` +
+              `(?:function\\*?|class|interface|type|enum|const|let|var|def|func|struct|record|trait|object)\\s+(?:\\([^)]*\\)\\s*)?${escaped}\\b`,
+          );
+
+    const index = lines.findIndex((line) => pattern.test(line));
+    if (index === -1) {
+      return null;
+    }
+
+    const scopes = this.scopeContextBuilder.findScopes(lines, filePath);
+    const scope = scopes.find((s) => s.signatureStart === index + 1);
+    const symbol = name === 'default' ? lines[index].match(pattern)?.[1] || 'default' : name;
+
+    let code: string[];
+    if (!scope) {
+      // Statement (const, type alias, Python assignment): doc comment plus the statement
+      const start = this.scopeContextBuilder.findLeadingStart(lines, index);
+      let end = index;
+      while (end < lines.length - 1 && end - index < MAX_STATEMENT_LINES - 1 && !/[;}]\s*$/.test(lines[end]) && lines[end + 1].trim()) {
+        end++;
+      }
+      code = lines.slice(start, end + 1);
+    } else if (scope.end - scope.start < MAX_BODY_LINES && !/\b(class|def|func|function)\b/.test(lines[index])) {
+      code = lines.slice(scope.start - 1, scope.end);
+    } else {
+      code = lines.slice(scope.start - 1, scope.signatureEnd);
+      if (/\bclass\b/.test(lines[index])) {
+        code.push(...this.memberSignatures(lines, scopes, scope));
+        if (scope.signatureEnd < scope.end) code.push(lines[scope.end - 1]);
+      } else if (scope.signatureEnd < scope.end) {
+        code.push(`${lines[index].match(/^\s*/)![0]}  …`);
+      }
+    }
+
+    return { name: symbol, filePath, line: index + 1, code: code.join('\n') };
+  }
+
+  /**
+   * Signature lines of the public methods directly inside a class
+   */
+  private memberSignatures(lines: string[], scopes: CodeScope[], owner: CodeScope): string[] {
+    return scopes
+      .filter((scope) => scope.parents[scope.parents.length - 1] === owner)
+      .filter((scope) => !/^\s*(private|protected)\b|^\s*#|^\s*def\s+_/.test(lines[scope.signatureStart - 1]))
+      .sort((a, b) => a.signatureStart - b.signatureStart)
+      .flatMap((scope) => lines.slice(scope.signatureStart - 1, scope.signatureEnd).map((line) => line.replace(/\s*\{\s*$/, ';')));
+  }
+}
+
+/**
+ * Lookup state shared by all chunks of one review run
+ */
+export interface SymbolLookup {
+  projectId: number;
+  sha: string;
+  readFile: (filePath: string) => Promise<string[] | null>;
+  definitions: Map<string, SymbolDefinition | null>; // By import source and name
+  searches: number;
+}
+
+/**
+ * Name imported into a file
+ */
+export interface ImportedSymbol {
+  local: string; // Name used in the file
+  name: string; // Exported name ('default', or '*' for namespaces)
+  source: string; // Module path, package or Java package
+  namespace: boolean; // Members are accessed as `local.member`
+  language: 'js' | 'python' | 'go' | 'java';
+}
+
+/**
+ * Imported symbol used in changed lines
+ */
+export interface SymbolReference {
+  name: string;
+  source: string;
+  language: ImportedSymbol['language'];
+}
+
+/**
+ * Definition of a referenced symbol in another file
+ */
+export interface SymbolDefinition {
+  name: string;
+  filePath: string;
+  line: number;
+  code: string; // Doc comment and signature (short bodies included)
+}
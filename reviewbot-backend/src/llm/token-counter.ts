@@ -0,0 +1,28 @@
+import { getEncoding, Tiktoken } from 'js-tiktoken';
+
+/** Lazily created tokenizer; null if it could not be loaded */
+let encoder: Tiktoken | null | undefined;
+
+/**
+ * Count prompt tokens of a text
+ * Uses the cl100k_base tokenizer, which is close enough for budgeting across
+ * providers; falls back to ~4 characters per token if the tokenizer is unavailable
+ * @param text Text to measure
+ * @returns Estimated token count
+ */
+export function countTokens(text: string): number {
+  if (!text) {
+    return 0;
+  }
+
+  if (encoder === undefined) {
+    try {
+      encoder = getEncoding('cl100k_base');
+    } catch {
+      encoder = null;
+    }
+  }
+
+  // Special-token markers in code must be counted as plain text, not rejected
+  return encoder ? encoder.encode(text, [], []).length : Math.ceil(text.length / 4);
+}
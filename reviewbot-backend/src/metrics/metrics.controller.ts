@@ -0,0 +1,49 @@
+import { Controller, Post, Param, UseGuards } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { ApiTags, ApiBearerAuth, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { MetricsService } from './metrics.service';
+
+/**
+ * Metrics Controller
+ * Admin endpoints to rebuild aggregated project and developer metrics
+ * All endpoints are protected with JWT authentication
+ */
+@ApiTags('Metrics')
+@ApiBearerAuth()
+@Controller('api/metrics')
+@UseGuards(JwtAuthGuard)
+export class MetricsController {
+  constructor(
+    private readonly metricsService: MetricsService,
+    @InjectQueue('metrics-queue') private metricsQueue: Queue,
+  ) {}
+
+  @Post('rebuild')
+  @ApiOperation({ summary: 'Rebuild all metrics', description: 'Queue a full recompute of all project and developer metrics' })
+  @ApiResponse({ status: 201, description: 'Recompute queued' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async rebuildAll() {
+    const job = await this.metricsQueue.add('recompute-all', {}, { removeOnComplete: true });
+    return { message: 'Metrics recompute queued', jobId: job.id };
+  }
+
+  @Post('projects/:id/rebuild')
+  @ApiOperation({ summary: 'Rebuild project metrics', description: 'Recompute metrics of one project from its reviews' })
+  @ApiResponse({ status: 201, description: 'Metrics rebuilt successfully' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async rebuildProject(@Param('id') id: string) {
+    return this.metricsService.recomputeProject(id);
+  }
+
+  @Post('developers/:id/rebuild')
+  @ApiOperation({ summary: 'Rebuild developer metrics', description: 'Recompute metrics of one developer from their reviews' })
+  @ApiResponse({ status: 201, description: 'Metrics rebuilt successfully' })
+  @ApiResponse({ status: 404, description: 'Developer not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async rebuildDeveloper(@Param('id') id: string) {
+    return this.metricsService.recomputeDeveloper(id);
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+import { MetricsController } from './metrics.controller';
+import { MetricsService } from './metrics.service';
+import { MetricsProcessor } from './metrics.processor';
+import { PrismaModule } from '../prisma/prisma.module';
+
+/**
+ * Metrics Module
+ * Aggregates review results into project and developer metrics
+ */
+@Module({
+  imports: [
+    PrismaModule,
+    BullModule.registerQueue({
+      name: 'metrics-queue',
+    }),
+  ],
+  controllers: [MetricsController],
+  providers: [MetricsService, MetricsProcessor],
+  exports: [MetricsService],
+})
+export class MetricsModule {}
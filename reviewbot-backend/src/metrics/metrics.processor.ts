@@ -0,0 +1,55 @@
+import { Process, Processor, InjectQueue } from '@nestjs/bull';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Queue } from 'bull';
+import { MetricsService } from './metrics.service';
+
+/**
+ * Metrics Processor
+ * Runs full metrics recomputes on the metrics queue, on demand and on a schedule
+ */
+@Processor('metrics-queue')
+@Injectable()
+export class MetricsProcessor implements OnModuleInit {
+  private readonly logger = new Logger(MetricsProcessor.name);
+  private readonly DEFAULT_CRON = '0 3 * * *'; // Daily at 03:00
+
+  constructor(
+    private metricsService: MetricsService,
+    private configService: ConfigService,
+    @InjectQueue('metrics-queue') private metricsQueue: Queue,
+  ) {}
+
+  /**
+   * Register the repeatable recompute job (METRICS_RECOMPUTE_CRON, "off" disables it)
+   * Repeatable jobs with a different schedule are removed so a changed cron does not run twice
+   */
+  async onModuleInit() {
+    const cron = this.configService.get<string>('METRICS_RECOMPUTE_CRON') || this.DEFAULT_CRON;
+
+    try {
+      const existing = await this.metricsQueue.getRepeatableJobs();
+      for (const job of existing) {
+        if (job.name === 'recompute-all' && (cron === 'off' || job.cron !== cron)) {
+          await this.metricsQueue.removeRepeatableByKey(job.key);
+        }
+      }
+
+      if (cron === 'off') {
+        this.logger.log('Scheduled metrics recompute disabled');
+        return;
+      }
+
+      await this.metricsQueue.add('recompute-all', {}, { repeat: { cron }, removeOnComplete: true });
+      this.logger.log(`Scheduled metrics recompute (${cron})`);
+    } catch (error) {
+      this.logger.warn(`Could not schedule metrics recompute: ${error.message}`);
+    }
+  }
+
+  @Process('recompute-all')
+  async handleRecomputeAll() {
+    this.logger.log('Starting full metrics recompute');
+    return this.metricsService.recomputeAll();
+  }
+}
@@ -0,0 +1,232 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Prisma, ReviewStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+/**
+ * Metrics Service
+ * Rebuilds ProjectMetrics and DeveloperMetrics from completed reviews
+ * Every update is a full recompute for the project/developer, so it is idempotent
+ */
+@Injectable()
+export class MetricsService {
+  private readonly logger = new Logger(MetricsService.name);
+  private readonly COMMON_ISSUES_LIMIT = 5;
+  private readonly IMPROVEMENT_WINDOW = 10; // Merge requests compared per window for improvementRate
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Update the metrics touched by a finished review
+   * Never throws - metrics must not fail a review
+   * @param reviewId Review ID
+   */
+  async updateForReview(reviewId: string): Promise<void> {
+    try {
+      const review = await this.prisma.review.findUnique({
+        where: { id: reviewId },
+        select: { projectId: true, developerId: true },
+      });
+
+      if (!review) {
+        return;
+      }
+
+      await this.recomputeProject(review.projectId);
+      await this.recomputeDeveloper(review.developerId);
+    } catch (error) {
+      this.logger.warn(`Failed to update metrics for review ${reviewId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Rebuild metrics of one project
+   * @param projectId Project ID
+   * @returns Updated metrics
+   */
+  async recomputeProject(projectId: string) {
+    const project = await this.prisma.project.findUnique({ where: { id: projectId }, select: { id: true } });
+    if (!project) {
+      throw new NotFoundException(`Project with ID ${projectId} not found`);
+    }
+
+    const [reviews, usage] = await Promise.all([
+      this.aggregateMergeRequests({ projectId }),
+      this.prisma.llmCall.aggregate({
+        where: { projectId },
+        _sum: { promptTokens: true, completionTokens: true, estimatedCost: true },
+      }),
+    ]);
+
+    const data = {
+      totalReviews: reviews.totalReviews,
+      averageScore: reviews.averageScore,
+      totalIssues: reviews.totalIssues,
+      totalSuggestions: reviews.totalSuggestions,
+      promptTokens: usage._sum.promptTokens || 0,
+      completionTokens: usage._sum.completionTokens || 0,
+      estimatedCost: usage._sum.estimatedCost || 0,
+      lastReviewAt: reviews.lastReviewAt,
+    };
+
+    return this.prisma.projectMetrics.upsert({
+      where: { projectId },
+      update: data,
+      create: { projectId, ...data },
+    });
+  }
+
+  /**
+   * Rebuild metrics of one developer, including common issue types and improvement trend
+   * @param developerId Developer ID
+   * @returns Updated metrics
+   */
+  async recomputeDeveloper(developerId: string) {
+    const developer = await this.prisma.developer.findUnique({ where: { id: developerId }, select: { id: true } });
+    if (!developer) {
+      throw new NotFoundException(`Developer with ID ${developerId} not found`);
+    }
+
+    const [reviews, usage] = await Promise.all([
+      this.aggregateMergeRequests({ developerId }),
+      this.prisma.llmCall.aggregate({
+        where: { review: { developerId } },
+        _sum: { promptTokens: true, completionTokens: true, estimatedCost: true },
+      }),
+    ]);
+
+    const data = {
+      totalReviews: reviews.totalReviews,
+      averageScore: reviews.averageScore,
+      totalIssues: reviews.totalIssues,
+      totalSuggestions: reviews.totalSuggestions,
+      commonIssues: reviews.commonIssues,
+      improvementRate: this.getImprovementRate(reviews.scores),
+      promptTokens: usage._sum.promptTokens || 0,
+      completionTokens: usage._sum.completionTokens || 0,
+      estimatedCost: usage._sum.estimatedCost || 0,
+      lastReviewAt: reviews.lastReviewAt,
+    };
+
+    return this.prisma.developerMetrics.upsert({
+      where: { developerId },
+      update: data,
+      create: { developerId, ...data },
+    });
+  }
+
+  /**
+   * Rebuild metrics of every project and developer
+   * @returns Number of rebuilt rows
+   */
+  async recomputeAll(): Promise<{ projects: number; developers: number }> {
+    const [projects, developers] = await Promise.all([
+      this.prisma.project.findMany({ select: { id: true } }),
+      this.prisma.developer.findMany({ select: { id: true } }),
+    ]);
+
+    for (const project of projects) {
+      await this.recomputeProject(project.id);
+    }
+    for (const developer of developers) {
+      await this.recomputeDeveloper(developer.id);
+    }
+
+    this.logger.log(`✓ Recomputed metrics for ${projects.length} projects and ${developers.length} developers`);
+    return { projects: projects.length, developers: developers.length };
+  }
+
+  /**
+   * Review totals counted per merge request rather than per run
+   * Incremental runs only score the commits pushed since the previous run, so the score of an MR
+   * is taken from its latest full review; findings are counted once per fingerprint per MR
+   * @param owner Project or developer whose merge requests are counted
+   */
+  private async aggregateMergeRequests(
+    owner: { projectId: string } | { developerId: string },
+  ): Promise<MergeRequestTotals> {
+    const completed: Prisma.ReviewWhereInput = { ...owner, status: ReviewStatus.COMPLETED };
+    const ownerFilter = 'projectId' in owner
+      ? Prisma.sql`r.project_id = ${owner.projectId}`
+      : Prisma.sql`r.developer_id = ${owner.developerId}`;
+
+    const [fullRuns, lastReview, issueTypes] = await Promise.all([
+      this.prisma.review.findMany({
+        where: { ...completed, isIncremental: false, qualityScore: { not: null } },
+        distinct: ['projectId', 'mergeRequestId'],
+        orderBy: [{ projectId: 'asc' }, { mergeRequestId: 'asc' }, { runNumber: 'desc' }],
+        select: { qualityScore: true, createdAt: true },
+      }),
+      this.prisma.review.aggregate({
+        where: completed,
+        _max: { createdAt: true },
+      }),
+      // Findings without a fingerprint cannot be matched across runs and count on their own
+      this.prisma.$queryRaw<Array<{ type: string; issues: bigint; suggestions: bigint }>>`
+        SELECT type, COUNT(*) AS issues, COUNT(*) FILTER (WHERE has_suggestion) AS suggestions
+        FROM (
+          SELECT DISTINCT ON (r.project_id, r.merge_request_id, COALESCE(i.fingerprint, i.id))
+            i.type, i.suggestion IS NOT NULL AS has_suggestion
+          FROM review_issue i
+          JOIN review r ON r.id = i.review_id
+          WHERE r.status = 'COMPLETED' AND ${ownerFilter}
+          ORDER BY r.project_id, r.merge_request_id, COALESCE(i.fingerprint, i.id), i.created_at DESC
+        ) findings
+        GROUP BY type
+        ORDER BY issues DESC`,
+    ]);
+
+    const scores = fullRuns
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map((run) => run.qualityScore as number);
+
+    return {
+      totalReviews: fullRuns.length,
+      averageScore: this.round(scores.length > 0 ? scores.reduce((sum, v) => sum + v, 0) / scores.length : 0),
+      totalIssues: issueTypes.reduce((sum, row) => sum + Number(row.issues), 0),
+      totalSuggestions: issueTypes.reduce((sum, row) => sum + Number(row.suggestions), 0),
+      commonIssues: issueTypes
+        .slice(0, this.COMMON_ISSUES_LIMIT)
+        .map((row) => ({ type: row.type, count: Number(row.issues) })),
+      scores,
+      lastReviewAt: lastReview._max.createdAt,
+    };
+  }
+
+  /**
+   * Percentage change of the average score of the latest reviews against the reviews before them
+   * @param scores Quality scores, newest first
+   * @returns Change in percent, 0 without enough history
+   */
+  private getImprovementRate(scores: number[]): number {
+    const recent = scores.slice(0, this.IMPROVEMENT_WINDOW);
+    const previous = scores.slice(this.IMPROVEMENT_WINDOW);
+    if (recent.length === 0 || previous.length === 0) {
+      return 0;
+    }
+
+    const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+    const previousAverage = average(previous);
+    if (previousAverage === 0) {
+      return 0;
+    }
+
+    return this.round(((average(recent) - previousAverage) / previousAverage) * 100);
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+/**
+ * Review totals of a project or developer
+ */
+interface MergeRequestTotals {
+  totalReviews: number; // Merge requests with a full review
+  averageScore: number;
+  totalIssues: number;
+  totalSuggestions: number;
+  commonIssues: Array<{ type: string; count: number }>;
+  scores: number[]; // Latest score per merge request, newest first
+  lastReviewAt: Date | null;
+}
@@ -0,0 +1,17 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, IsOptional, IsNotEmpty } from 'class-validator';
+
+/**
+ * DTO for approving a pending project onboarding request
+ */
+export class ApproveOnboardingRequestDto {
+  @ApiProperty({
+    example: 'very_secret_token_123',
+    description: 'Webhook secret for the project (defaults to GITLAB_WEBHOOK_SECRET)',
+    required: false,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  webhookSecret?: string;
+}
@@ -1,5 +1,6 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsString, IsNotEmpty, IsNumber, IsOptional, IsBoolean } from 'class-validator';
+import { IsString, IsNotEmpty, IsNumber, IsOptional, IsBoolean, IsIn, IsInt, Min, Max } from 'class-validator';
+import { LLM_PROVIDER_NAMES } from '../../llm/providers/llm-provider.interface';
 
 /**
  * DTO for creating a new project
@@ -54,4 +55,108 @@ export class CreateProjectDto {
   @IsBoolean()
   @IsOptional()
   isActive?: boolean;
+
+  @ApiProperty({
+    example: 'openai',
+    description: 'LLM provider for this project (optional, defaults to LLM_PROVIDER)',
+    enum: LLM_PROVIDER_NAMES,
+    required: false,
+  })
+  @IsIn(LLM_PROVIDER_NAMES)
+  @IsOptional()
+  llmProvider?: string | null;
+
+  @ApiProperty({
+    example: 'gpt-4o-mini',
+    description: "LLM model for this project (optional, defaults to the provider's model)",
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  llmModel?: string | null;
+
+  @ApiProperty({
+    example: true,
+    description: 'Publish a reviewbot/quality commit status, labels and approval based on the thresholds below',
+    required: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  gateEnabled?: boolean;
+
+  @ApiProperty({
+    example: 70,
+    description: 'Quality gate: minimum score over all open findings (optional, not checked if empty)',
+    required: false,
+  })
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  @IsOptional()
+  gateMinScore?: number | null;
+
+  @ApiProperty({
+    example: 0,
+    description: 'Quality gate: maximum open critical findings (optional, not checked if empty)',
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  gateMaxCritical?: number | null;
+
+  @ApiProperty({
+    example: 2,
+    description: 'Quality gate: maximum open high severity findings (optional, not checked if empty)',
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  gateMaxHigh?: number | null;
+
+  @ApiProperty({
+    example: 'ai-review::passed',
+    description: 'Label added when the quality gate passes (optional)',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  gatePassLabel?: string | null;
+
+  @ApiProperty({
+    example: 'ai-review::needs-work',
+    description: 'Label added when the quality gate fails (optional)',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  gateFailLabel?: string | null;
+
+  @ApiProperty({
+    example: false,
+    description: 'Approve the MR when the quality gate passes and revoke the approval when it fails',
+    required: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  gateApprove?: boolean;
+
+  @ApiProperty({
+    example: true,
+    description: 'Keep a searchable index of the default branch and add similar code to review prompts',
+    required: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  indexEnabled?: boolean;
+
+  @ApiProperty({
+    example: '/srv/mirrors/my-awesome-project',
+    description: 'Index a local clone kept up to date outside ReviewBot instead of downloading archives (optional)',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  indexLocalPath?: string | null;
 }
@@ -1,2 +1,3 @@
 export * from './create-project.dto';
 export * from './update-project.dto';
+export * from './approve-onboarding-request.dto';
@@ -14,7 +14,7 @@ import {
 import { ApiTags, ApiBearerAuth, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { ProjectsService } from './projects.service';
-import { CreateProjectDto, UpdateProjectDto } from './dto';
+import { CreateProjectDto, UpdateProjectDto, ApproveOnboardingRequestDto } from './dto';
 
 /**
  * Projects Controller
@@ -43,6 +43,33 @@ export class ProjectsController {
     return this.projectsService.findAll({ page, limit, search });
   }
 
+  @Get('onboarding-requests')
+  @ApiOperation({ summary: 'Get onboarding requests', description: 'List unregistered projects whose webhooks were rejected' })
+  @ApiResponse({ status: 200, description: 'Onboarding requests retrieved successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async findOnboardingRequests() {
+    return this.projectsService.findOnboardingRequests();
+  }
+
+  @Post('onboarding-requests/:id/approve')
+  @ApiOperation({ summary: 'Approve onboarding request', description: 'Register the requesting GitLab project for code review' })
+  @ApiResponse({ status: 201, description: 'Project registered successfully' })
+  @ApiResponse({ status: 400, description: 'No webhook secret available' })
+  @ApiResponse({ status: 404, description: 'Onboarding request not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async approveOnboardingRequest(@Param('id') id: string, @Body() dto: ApproveOnboardingRequestDto) {
+    return this.projectsService.approveOnboardingRequest(id, dto);
+  }
+
+  @Delete('onboarding-requests/:id')
+  @ApiOperation({ summary: 'Dismiss onboarding request', description: 'Remove a pending onboarding request without registering the project' })
+  @ApiResponse({ status: 200, description: 'Onboarding request dismissed' })
+  @ApiResponse({ status: 404, description: 'Onboarding request not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async dismissOnboardingRequest(@Param('id') id: string) {
+    return this.projectsService.dismissOnboardingRequest(id);
+  }
+
   @Get(':id')
   @ApiOperation({ summary: 'Get project by ID', description: 'Retrieve a single project with metrics and recent reviews' })
   @ApiResponse({ status: 200, description: 'Project retrieved successfully' })
@@ -96,4 +123,14 @@ export class ProjectsController {
   async testWebhook(@Param('id') id: string) {
     return this.projectsService.testWebhook(id);
   }
+
+  @Post(':id/index/rebuild')
+  @ApiOperation({ summary: 'Rebuild repository index', description: 'Rebuild the searchable index of the default branch from scratch' })
+  @ApiResponse({ status: 200, description: 'Index rebuild queued' })
+  @ApiResponse({ status: 400, description: 'Repository index is not enabled' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async rebuildIndex(@Param('id') id: string) {
+    return this.projectsService.rebuildIndex(id);
+  }
 }
@@ -2,13 +2,14 @@ import { Module } from '@nestjs/common';
 import { ProjectsController } from './projects.controller';
 import { ProjectsService } from './projects.service';
 import { PrismaModule } from '../prisma/prisma.module';
+import { RepoIndexModule } from '../repo-index/repo-index.module';
 
 /**
  * Projects Module
  * Handles GitLab projects management
  */
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, RepoIndexModule],
   controllers: [ProjectsController],
   providers: [ProjectsService],
   exports: [ProjectsService],
@@ -1,7 +1,9 @@
 import { Injectable, NotFoundException, ConflictException, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../prisma/prisma.service';
+import { RepoIndexService } from '../repo-index/repo-index.service';
 import { Prisma } from '@prisma/client';
-import { CreateProjectDto, UpdateProjectDto } from './dto';
+import { CreateProjectDto, UpdateProjectDto, ApproveOnboardingRequestDto } from './dto';
 
 /**
  * Projects Service
@@ -9,7 +11,11 @@ import { CreateProjectDto, UpdateProjectDto } from './dto';
  */
 @Injectable()
 export class ProjectsService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private repoIndexService: RepoIndexService,
+  ) {}
 
   async findAll(params: { page: number; limit: number; search?: string }) {
     const { page, limit, search } = params;
@@ -88,6 +94,9 @@ export class ProjectsService {
         averageScore: 0,
         totalIssues: 0,
         totalSuggestions: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        estimatedCost: 0,
         lastReviewAt: null,
       };
     }
@@ -116,12 +125,27 @@ export class ProjectsService {
         webhookUrl: dto.webhookUrl,
         webhookSecret: dto.webhookSecret,
         isActive: dto.isActive ?? true,
+        llmProvider: dto.llmProvider ?? null,
+        llmModel: dto.llmModel ?? null,
+        gateEnabled: dto.gateEnabled ?? false,
+        gateMinScore: dto.gateMinScore ?? null,
+        gateMaxCritical: dto.gateMaxCritical ?? null,
+        gateMaxHigh: dto.gateMaxHigh ?? null,
+        gatePassLabel: dto.gatePassLabel || null,
+        gateFailLabel: dto.gateFailLabel || null,
+        gateApprove: dto.gateApprove ?? false,
+        indexEnabled: dto.indexEnabled ?? false,
+        indexLocalPath: dto.indexLocalPath || null,
       },
       include: {
         metrics: true,
       },
     });
 
+    if (project.indexEnabled) {
+      await this.repoIndexService.queueRefresh(project.gitlabProjectId, true);
+    }
+
     return project;
   }
 
@@ -160,12 +184,32 @@ export class ProjectsService {
         ...(dto.isActive !== undefined && {
           isActive: dto.isActive,
         }),
+        // null clears the override and falls back to the default provider/model
+        ...(dto.llmProvider !== undefined && { llmProvider: dto.llmProvider }),
+        ...(dto.llmModel !== undefined && { llmModel: dto.llmModel || null }),
+        // null clears a quality gate threshold
+        ...(dto.gateEnabled !== undefined && { gateEnabled: dto.gateEnabled }),
+        ...(dto.gateMinScore !== undefined && { gateMinScore: dto.gateMinScore }),
+        ...(dto.gateMaxCritical !== undefined && { gateMaxCritical: dto.gateMaxCritical }),
+        ...(dto.gateMaxHigh !== undefined && { gateMaxHigh: dto.gateMaxHigh }),
+        ...(dto.gatePassLabel !== undefined && { gatePassLabel: dto.gatePassLabel || null }),
+        ...(dto.gateFailLabel !== undefined && { gateFailLabel: dto.gateFailLabel || null }),
+        ...(dto.gateApprove !== undefined && { gateApprove: dto.gateApprove }),
+        ...(dto.indexEnabled !== undefined && { indexEnabled: dto.indexEnabled }),
+        ...(dto.indexLocalPath !== undefined && { indexLocalPath: dto.indexLocalPath || null }),
       },
       include: {
         metrics: true,
       },
     });
 
+    // A new or changed index source is indexed from scratch; a disabled index is deleted
+    if (updated.indexEnabled && (!project.indexEnabled || updated.indexLocalPath !== project.indexLocalPath)) {
+      await this.repoIndexService.queueRefresh(updated.gitlabProjectId, true);
+    } else if (!updated.indexEnabled && project.indexEnabled) {
+      await this.repoIndexService.remove(updated.gitlabProjectId);
+    }
+
     return updated;
   }
 
@@ -209,4 +253,85 @@ export class ProjectsService {
       },
     };
   }
+
+  async rebuildIndex(id: string) {
+    const project = await this.prisma.project.findUnique({
+      where: { id },
+    });
+
+    if (!project) {
+      throw new NotFoundException(`Project with ID ${id} not found`);
+    }
+
+    if (!project.indexEnabled) {
+      throw new BadRequestException('Repository index is not enabled for this project');
+    }
+
+    const queued = await this.repoIndexService.queueRefresh(project.gitlabProjectId, true);
+
+    return {
+      queued,
+      message: queued ? 'Repository index rebuild queued' : 'Could not queue the repository index rebuild',
+    };
+  }
+
+  async findOnboardingRequests() {
+    return this.prisma.projectOnboardingRequest.findMany({
+      orderBy: { lastSeenAt: 'desc' },
+    });
+  }
+
+  async approveOnboardingRequest(id: string, dto: ApproveOnboardingRequestDto) {
+    const request = await this.prisma.projectOnboardingRequest.findUnique({
+      where: { id },
+    });
+
+    if (!request) {
+      throw new NotFoundException(`Onboarding request with ID ${id} not found`);
+    }
+
+    // The hook was accepted with the global secret, so keep using it unless a new one is given
+    const webhookSecret = dto.webhookSecret || this.configService.get<string>('GITLAB_WEBHOOK_SECRET');
+    if (!webhookSecret) {
+      throw new BadRequestException('webhookSecret is required when GITLAB_WEBHOOK_SECRET is not configured');
+    }
+
+    const [project] = await this.prisma.$transaction([
+      this.prisma.project.upsert({
+        where: { gitlabProjectId: request.gitlabProjectId },
+        update: { isActive: true },
+        create: {
+          gitlabProjectId: request.gitlabProjectId,
+          name: request.name,
+          namespace: request.namespace,
+          webhookSecret,
+          isActive: true,
+        },
+        include: {
+          metrics: true,
+        },
+      }),
+      this.prisma.projectOnboardingRequest.delete({
+        where: { id },
+      }),
+    ]);
+
+    return project;
+  }
+
+  async dismissOnboardingRequest(id: string) {
+    const request = await this.prisma.projectOnboardingRequest.findUnique({
+      where: { id },
+    });
+
+    if (!request) {
+      throw new NotFoundException(`Onboarding request with ID ${id} not found`);
+    }
+
+    await this.prisma.projectOnboardingRequest.delete({
+      where: { id },
+    });
+
+    return { message: 'Onboarding request dismissed' };
+  }
 }
@@ -0,0 +1,153 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Project } from '@prisma/client';
+import { GitLabService } from '../gitlab/gitlab.service';
+
+/**
+ * Quality Gate Service
+ * Turns a review outcome into a commit status, MR labels and an optional approval
+ * so teams can enforce the bot in GitLab merge checks
+ */
+@Injectable()
+export class QualityGateService {
+  private readonly logger = new Logger(QualityGateService.name);
+  private readonly STATUS_NAME = 'reviewbot/quality';
+
+  constructor(
+    private gitlabService: GitLabService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Check a review outcome against the project's thresholds
+   * Thresholds that are not set are not checked
+   * @param project Project with gate settings
+   * @param issues Severities of the findings
+   * @param score Quality score
+   * @returns Gate result with the reasons it failed
+   */
+  evaluate(project: GateSettings, issues: { severity: string }[], score: number): QualityGateResult {
+    const critical = issues.filter((i) => i.severity === 'critical').length;
+    const high = issues.filter((i) => i.severity === 'high').length;
+    const failures: string[] = [];
+
+    if (project.gateMinScore !== null && score < project.gateMinScore) {
+      failures.push(`Quality score ${score} is below ${project.gateMinScore}`);
+    }
+    if (project.gateMaxCritical !== null && critical > project.gateMaxCritical) {
+      failures.push(`${critical} critical issue(s), at most ${project.gateMaxCritical} allowed`);
+    }
+    if (project.gateMaxHigh !== null && high > project.gateMaxHigh) {
+      failures.push(`${high} high severity issue(s), at most ${project.gateMaxHigh} allowed`);
+    }
+
+    return { passed: failures.length === 0, failures };
+  }
+
+  /**
+   * Mark the head commit as being reviewed
+   * @param project Project with gate settings
+   * @param gitlabProjectId GitLab project ID
+   * @param headSha Reviewed head SHA
+   * @param reviewId Review ID for the dashboard link
+   */
+  async markRunning(project: GateSettings, gitlabProjectId: number, headSha: string, reviewId: string): Promise<void> {
+    if (!project.gateEnabled || !headSha) {
+      return;
+    }
+
+    await this.gitlabService.setCommitStatus(gitlabProjectId, headSha, 'running', {
+      name: this.STATUS_NAME,
+      description: 'AI review in progress',
+      targetUrl: this.getReviewUrl(reviewId),
+    });
+  }
+
+  /**
+   * Publish the gate result on GitLab: commit status, labels and approval
+   * @param project Project with gate settings
+   * @param gitlabProjectId GitLab project ID
+   * @param mergeRequestIid MR IID
+   * @param headSha Reviewed head SHA
+   * @param reviewId Review ID for the dashboard link
+   * @param result Gate result
+   */
+  async publish(
+    project: GateSettings,
+    gitlabProjectId: number,
+    mergeRequestIid: number,
+    headSha: string,
+    reviewId: string,
+    result: QualityGateResult,
+  ): Promise<void> {
+    if (!project.gateEnabled) {
+      return;
+    }
+
+    this.logger.log(`🚦 Quality gate ${result.passed ? 'passed' : 'failed'} for MR ${mergeRequestIid}`);
+
+    if (headSha) {
+      await this.gitlabService.setCommitStatus(gitlabProjectId, headSha, result.passed ? 'success' : 'failed', {
+        name: this.STATUS_NAME,
+        // GitLab truncates long descriptions, so only the first failure is shown
+        description: result.passed ? 'Quality gate passed' : result.failures[0],
+        targetUrl: this.getReviewUrl(reviewId),
+      });
+    }
+
+    const [addLabel, removeLabel] = result.passed
+      ? [project.gatePassLabel, project.gateFailLabel]
+      : [project.gateFailLabel, project.gatePassLabel];
+    await this.gitlabService.updateMRLabels(gitlabProjectId, mergeRequestIid, {
+      add: addLabel ? [addLabel] : [],
+      remove: removeLabel ? [removeLabel] : [],
+    });
+
+    if (project.gateApprove) {
+      await this.gitlabService.setMRApproval(gitlabProjectId, mergeRequestIid, result.passed, headSha || undefined);
+    }
+  }
+
+  /**
+   * Mark the head commit when the review could not be completed
+   * @param project Project with gate settings
+   * @param gitlabProjectId GitLab project ID
+   * @param headSha Head SHA
+   * @param reviewId Review ID for the dashboard link
+   */
+  async markErrored(project: GateSettings, gitlabProjectId: number, headSha: string, reviewId: string): Promise<void> {
+    if (!project.gateEnabled || !headSha) {
+      return;
+    }
+
+    await this.gitlabService.setCommitStatus(gitlabProjectId, headSha, 'canceled', {
+      name: this.STATUS_NAME,
+      description: 'AI review failed - comment /reviewbot full to retry',
+      targetUrl: this.getReviewUrl(reviewId),
+    });
+  }
+
+  /**
+   * Dashboard link for a review, if FRONTEND_URL is configured
+   */
+  private getReviewUrl(reviewId: string): string | undefined {
+    const frontendUrl = this.configService.get<string>('FRONTEND_URL');
+    return frontendUrl ? `${frontendUrl.replace(/\/$/, '')}/reviews/${reviewId}` : undefined;
+  }
+}
+
+/**
+ * Quality gate settings of a project
+ */
+export type GateSettings = Pick<
+  Project,
+  'gateEnabled' | 'gateMinScore' | 'gateMaxCritical' | 'gateMaxHigh' | 'gatePassLabel' | 'gateFailLabel' | 'gateApprove'
+>;
+
+/**
+ * Outcome of checking a review against the quality gate
+ */
+export interface QualityGateResult {
+  passed: boolean;
+  failures: string[];
+}
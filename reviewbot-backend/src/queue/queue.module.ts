@@ -2,9 +2,12 @@ import { Module } from '@nestjs/common';
 import { BullModule } from '@nestjs/bull';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { ReviewProcessor } from './review-processor';
+import { QualityGateService } from './quality-gate.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { LlmModule } from '../llm/llm.module';
 import { GitLabModule } from '../gitlab/gitlab.module';
+import { MetricsModule } from '../metrics/metrics.module';
+import { RepoIndexModule } from '../repo-index/repo-index.module';
 
 @Module({
   imports: [
@@ -48,8 +51,10 @@ import { GitLabModule } from '../gitlab/gitlab.module';
     PrismaModule,
     LlmModule,
     GitLabModule,
+    MetricsModule,
+    RepoIndexModule,
   ],
-  providers: [ReviewProcessor],
+  providers: [ReviewProcessor, QualityGateService],
   exports: [BullModule],
 })
 export class QueueModule {}
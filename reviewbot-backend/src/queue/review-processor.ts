@@ -2,11 +2,34 @@ import { Process, Processor } from '@nestjs/bull';
 import { Job } from 'bull';
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { LlmService } from '../llm/llm.service';
+import { LlmService, LlmCallOptions, ReviewValidationReport } from '../llm/llm.service';
 import { GitLabService } from '../gitlab/gitlab.service';
-import { DiffProcessor } from '../llm/diff-processor';
+import { DiffProcessor, ProcessedDiff } from '../llm/diff-processor';
+import { ChunkPacker } from '../llm/chunk-packer';
+import { FilePrioritizer, SkippedFile } from '../llm/file-prioritizer';
+import { GeneratedFileClassifier, GeneratedFileMatch } from '../llm/generated-file-classifier';
+import { ScopeContextBuilder } from '../llm/scope-context-builder';
+import { SymbolResolver } from '../llm/symbol-resolver';
+import { RepoIndexService } from '../repo-index/repo-index.service';
+import { ReviewConfigService, LoadedReviewConfig, ReviewConfig, DEFAULT_REVIEW_CONFIG } from '../llm/review-config.service';
 import { IssueVerifier } from '../llm/issue-verifier.service';
-import { ReviewStatus } from '@prisma/client';
+import { SuggestedReplacement } from '../llm/review-response.validator';
+import { computeIssueFingerprint, matchKnownIssue, reanchorLine, KnownIssue } from '../llm/issue-fingerprint';
+import { MetricsService } from '../metrics/metrics.service';
+import { QualityGateService, GateSettings, QualityGateResult } from './quality-gate.service';
+import { BotComment, BotCommentKind, IssueState, ReviewStatus } from '@prisma/client';
+
+/** Quality score deduction per finding */
+const SEVERITY_IMPACT: Record<string, number> = { critical: 15, high: 10, medium: 5, low: 2 };
+
+/** Upper bound of the code context tokens of one chunk */
+const SCOPE_CONTEXT_TOKENS = 1500;
+
+/** Upper bound of the referenced definition tokens of one chunk */
+const DEFINITION_TOKENS = 800;
+
+/** Upper bound of the similar code tokens of one chunk (repository index) */
+const SIMILAR_CODE_TOKENS = 600;
 
 /**
  * Review Processor
@@ -16,7 +39,6 @@ import { ReviewStatus } from '@prisma/client';
 @Injectable()
 export class ReviewProcessor {
   private readonly logger = new Logger(ReviewProcessor.name);
-  private readonly MAX_FILES = 50;
 
   constructor(
     private prisma: PrismaService,
@@ -24,6 +46,15 @@ export class ReviewProcessor {
     private gitlabService: GitLabService,
     private diffProcessor: DiffProcessor,
     private issueVerifier: IssueVerifier,
+    private chunkPacker: ChunkPacker,
+    private filePrioritizer: FilePrioritizer,
+    private generatedFileClassifier: GeneratedFileClassifier,
+    private scopeContextBuilder: ScopeContextBuilder,
+    private symbolResolver: SymbolResolver,
+    private repoIndexService: RepoIndexService,
+    private reviewConfigService: ReviewConfigService,
+    private metricsService: MetricsService,
+    private qualityGate: QualityGateService,
   ) {}
 
   /**
@@ -33,18 +64,28 @@ export class ReviewProcessor {
   @Process('process-review')
   async handleReview(job: Job<ReviewJobData>) {
     const { reviewId, projectId, mergeRequestIid } = job.data;
+    let sinceSha = job.data.sinceSha || null;
+    let gateContext: { project: GateSettings; headSha: string } | null = null;
 
     this.logger.log(`Starting review ${reviewId} for MR ${mergeRequestIid}`);
 
     try {
       // Update status to processing
-      await this.prisma.review.update({
+      const reviewRecord = await this.prisma.review.update({
         where: { id: reviewId },
         data: { status: ReviewStatus.PROCESSING },
+        include: { project: true },
       });
 
+      // Project-level provider/model override (falls back to LLM_PROVIDER)
+      const llmOptions: LlmCallOptions = {
+        provider: reviewRecord.project.llmProvider,
+        model: reviewRecord.project.llmModel,
+        tracking: { reviewId, projectId: reviewRecord.projectId },
+      };
+
       // Check if LLM service is enabled
-      if (!this.llmService.isEnabled()) {
+      if (!this.llmService.isEnabled(llmOptions)) {
         this.logger.warn('LLM service disabled - skipping review');
         await this.prisma.review.update({
           where: { id: reviewId },
@@ -52,12 +93,50 @@ export class ReviewProcessor {
         });
         return;
       }
+      const modelLabel = this.llmService.describeModel(llmOptions);
 
       // Fetch MR diffs and details from GitLab
-      const [diffs, mrDetails] = await Promise.all([
-        this.gitlabService.getMRDiffs(projectId, mergeRequestIid),
+      const [diffResult, mrDetails] = await Promise.all([
+        this.fetchDiffs(projectId, mergeRequestIid, sinceSha),
         this.gitlabService.getMRDetails(projectId, mergeRequestIid),
       ]);
+      const diffs = diffResult.diffs;
+      sinceSha = diffResult.sinceSha;
+
+      gateContext = { project: reviewRecord.project, headSha: mrDetails.headSha || '' };
+      await this.qualityGate.markRunning(reviewRecord.project, projectId, gateContext.headSha, reviewId);
+
+      // Remember which head this run reviewed so the next push can be reviewed incrementally
+      await this.prisma.review.update({
+        where: { id: reviewId },
+        data: {
+          baseSha: sinceSha || mrDetails.baseSha || null,
+          headSha: mrDetails.headSha || null,
+          sinceSha,
+          isIncremental: !!sinceSha,
+        },
+      });
+
+      // Findings dismissed via `/reviewbot ignore` on this MR
+      const suppressions = await this.prisma.issueSuppression.findMany({
+        where: { projectId: reviewRecord.projectId, mergeRequestIid },
+        select: { fingerprint: true },
+      });
+      const suppressedFingerprints = new Set(suppressions.map((s) => s.fingerprint));
+
+      // Inline discussions from earlier runs that are still open, so findings are not posted twice
+      const openComments = await this.syncResolvedDiscussions(
+        projectId,
+        mergeRequestIid,
+        await this.prisma.botComment.findMany({
+          where: {
+            projectId: reviewRecord.projectId,
+            mergeRequestIid,
+            kind: BotCommentKind.INLINE,
+            resolvedAt: null,
+          },
+        }),
+      );
 
       if (!diffs || diffs.length === 0) {
         this.logger.log('No diffs found - skipping review');
@@ -65,22 +144,118 @@ export class ReviewProcessor {
           where: { id: reviewId },
           data: {
             status: ReviewStatus.COMPLETED,
-            reviewContent: { message: 'No changes to review' },
+            reviewContent: { message: sinceSha ? 'No new changes since last review' : 'No changes to review' },
           },
         });
+        await this.publishQualityGate(
+          reviewRecord.project,
+          projectId,
+          mergeRequestIid,
+          gateContext.headSha,
+          reviewId,
+          openComments.filter((comment) => !suppressedFingerprints.has(comment.fingerprint || '')),
+        );
+        await this.metricsService.updateForReview(reviewId);
         return;
       }
 
+      const openByFingerprint = new Map(openComments.map((c) => [c.fingerprint || '', c]));
+
+      // Findings of earlier runs, so a moved or reworded finding keeps its fingerprint
+      const previousIssues = await this.prisma.reviewIssue.findMany({
+        where: {
+          review: { projectId: reviewRecord.projectId, mergeRequestIid, id: { not: reviewId } },
+          fingerprint: { not: null },
+        },
+        orderBy: { createdAt: 'desc' },
+        distinct: ['fingerprint'],
+        select: { filePath: true, line: true, side: true, type: true, message: true, fingerprint: true, snippet: true },
+      });
+      const knownIssues: KnownIssue[] = previousIssues.map((i) => ({
+        file: i.filePath,
+        line: i.line,
+        side: i.side,
+        type: i.type,
+        message: i.message,
+        fingerprint: i.fingerprint as string,
+        snippet: i.snippet,
+      }));
+      const fileLinesCache = new Map<string, string[] | null>();
+
       const allIssues: IssueWithFile[] = [];
+      const parseFailures: ParseFailure[] = [];
       let totalScore = 100;
-      let filesProcessed = 0;
-      const skippedFiles = Math.max(0, diffs.length - this.MAX_FILES);
 
-      // Limit to first 50 files to prevent token overflow
-      const diffsToProcess = diffs.slice(0, this.MAX_FILES);
+      // Repository settings from .reviewbot.yml at the MR head; with the quality gate on they come from
+      // the MR base instead, since the author could otherwise relax the review that gates and approves the MR
+      const gateEnabled = reviewRecord.project.gateEnabled;
+      const loadedConfig = await this.reviewConfigService.load(
+        projectId,
+        (gateEnabled ? mrDetails.baseSha : mrDetails.headSha) || '',
+      );
+      const configChangeIgnored = gateEnabled && diffs.some(
+        (diff) => diff.new_path === '.reviewbot.yml' || diff.old_path === '.reviewbot.yml',
+      );
+      const reviewConfig = loadedConfig.config;
+      llmOptions.issueTypes = reviewConfig.issueTypes;
+      llmOptions.guidelines = reviewConfig.guidelines;
+
+      const configuredDiffs = diffs.filter(
+        (diff) => !this.reviewConfigService.isIgnored(reviewConfig, diff.new_path || diff.old_path || ''),
+      );
+      const ignoredFiles = diffs.length - configuredDiffs.length;
+      if (ignoredFiles > 0) {
+        this.logger.log(`🙈 Ignoring ${ignoredFiles} file(s) matching .reviewbot.yml ignore globs`);
+      }
+
+      // Lock files, vendored code, bundles and generated sources are not worth LLM tokens
+      const generatedFiles: GeneratedFile[] = [];
+      const reviewableDiffs: any[] = [];
+      for (const diff of configuredDiffs) {
+        const match = await this.classifyGeneratedFile(diff, reviewConfig, projectId, mrDetails.headSha || '', fileLinesCache);
+        if (match) {
+          generatedFiles.push({ path: diff.new_path || diff.old_path, ...match });
+        } else {
+          reviewableDiffs.push(diff);
+        }
+      }
+      if (generatedFiles.length > 0) {
+        this.logger.log(`🧱 Excluding ${generatedFiles.length} generated, vendored or lock file(s)`);
+      }
+
+      // Review the riskiest files first, within max_files and max_changed_lines
+      const pastIssues = await this.getPastIssueCounts(
+        reviewRecord.projectId,
+        reviewId,
+        reviewableDiffs.map((diff) => diff.new_path || diff.old_path || ''),
+      );
+      const prioritization = this.filePrioritizer.prioritize(
+        reviewableDiffs,
+        { maxFiles: reviewConfig.maxFiles, maxChangedLines: reviewConfig.maxChangedLines },
+        pastIssues,
+      );
+      const skippedFiles = prioritization.skipped;
+      const diffsToProcess = prioritization.selected.map((file) => file.diff);
+      const fileRisk = new Map(prioritization.selected.map((file) => [file.risk.path, file.risk.score]));
+
+      await this.saveCodeChanges(reviewId, diffsToProcess);
+
+      // Prompt tokens per LLM call; a single hunk may use at most half of it
+      const promptBudget = this.llmService.getPromptTokenBudget(llmOptions);
+      const contextBudget = Math.min(SCOPE_CONTEXT_TOKENS, Math.floor(promptBudget / 4));
+      const definitionBudget = Math.min(DEFINITION_TOKENS, Math.floor(promptBudget / 8));
+      const similarCodeBudget = Math.min(SIMILAR_CODE_TOKENS, Math.floor(promptBudget / 8));
+
+      // Files changed by the MR are stale in the default-branch index
+      const changedPaths = new Set<string>(diffs.flatMap((diff) => [diff.new_path, diff.old_path]).filter(Boolean));
+
+      // Definitions of imported symbols are looked up once per run and shared between chunks
+      const symbolLookup = this.symbolResolver.createLookup(projectId, mrDetails.headSha || '', (filePath) =>
+        this.getFileLines(fileLinesCache, projectId, filePath, mrDetails.headSha || ''),
+      );
 
       // STEP 1: Collect all chunks with context
-      const allChunksWithContext = [];
+      const allChunksWithContext: ProcessedDiff[] = [];
       for (const diff of diffsToProcess) {
         if (!diff.diff) continue;
 
@@ -90,10 +265,13 @@ export class ReviewProcessor {
         this.logger.debug(`   old_path: ${diff.old_path}`);
         this.logger.debug(`   diff (first 200 chars): ${diff.diff.substring(0, 200)}`);
 
-        // Extract changed lines with context (±10 lines for better LLM understanding)
+        // Extract changed lines with a few diff context lines; the enclosing functions and
+        // classes are added below from the file at the MR head, within the context budget
+        // Oversized hunks are split so every changed line gets reviewed
         const chunks = this.diffProcessor.extractChangedLinesWithContext(
           diff.diff,
           10, // Context lines before/after changes
+          Math.floor(promptBudget / 2),
         );
 
         // Use the actual file paths from GitLab's diff object
@@ -112,51 +290,100 @@ export class ReviewProcessor {
           // Store old path for inline comments
           (chunk as any).oldPath = oldFilePath;
 
-          // Fetch actual file content with ±10 lines around first changed line
-          if (chunk.changedLines && chunk.changedLines.length > 0) {
-            try {
-              const fileContext = await this.gitlabService.getFileContentWithContext(
+          // Enclosing functions/classes of every changed line at the MR head
+          // Deletion-only chunks are anchored where the lines were removed
+          const fileLines = diff.deleted_file
+            ? null
+            : await this.getFileLines(fileLinesCache, projectId, actualFilePath, mrDetails.headSha || '');
+          if (fileLines) {
+            const anchors = chunk.changedLines.length > 0 ? chunk.changedLines : [chunk.lineRange.start];
+            (chunk as any).fileContext = {
+              ...this.scopeContextBuilder.build(fileLines, actualFilePath, anchors, contextBudget),
+              totalLines: fileLines.length,
+              imports: this.gitlabService.extractImports(fileLines, actualFilePath),
+            };
+            if (chunk.changedLines.length > 0) {
+              (chunk as any).definitions = await this.symbolResolver.resolve(
+                symbolLookup,
+                actualFilePath,
+                fileLines,
+                chunk.changedLines,
+                definitionBudget,
+              );
+            }
+            if (reviewRecord.project.indexEnabled && chunk.changedLines.length > 0) {
+              (chunk as any).similarCode = await this.repoIndexService.search(
                 projectId,
-                actualFilePath, // Use actual file path from GitLab
-                mrDetails.headSha || '',
-                chunk.changedLines[0], // First changed line
-                10, // ±10 lines
+                chunk.changedLines.map((line) => fileLines[line - 1] || '').join('\n'),
+                { excludePaths: changedPaths, maxTokens: similarCodeBudget },
               );
-
-              // Add file context to chunk
-              (chunk as any).fileContext = fileContext;
-            } catch (error) {
-              this.logger.warn(`Could not fetch file context for ${actualFilePath}: ${error.message}`);
             }
+          } else if (!diff.deleted_file) {
+            this.logger.warn(`Could not fetch file context for ${actualFilePath}`);
           }
 
           allChunksWithContext.push(chunk);
         }
       }
 
-      // STEP 2: Decide batching strategy
-      const totalChangedLines = allChunksWithContext.reduce((sum, chunk) => sum + (chunk.additions + chunk.deletions), 0);
-      const shouldBatch = totalChangedLines <= 500 && allChunksWithContext.length > 1;
+      // STEP 2: Pack chunks into as few LLM calls as fit the context window
+      const packs = this.chunkPacker
+        .pack(allChunksWithContext, promptBudget, (chunk) => this.llmService.estimateChunkTokens(chunk))
+        .sort((a, b) => this.packRisk(b, fileRisk) - this.packRisk(a, fileRisk));
+      const filesProcessed = new Set(allChunksWithContext.map((chunk) => chunk.filename)).size;
 
-      if (shouldBatch) {
-        this.logger.log(`📦 BATCHING: ${allChunksWithContext.length} chunks (${totalChangedLines} lines) into single LLM call`);
-      } else {
-        this.logger.log(`📄 INDIVIDUAL: Processing ${allChunksWithContext.length} chunks separately (${totalChangedLines} lines total)`);
-      }
-
-      // STEP 3: Review chunks (batched or individual)
-      if (shouldBatch) {
-        // Batch all chunks into single LLM call
-        const batchedResult = await this.llmService.reviewMultipleChunks(allChunksWithContext);
-        filesProcessed = allChunksWithContext.length;
+      // STEP 3: Review each pack
+      for (const pack of packs) {
+        const packIssues = await this.reviewPack(pack, llmOptions, parseFailures);
 
-        this.logger.log(`📊 Found ${batchedResult.issues.length} total issues across ${filesProcessed} files`);
+        this.logger.log(`📊 Found ${packIssues.length} issues in ${pack.length} chunk(s)`);
 
         // VERIFICATION PASS: Filter false positives
-        for (const issue of batchedResult.issues) {
-          const chunkForIssue = allChunksWithContext.find(c => c.filename === issue.file);
+        for (const rawIssue of packIssues) {
+          const chunkForIssue = pack.find(
+            (c) => c.filename === rawIssue.file && (
+              rawIssue.side === 'old'
+                ? c.positions.some((p) => p.oldLine === rawIssue.line)
+                : rawIssue.line >= c.lineRange.start && rawIssue.line <= c.lineRange.end
+            ),
+          ) || pack.find((c) => c.filename === rawIssue.file);
           if (!chunkForIssue) {
-            this.logger.warn(`Could not find chunk for issue in ${issue.file}`);
+            this.logger.warn(`Could not find chunk for issue in ${rawIssue.file}`);
+            continue;
+          }
+
+          // Respect the repository's enabled issue types and minimum severity
+          if (
+            !reviewConfig.issueTypes.includes(rawIssue.type) ||
+            !this.reviewConfigService.meetsSeverity(rawIssue.severity, reviewConfig.minSeverity)
+          ) {
+            this.logger.debug(`Dropping ${rawIssue.severity} ${rawIssue.type} issue excluded by .reviewbot.yml`);
+            continue;
+          }
+
+          // Removed code is only in the diff, not in the file at the head commit
+          const fileLines = rawIssue.side === 'old'
+            ? null
+            : await this.getFileLines(fileLinesCache, projectId, rawIssue.file, mrDetails.headSha || '');
+          const snippet = rawIssue.side === 'old'
+            ? chunkForIssue.positions.find((p) => p.oldLine === rawIssue.line)?.code.trim() || null
+            : fileLines?.[rawIssue.line - 1]?.trim() || null;
+          const issue: IssueWithFile = { ...rawIssue, snippet, fingerprint: computeIssueFingerprint(rawIssue, snippet) };
+
+          const knownIssue = matchKnownIssue(issue, knownIssues, fileLines);
+          if (knownIssue && knownIssue.fingerprint !== issue.fingerprint) {
+            this.logger.debug(`🔗 Re-anchored earlier finding ${knownIssue.fingerprint} from line ${knownIssue.line} to ${issue.line}`);
+            issue.fingerprint = knownIssue.fingerprint;
+          }
+
+          // One-click fixes must apply to the code as it is at the head commit
+          if (issue.replacement && !this.isApplicableReplacement(issue.replacement, fileLines)) {
+            this.logger.debug(`Dropping replacement for ${issue.file}:${issue.line} that does not match the head commit`);
+            delete issue.replacement;
+          }
+
+          if (suppressedFingerprints.has(issue.fingerprint)) {
+            this.logger.log(`🔕 Skipping suppressed issue ${issue.fingerprint}: ${issue.message.substring(0, 60)}...`);
             continue;
           }
 
@@ -171,148 +398,164 @@ export class ReviewProcessor {
           );
 
           if (verificationResult.isValid) {
+            issue.verification = { confidence: verificationResult.confidence, reason: verificationResult.reason };
             allIssues.push(issue);
             this.logger.log(`✓ Verified issue: ${issue.message.substring(0, 60)}...`);
 
-            // Post inline comment for critical/high/medium issues
-            if (['critical', 'high', 'medium'].includes(issue.severity)) {
-              this.logger.log(`🔔 Posting inline comment for ${issue.severity} issue at line ${issue.line}`);
-
-              let codeSnippet = '';
-              if ((chunkForIssue as any).fileContext?.lines) {
+            // Post inline comment for issues at or above inline_severity (default: medium)
+            const openComment = openByFingerprint.get(issue.fingerprint || '');
+            if (openComment) {
+              this.logger.log(`♻️ Issue ${issue.fingerprint} already has an open discussion - not posting again`);
+              issue.discussionId = openComment.discussionId;
+              if (openComment.line !== issue.line) {
+                await this.prisma.botComment.update({ where: { id: openComment.id }, data: { line: issue.line } });
+              }
+            } else if (issue.side === 'old' && sinceSha) {
+              // Old line numbers of an incremental diff refer to the last reviewed commit, not the MR base
+              this.logger.debug(`ℹ️  Skipping inline comment for removed line ${issue.line} in incremental review`);
+            } else if (this.reviewConfigService.meetsSeverity(issue.severity, reviewConfig.inlineSeverity)) {
+              this.logger.log(`🔔 Posting inline comment for ${issue.severity} issue at ${issue.side === 'old' ? 'removed ' : ''}line ${issue.line}`);
+
+              let codeSnippet = issue.snippet || '';
+              if (issue.side !== 'old' && (chunkForIssue as any).fileContext?.lines) {
                 const ctx = (chunkForIssue as any).fileContext;
-                const relativeLineIndex = issue.line - ctx.startLineNumber;
+                const relativeLineIndex = ctx.lineNumbers ? ctx.lineNumbers.indexOf(issue.line) : issue.line - ctx.startLineNumber;
                 if (relativeLineIndex >= 0 && relativeLineIndex < ctx.lines.length) {
                   codeSnippet = ctx.lines[relativeLineIndex];
                 }
               }
 
-              await this.gitlabService.postInlineComment(
+              issue.discussionId = await this.gitlabService.postInlineComment(
                 projectId,
                 mergeRequestIid,
                 {
                   filePath: issue.file,
                   oldPath: (chunkForIssue as any).oldPath || issue.file,
-                  line: issue.line,
-                  comment: this.formatInlineComment(issue, issue.file, codeSnippet, chunkForIssue.language),
+                  ...this.resolvePosition(issue, chunkForIssue),
+                  comment: this.formatInlineComment(issue, issue.file, codeSnippet, chunkForIssue.language, modelLabel),
                   baseSha: mrDetails.baseSha || '',
                   headSha: mrDetails.headSha || '',
                   startSha: mrDetails.startSha || '',
                 },
               );
+
+              if (issue.discussionId) {
+                const created = await this.prisma.botComment.create({
+                  data: {
+                    projectId: reviewRecord.projectId,
+                    mergeRequestIid,
+                    kind: BotCommentKind.INLINE,
+                    discussionId: issue.discussionId,
+                    fingerprint: issue.fingerprint,
+                    severity: issue.severity,
+                    filePath: issue.file,
+                    line: issue.line,
+                  },
+                });
+                openByFingerprint.set(created.fingerprint || '', created);
+              }
+            } else {
+              this.logger.debug(`ℹ️  Skipping inline comment for ${issue.severity} issue (inline_severity is ${reviewConfig.inlineSeverity})`);
             }
 
             // Adjust score
-            const severityImpact = { critical: 15, high: 10, medium: 5, low: 2 };
-            totalScore -= severityImpact[issue.severity] || 2;
+            totalScore -= SEVERITY_IMPACT[issue.severity] || 2;
           } else {
             this.logger.warn(`✗ Filtered false positive [${verificationResult.confidence} confidence]: ${issue.message.substring(0, 60)}... (${verificationResult.reason})`);
           }
         }
-      } else {
-        // Process individually (existing flow)
-        for (const chunk of allChunksWithContext) {
-
-          const result = await this.llmService.reviewChangedLines(chunk);
-          filesProcessed++;
-
-          this.logger.log(`📊 Found ${result.issues.length} issues in ${chunk.filename}`);
-
-          // VERIFICATION PASS: Filter false positives before posting
-          const verifiedIssues = [];
-          for (const issue of result.issues) {
-            // Verify issue before adding to list
-            const verificationResult = await this.issueVerifier.verifyIssue(
-              issue,
-              {
-                projectId,
-                filePath: chunk.filename,
-                sha: mrDetails.headSha || '',
-                fileContext: (chunk as any).fileContext,
-              },
-            );
-
-            if (verificationResult.isValid) {
-              verifiedIssues.push(issue);
-              this.logger.log(`✓ Verified issue: ${issue.message.substring(0, 60)}...`);
-            } else {
-              this.logger.warn(`✗ Filtered false positive [${verificationResult.confidence} confidence]: ${issue.message.substring(0, 60)}... (${verificationResult.reason})`);
-            }
-          }
-
-          this.logger.log(`📊 After verification: ${verifiedIssues.length}/${result.issues.length} issues are real`);
-
-          for (const issue of verifiedIssues) {
-            allIssues.push({
-              ...issue,
-              file: chunk.filename,
-            });
-
-            // Post inline comment for critical/high/medium issues
-            if (['critical', 'high', 'medium'].includes(issue.severity)) {
-              this.logger.log(`🔔 Posting inline comment for ${issue.severity} issue at line ${issue.line}`);
-
-              // Get code snippet for the issue line
-              let codeSnippet = '';
-              if ((chunk as any).fileContext?.lines) {
-                const ctx = (chunk as any).fileContext;
-                const relativeLineIndex = issue.line - ctx.startLineNumber;
-                if (relativeLineIndex >= 0 && relativeLineIndex < ctx.lines.length) {
-                  codeSnippet = ctx.lines[relativeLineIndex];
-                }
-              }
-
-              await this.gitlabService.postInlineComment(
-                projectId,
-                mergeRequestIid,
-                {
-                  filePath: chunk.filename,
-                  oldPath: (chunk as any).oldPath || chunk.filename,
-                  line: issue.line,
-                  comment: this.formatInlineComment(issue, chunk.filename, codeSnippet, chunk.language),
-                  baseSha: mrDetails.baseSha || '',
-                  headSha: mrDetails.headSha || '',
-                  startSha: mrDetails.startSha || '',
-                },
-              );
-            } else {
-              this.logger.debug(`ℹ️  Skipping inline comment for ${issue.severity} issue (only posting critical/high/medium)`);
-            }
-          }
+      }
 
-            // Adjust score based on severity
-            const severityImpact = {
-              critical: 15,
-              high: 10,
-              medium: 5,
-              low: 2,
-            };
+      // Resolve our discussions for findings this run covered but no longer reports
+      const foundFingerprints = new Set(allIssues.map((issue) => issue.fingerprint));
+      const failedFiles = new Set(parseFailures.filter((f) => f.failed).flatMap((f) => f.files));
+      const fixedComments: BotComment[] = [];
+      for (const comment of openComments) {
+        if (
+          !comment.filePath ||
+          foundFingerprints.has(comment.fingerprint || '') ||
+          suppressedFingerprints.has(comment.fingerprint || '') ||
+          failedFiles.has(comment.filePath)
+        ) {
+          continue;
+        }
 
-            verifiedIssues.forEach((issue) => {
-              totalScore -= severityImpact[issue.severity] || 2;
-            });
+        // Follow the flagged code to its current line; null means the code is gone
+        const knownIssue = knownIssues.find((k) => k.fingerprint === comment.fingerprint);
+        if (knownIssue?.side === 'old') {
+          // Removed code is only seen again by a full review
+          if (!sinceSha && this.isCoveredByRun(comment.filePath, comment.line, allChunksWithContext, diffs, false)) {
+            fixedComments.push(comment);
           }
+          continue;
         }
+        const fileLines = await this.getFileLines(fileLinesCache, projectId, comment.filePath, mrDetails.headSha || '');
+        const line = knownIssue?.snippet && fileLines
+          ? reanchorLine(knownIssue.snippet, comment.line ?? knownIssue.line, fileLines)
+          : comment.line;
+
+        if (this.isCoveredByRun(comment.filePath, line, allChunksWithContext, diffs, !!sinceSha)) {
+          fixedComments.push(comment);
+        } else if (line !== null && line !== comment.line) {
+          await this.prisma.botComment.update({ where: { id: comment.id }, data: { line } });
+        }
+      }
+      await this.resolveFixedDiscussions(projectId, mergeRequestIid, fixedComments, mrDetails.headSha || '');
+
+      // Findings of earlier runs this run did not cover still count against the gate
+      const outstandingComments = openComments.filter(
+        (comment) =>
+          !fixedComments.includes(comment) &&
+          !foundFingerprints.has(comment.fingerprint || '') &&
+          !suppressedFingerprints.has(comment.fingerprint || ''),
+      );
+      const qualityGate = await this.publishQualityGate(
+        reviewRecord.project,
+        projectId,
+        mergeRequestIid,
+        gateContext.headSha,
+        reviewId,
+        [...allIssues, ...outstandingComments],
+      );
 
-      // Post summary comment
+      // Post summary comment, or update the one from an earlier run
       const summaryComment = this.formatSummaryComment(
         allIssues,
         totalScore,
         skippedFiles,
         filesProcessed,
+        { sinceSha, parseFailures, loadedConfig, configChangeIgnored, ignoredFiles, generatedFiles, resolvedDiscussions: fixedComments.length, qualityGate, modelLabel },
       );
 
-      await this.gitlabService.postMRComment(
-        projectId,
-        mergeRequestIid,
-        summaryComment,
-      );
+      await this.upsertSummaryComment(reviewRecord.projectId, projectId, mergeRequestIid, summaryComment);
 
       // Update review in database
       await this.prisma.review.update({
         where: { id: reviewId },
         data: {
-          reviewContent: { issues: allIssues } as any,
+          reviewContent: { issues: allIssues, parseFailures } as any,
+          issues: {
+            createMany: {
+              data: allIssues.map((issue) => ({
+                filePath: issue.file,
+                line: issue.line,
+                endLine: issue.line,
+                replacementStartLine: issue.replacement?.startLine ?? null,
+                replacementEndLine: issue.replacement?.endLine ?? null,
+                side: issue.side || 'new',
+                severity: issue.severity,
+                type: issue.type,
+                message: issue.message,
+                suggestion: issue.suggestion || null,
+                snippet: issue.snippet || null,
+                fingerprint: issue.fingerprint || null,
+                verificationConfidence: issue.verification?.confidence || null,
+                verificationReason: issue.verification?.reason || null,
+                discussionId: issue.discussionId || null,
+              })),
+            },
+          },
+          parseFailures: parseFailures.filter((f) => f.failed).length,
           qualityScore: Math.max(0, totalScore),
           issuesFound: allIssues.length,
           suggestionsCount: allIssues.length,
@@ -320,12 +563,18 @@ export class ReviewProcessor {
         },
       });
 
+      await this.metricsService.updateForReview(reviewId);
+
       this.logger.log(
         `✓ Review ${reviewId} completed: ${allIssues.length} issues, score ${totalScore}`,
       );
     } catch (error) {
       this.logger.error(`Failed to process review ${reviewId}: ${error.message}`);
 
+      if (gateContext) {
+        await this.qualityGate.markErrored(gateContext.project, projectId, gateContext.headSha, reviewId);
+      }
+
       await this.prisma.review.update({
         where: { id: reviewId },
         data: { status: ReviewStatus.FAILED },
@@ -335,15 +584,419 @@ export class ReviewProcessor {
     }
   }
 
+  /**
+   * Review one pack of chunks with a single LLM call
+   * A lone chunk uses the detailed single-file prompt, larger packs the batched prompt
+   * @param pack Chunks reviewed together
+   * @param llmOptions Project provider/model override
+   * @param parseFailures Collected parse failures for this run
+   * @returns Issues with their file
+   */
+  private async reviewPack(
+    pack: ProcessedDiff[],
+    llmOptions: LlmCallOptions,
+    parseFailures: ParseFailure[],
+  ): Promise<IssueWithFile[]> {
+    if (pack.length === 1) {
+      const [chunk] = pack;
+      this.logger.log(`📄 INDIVIDUAL: Reviewing ${chunk.filename} (+${chunk.additions} -${chunk.deletions})`);
+
+      const result = await this.llmService.reviewChangedLines(chunk, llmOptions);
+      this.recordParseFailure(parseFailures, result.validation, [chunk.filename]);
+      return result.issues.map((issue) => ({ ...issue, file: chunk.filename }));
+    }
+
+    const changedLines = pack.reduce((sum, chunk) => sum + chunk.additions + chunk.deletions, 0);
+    this.logger.log(`📦 BATCHING: ${pack.length} chunks (${changedLines} lines) into single LLM call`);
+
+    const result = await this.llmService.reviewMultipleChunks(pack, llmOptions);
+    this.recordParseFailure(parseFailures, result.validation, pack.map((chunk) => chunk.filename));
+    return result.issues;
+  }
+
+  /**
+   * Keep track of LLM answers that failed schema validation
+   * A failed answer means findings for those files are missing, so it must not look like a clean review
+   * @param failures Collected failures for this run
+   * @param validation Validation report of one LLM call
+   * @param files Files covered by the call
+   */
+  private recordParseFailure(
+    failures: ParseFailure[],
+    validation: ReviewValidationReport | undefined,
+    files: string[],
+  ): void {
+    if (!validation || (!validation.failed && validation.errors.length === 0)) {
+      return;
+    }
+
+    failures.push({
+      files: [...new Set(files)],
+      failed: validation.failed,
+      repairAttempts: validation.repairAttempts,
+      errors: validation.errors.slice(0, 20),
+    });
+
+    if (validation.failed) {
+      this.logger.error(`❌ Unusable LLM answer for ${files.length} chunk(s) after ${validation.repairAttempts} repair attempt(s)`);
+    }
+  }
+
+  /**
+   * Check the MR's outstanding findings against the project's quality gate and publish the result
+   * The gate score is computed over all outstanding findings, so incremental runs
+   * cannot pass the gate while earlier findings are still open
+   * @param project Project with gate settings
+   * @param projectId GitLab project ID
+   * @param mergeRequestIid MR IID
+   * @param headSha Reviewed head SHA
+   * @param reviewId Review ID
+   * @param issues Findings of this run and still-open findings of earlier runs
+   * @returns Gate result, null if the gate is disabled for the project
+   */
+  private async publishQualityGate(
+    project: GateSettings,
+    projectId: number,
+    mergeRequestIid: number,
+    headSha: string,
+    reviewId: string,
+    issues: { severity: string | null }[],
+  ): Promise<QualityGateSummary | null> {
+    if (!project.gateEnabled) {
+      return null;
+    }
+
+    const severities = issues.map((issue) => ({ severity: issue.severity || 'low' }));
+    const score = Math.max(0, severities.reduce((sum, issue) => sum - (SEVERITY_IMPACT[issue.severity] || 2), 100));
+    const result = this.qualityGate.evaluate(project, severities, score);
+
+    await this.qualityGate.publish(project, projectId, mergeRequestIid, headSha, reviewId, result);
+    return { ...result, score, openIssues: severities.length };
+  }
+
+  /**
+   * Post the MR summary comment, editing the bot's earlier summary in place when there is one
+   * @param projectRecordId Internal project ID
+   * @param projectId GitLab project ID
+   * @param mergeRequestIid MR IID
+   * @param body Summary comment text
+   */
+  private async upsertSummaryComment(
+    projectRecordId: string,
+    projectId: number,
+    mergeRequestIid: number,
+    body: string,
+  ): Promise<void> {
+    const summary = await this.prisma.botComment.findFirst({
+      where: { projectId: projectRecordId, mergeRequestIid, kind: BotCommentKind.SUMMARY },
+    });
+
+    if (summary?.noteId && (await this.gitlabService.updateMRComment(projectId, mergeRequestIid, summary.noteId, body))) {
+      await this.prisma.botComment.update({ where: { id: summary.id }, data: { updatedAt: new Date() } });
+      return;
+    }
+
+    // First run, or the earlier summary was deleted on GitLab
+    const noteId = await this.gitlabService.postMRComment(projectId, mergeRequestIid, body);
+    if (summary) {
+      await this.prisma.botComment.update({ where: { id: summary.id }, data: { noteId } });
+    } else {
+      await this.prisma.botComment.create({
+        data: { projectId: projectRecordId, mergeRequestIid, kind: BotCommentKind.SUMMARY, noteId },
+      });
+    }
+  }
+
+  /**
+   * GitLab position lines for an issue: new line for added code, old line for removed code,
+   * both for unchanged lines
+   * @param issue Issue with line and side
+   * @param chunk Chunk the issue was found in
+   */
+  private resolvePosition(issue: IssueWithFile, chunk: ProcessedDiff): { line?: number; oldLine?: number } {
+    const position = chunk.positions.find((p) => (issue.side === 'old' ? p.oldLine : p.newLine) === issue.line);
+    if (!position) {
+      return issue.side === 'old' ? { oldLine: issue.line } : { line: issue.line };
+    }
+
+    return { line: position.newLine, oldLine: position.oldLine };
+  }
+
+  /**
+   * Whether this run looked at the code an earlier inline comment was about
+   * Full reviews cover every reviewed file (and files no longer changed by the MR),
+   * incremental reviews only the changed lines
+   * @param filePath File of the tracked comment
+   * @param line Current line of the flagged code, null if the code is gone
+   * @param chunks Chunks reviewed in this run
+   * @param diffs All diffs fetched for this run
+   * @param incremental Whether this run only reviewed new commits
+   */
+  private isCoveredByRun(
+    filePath: string,
+    line: number | null,
+    chunks: ProcessedDiff[],
+    diffs: any[],
+    incremental: boolean,
+  ): boolean {
+    const fileChunks = chunks.filter((chunk) => chunk.filename === filePath);
+
+    if (incremental) {
+      return fileChunks.some(
+        (chunk) => line === null || (line >= chunk.lineRange.start && line <= chunk.lineRange.end),
+      );
+    }
+
+    const stillChanged = diffs.some((diff) => (diff.new_path || diff.old_path) === filePath);
+    return fileChunks.length > 0 || !stillChanged;
+  }
+
+  /**
+   * Get the lines of a file at the reviewed head, fetched once per run
+   * @param cache Per-run cache of file lines
+   * @param projectId GitLab project ID
+   * @param filePath File path
+   * @param sha Head SHA
+   * @returns File lines, or null if the file cannot be read (e.g. deleted)
+   */
+  private async getFileLines(
+    cache: Map<string, string[] | null>,
+    projectId: number,
+    filePath: string,
+    sha: string,
+  ): Promise<string[] | null> {
+    if (!cache.has(filePath)) {
+      try {
+        cache.set(filePath, sha ? (await this.gitlabService.getFileContent(projectId, filePath, sha)).split('\n') : null);
+      } catch {
+        cache.set(filePath, null);
+      }
+    }
+
+    return cache.get(filePath) ?? null;
+  }
+
+  /**
+   * Close the bot's comments whose discussion was resolved in GitLab
+   * Developers resolve threads by hand; those findings must not keep failing the quality gate
+   * @param projectId GitLab project ID
+   * @param mergeRequestIid MR IID
+   * @param comments Inline comments not yet marked as resolved
+   * @returns Comments whose discussion is still open
+   */
+  private async syncResolvedDiscussions(
+    projectId: number,
+    mergeRequestIid: number,
+    comments: BotComment[],
+  ): Promise<BotComment[]> {
+    if (!comments.some((comment) => comment.discussionId)) {
+      return comments;
+    }
+
+    let resolvedIds: Set<string>;
+    try {
+      resolvedIds = await this.gitlabService.getResolvedDiscussionIds(projectId, mergeRequestIid);
+    } catch {
+      // Keep the stored state when GitLab cannot be reached
+      return comments;
+    }
+
+    const resolved = comments.filter((comment) => comment.discussionId && resolvedIds.has(comment.discussionId));
+    if (resolved.length === 0) {
+      return comments;
+    }
+
+    const discussionIds = resolved.map((comment) => comment.discussionId as string);
+    await this.prisma.$transaction([
+      this.prisma.botComment.updateMany({
+        where: { id: { in: resolved.map((comment) => comment.id) } },
+        data: { resolvedAt: new Date() },
+      }),
+      this.prisma.reviewIssue.updateMany({
+        where: { discussionId: { in: discussionIds }, state: IssueState.OPEN },
+        data: { state: IssueState.RESOLVED },
+      }),
+    ]);
+    this.logger.log(`✓ ${resolved.length} discussions were resolved in GitLab since the last run`);
+
+    return comments.filter((comment) => !resolved.includes(comment));
+  }
+
+  /**
+   * Resolve the bot's discussions for findings that are no longer reported
+   * Stored findings in those threads are marked as resolved
+   * @param projectId GitLab project ID
+   * @param mergeRequestIid MR IID
+   * @param comments Inline comments whose finding was fixed
+   * @param headSha Head SHA the run reviewed
+   */
+  private async resolveFixedDiscussions(
+    projectId: number,
+    mergeRequestIid: number,
+    comments: BotComment[],
+    headSha: string,
+  ): Promise<void> {
+    for (const comment of comments) {
+      if (!comment.discussionId) continue;
+
+      try {
+        await this.gitlabService.replyToDiscussion(
+          projectId,
+          mergeRequestIid,
+          comment.discussionId,
+          `✅ This finding is no longer detected${headSha ? ` as of \`${headSha.substring(0, 8)}\`` : ''} - resolving.\n\n<!-- reviewbot:auto-resolved -->`,
+        );
+      } catch (error) {
+        this.logger.warn(`Could not reply to discussion ${comment.discussionId}: ${error.message}`);
+      }
+      await this.gitlabService.resolveDiscussion(projectId, mergeRequestIid, comment.discussionId);
+
+      await this.prisma.$transaction([
+        this.prisma.botComment.update({ where: { id: comment.id }, data: { resolvedAt: new Date() } }),
+        this.prisma.reviewIssue.updateMany({
+          where: { discussionId: comment.discussionId, state: IssueState.OPEN },
+          data: { state: IssueState.RESOLVED },
+        }),
+      ]);
+      this.logger.log(`✅ Resolved discussion ${comment.discussionId} for fixed issue ${comment.fingerprint}`);
+    }
+  }
+
+  /**
+   * Check whether a changed file is generated, vendored, minified or a lock file
+   * Header markers are read from the diff of new files and from the head commit otherwise
+   * @param diff GitLab diff
+   * @param reviewConfig Repository config with extra globs and markers
+   * @param projectId GitLab project ID
+   * @param headSha MR head SHA
+   * @param cache File contents by path, shared with the rest of the run
+   * @returns Why the file is excluded, or null if it should be reviewed
+   */
+  private async classifyGeneratedFile(
+    diff: any,
+    reviewConfig: ReviewConfig,
+    projectId: number,
+    headSha: string,
+    cache: Map<string, string[] | null>,
+  ): Promise<GeneratedFileMatch | null> {
+    const filePath: string = diff.new_path || diff.old_path || '';
+    const custom = { globs: reviewConfig.generated, markers: reviewConfig.generatedMarkers };
+
+    const pathMatch = this.generatedFileClassifier.matchPath(filePath, custom.globs);
+    if (pathMatch) {
+      return pathMatch;
+    }
+
+    const addedLines = (diff.diff || '')
+      .split('\n')
+      .filter((line: string) => line.startsWith('+'))
+      .map((line: string) => line.substring(1));
+    const headerLines = diff.deleted_file
+      ? null
+      : diff.new_file
+        ? addedLines
+        : await this.getFileLines(cache, projectId, filePath, headSha);
+
+    return this.generatedFileClassifier.classify(filePath, addedLines, headerLines, custom);
+  }
+
+  /**
+   * Count earlier findings per file in this project, a signal for file risk
+   * Dismissed findings are not counted
+   * @param projectId Internal project ID
+   * @param reviewId Current review ID (excluded)
+   * @param filePaths Paths changed in the MR
+   */
+  private async getPastIssueCounts(projectId: string, reviewId: string, filePaths: string[]): Promise<Map<string, number>> {
+    const counts = await this.prisma.reviewIssue.groupBy({
+      by: ['filePath'],
+      where: {
+        filePath: { in: filePaths },
+        state: { not: IssueState.DISMISSED },
+        review: { projectId, id: { not: reviewId } },
+      },
+      _count: { _all: true },
+    });
+
+    return new Map(counts.map((count) => [count.filePath, count._count._all]));
+  }
+
+  /**
+   * Highest risk score among the files of a pack, so the riskiest packs are reviewed first
+   */
+  private packRisk(pack: ProcessedDiff[], fileRisk: Map<string, number>): number {
+    return Math.max(0, ...pack.map((chunk) => fileRisk.get(chunk.filename) || 0));
+  }
+
+  /**
+   * Store the reviewed file diffs with the review so the dashboard can show them
+   * Replaces rows from an earlier attempt of the same job
+   * @param reviewId Review ID
+   * @param diffs GitLab diffs reviewed in this run
+   */
+  private async saveCodeChanges(reviewId: string, diffs: any[]): Promise<void> {
+    const data = diffs
+      .filter((diff) => diff.new_path || diff.old_path)
+      .map((diff) => {
+        const filePath = diff.new_path || diff.old_path;
+        const lines: string[] = (diff.diff || '').split('\n');
+
+        return {
+          reviewId,
+          filePath,
+          oldPath: diff.new_file ? null : diff.old_path || null,
+          newPath: diff.deleted_file ? null : diff.new_path || null,
+          diff: diff.diff || '',
+          additions: lines.filter((l) => l.startsWith('+') && !l.startsWith('+++')).length,
+          deletions: lines.filter((l) => l.startsWith('-') && !l.startsWith('---')).length,
+          fileType: this.diffProcessor.detectLanguage(filePath),
+        };
+      });
+
+    await this.prisma.$transaction([
+      this.prisma.codeChange.deleteMany({ where: { reviewId } }),
+      this.prisma.codeChange.createMany({ data }),
+    ]);
+  }
+
+  /**
+   * Fetch diffs for this run, falling back to the full MR diff when the previously reviewed
+   * commit can no longer be compared (force-push) or the MR was rebased or merged with its target
+   * @param projectId GitLab project ID
+   * @param mergeRequestIid MR IID
+   * @param sinceSha Previously reviewed head SHA, null for a full review
+   * @returns Diffs and the SHA they were actually computed from
+   */
+  private async fetchDiffs(projectId: number, mergeRequestIid: number, sinceSha: string | null) {
+    if (!sinceSha) {
+      return { diffs: await this.gitlabService.getMRDiffs(projectId, mergeRequestIid), sinceSha: null };
+    }
+
+    try {
+      if (!(await this.gitlabService.canReviewSince(projectId, mergeRequestIid, sinceSha))) {
+        this.logger.log(`Changes since ${sinceSha.substring(0, 8)} include commits outside the MR - falling back to full review`);
+        return { diffs: await this.gitlabService.getMRDiffs(projectId, mergeRequestIid), sinceSha: null };
+      }
+
+      const diffs = await this.gitlabService.getMRDiffs(projectId, mergeRequestIid, sinceSha);
+      this.logger.log(`🔁 INCREMENTAL: Reviewing changes since ${sinceSha.substring(0, 8)}`);
+      return { diffs, sinceSha };
+    } catch (error) {
+      this.logger.warn(`Could not compare against ${sinceSha.substring(0, 8)} (${error.message}) - falling back to full review`);
+      return { diffs: await this.gitlabService.getMRDiffs(projectId, mergeRequestIid), sinceSha: null };
+    }
+  }
+
   /**
    * Format inline comment with emoji and structured content
    * @param issue Code review issue
    * @param fileName File name for context
    * @param codeSnippet The actual code line with issue
    * @param language Programming language for syntax highlighting
+   * @param modelLabel Provider and model that produced the finding
    * @returns Formatted Markdown comment
    */
-  private formatInlineComment(issue: any, fileName?: string, codeSnippet?: string, language?: string): string {
+  private formatInlineComment(issue: any, fileName?: string, codeSnippet?: string, language?: string, modelLabel?: string | null): string {
     const emoji = {
       critical: '🔴',
       high: '🟠',
@@ -367,7 +1020,7 @@ export class ReviewProcessor {
 
     let comment = `${emoji} **${issue.severity.toUpperCase()} SEVERITY: ${typeEmoji} ${issue.type.toUpperCase()} Issue**
 
-${fileName ? `📄 **File:** \`${fileName}\`\n` : ''}📍 **Line:** ${issue.line}
+${fileName ? `📄 **File:** \`${fileName}\`\n` : ''}📍 **Line:** ${issue.line}${issue.side === 'old' ? ' (removed line)' : ''}
 ⚠️ **Priority:** ${severityDescriptions[issue.severity] || 'Review recommended'}
 
 ---
@@ -388,19 +1041,67 @@ ${codeSnippet.trim()}
 ${issue.message}
 
 ### 💡 Suggested Fix
-\`\`\`${language || ''}
-${issue.suggestion}
-\`\`\`
+${this.formatSuggestedFix(issue, language)}
 
 ### 📚 Why This Matters
 ${this.getIssueExplanation(issue.type, issue.severity)}
 
 ---
-*🤖 Generated by ReviewBot · Powered by Azure OpenAI*`;
+`;
+
+    if (issue.fingerprint) {
+      comment += `🔖 Fingerprint \`${issue.fingerprint}\` · Reply \`/reviewbot explain\` for details or \`/reviewbot ignore\` to stop reporting it
+<!-- reviewbot:fingerprint=${issue.fingerprint} -->
+
+`;
+    }
+
+    comment += `*🤖 Generated by ReviewBot${modelLabel ? ` · ${modelLabel}` : ''}*`;
 
     return comment;
   }
 
+  /**
+   * Format the suggested fix, as a GitLab suggestion block when there is an exact replacement
+   * The block's -N+M offsets are relative to the line the comment is posted on
+   * @param issue Code review issue
+   * @param language Programming language for syntax highlighting
+   * @returns Markdown for the suggested fix
+   */
+  private formatSuggestedFix(issue: IssueWithFile, language?: string): string {
+    if (!issue.replacement) {
+      return `\`\`\`${language || ''}
+${issue.suggestion}
+\`\`\``;
+    }
+
+    const { startLine, endLine, code } = issue.replacement;
+    // A longer fence keeps code containing ``` from closing the block early
+    const fence = code.includes('```') ? '````' : '```';
+
+    return `${issue.suggestion}
+
+${fence}suggestion:-${issue.line - startLine}+${endLine - issue.line}
+${code ? `${code}\n` : ''}${fence}
+
+*Apply this suggestion from the merge request UI.*`;
+  }
+
+  /**
+   * Whether a replacement still fits the file at the head commit
+   * @param replacement Replacement from the LLM
+   * @param fileLines File content at the head commit
+   */
+  private isApplicableReplacement(replacement: SuggestedReplacement, fileLines: string[] | null): boolean {
+    if (!fileLines || replacement.endLine > fileLines.length) {
+      return false;
+    }
+
+    // Replacing lines with identical code is not a fix
+    const current = fileLines.slice(replacement.startLine - 1, replacement.endLine).join('\n');
+    return current.trimEnd() !== replacement.code.trimEnd();
+  }
+
   /**
    * Get detailed explanation for issue type and severity
    * @param type Issue type
@@ -442,16 +1143,30 @@ ${this.getIssueExplanation(issue.type, issue.severity)}
    * Format summary comment with statistics and file limit warning
    * @param issues All issues found
    * @param score Quality score
-   * @param skippedFiles Number of files skipped
+   * @param skippedFiles Files left out by risk prioritization
    * @param filesProcessed Number of files reviewed
+   * @param details Incremental base, parse failures and repository config of the run
    * @returns Formatted Markdown comment
    */
   private formatSummaryComment(
     issues: IssueWithFile[],
     score: number,
-    skippedFiles: number,
+    skippedFiles: SkippedFile[],
     filesProcessed: number,
+    details: SummaryDetails = {},
   ): string {
+    const {
+      sinceSha,
+      parseFailures = [],
+      loadedConfig,
+      configChangeIgnored = false,
+      ignoredFiles = 0,
+      generatedFiles = [],
+      resolvedDiscussions = 0,
+      qualityGate,
+      modelLabel,
+    } = details;
+    const inlineSeverity = loadedConfig?.config.inlineSeverity ?? DEFAULT_REVIEW_CONFIG.inlineSeverity;
     const critical = issues.filter((i) => i.severity === 'critical').length;
     const high = issues.filter((i) => i.severity === 'high').length;
     const medium = issues.filter((i) => i.severity === 'medium').length;
@@ -461,7 +1176,9 @@ ${this.getIssueExplanation(issue.type, issue.severity)}
     const scoreColor = score >= 80 ? '🟢' : score >= 60 ? '🟡' : '🔴';
 
     let comment = `# ${emoji} AI Code Review Complete
-
+${sinceSha ? `
+> 🔁 **Incremental review** — only changes pushed since \`${sinceSha.substring(0, 8)}\` were reviewed.
+` : ''}
 ## 📊 Quality Metrics
 
 | Metric | Value |
@@ -475,11 +1192,83 @@ ${this.getIssueExplanation(issue.type, issue.severity)}
 | 🔵 **Low Priority** | ${low} |
 `;
 
-    if (skippedFiles > 0) {
+    if (qualityGate) {
+      comment += `
+## 🚦 Quality Gate: ${qualityGate.passed ? '✅ Passed' : '❌ Failed'}
+
+Checked against **${qualityGate.openIssues}** open finding(s) on this merge request (gate score **${qualityGate.score}/100**).
+${qualityGate.failures.map((failure) => `- ${failure}`).join('\n')}
+`;
+    }
+
+    const failedFiles = [...new Set(parseFailures.filter((f) => f.failed).flatMap((f) => f.files))];
+    if (failedFiles.length > 0) {
+      comment += `
+## ⚠️ Incomplete Review
+
+The AI reviewer returned an unusable answer for **${failedFiles.length} file(s)**, so findings for them are missing:
+
+${failedFiles.map((file) => `- \`${file}\``).join('\n')}
+
+Use \`/reviewbot full\` to retry.
+`;
+    }
+
+    if (loadedConfig && loadedConfig.warnings.length > 0) {
+      comment += `
+## ⚙️ Configuration Warnings
+
+\`.reviewbot.yml\` has problems; defaults were used for the affected options:
+
+${loadedConfig.warnings.map((warning) => `- ${warning}`).join('\n')}
+`;
+    }
+
+    if (configChangeIgnored) {
+      comment += `
+## ⚙️ Configuration Changes
+
+This MR changes \`.reviewbot.yml\`. The quality gate is enabled, so the settings of the target branch are used until the MR is merged.
+`;
+    }
+
+    if (resolvedDiscussions > 0) {
+      comment += `
+> ✅ ${resolvedDiscussions} finding(s) from earlier reviews are no longer detected; their discussions were resolved.
+`;
+    }
+
+    if (ignoredFiles > 0) {
+      comment += `
+> 🙈 ${ignoredFiles} file(s) skipped by \`ignore\` patterns in \`.reviewbot.yml\`.
+`;
+    }
+
+    if (generatedFiles.length > 0) {
+      comment += `
+<details>
+<summary>🧱 ${generatedFiles.length} generated, vendored or lock file(s) were not reviewed</summary>
+
+| File | Kind | Detected By |
+|------|------|-------------|
+${generatedFiles.map((file) => `| \`${file.path}\` | ${file.kind} | ${file.reason} |`).join('\n')}
+
+Add globs to \`generated\` or header markers to \`generated_markers\` in \`.reviewbot.yml\` to exclude more files.
+</details>
+`;
+    }
+
+    if (skippedFiles.length > 0) {
       comment += `
 ## ⚠️ Large MR Warning
 
-This merge request contains **${skippedFiles + filesProcessed} files**. Only the first **${this.MAX_FILES} files** were reviewed to prevent token overflow.
+This merge request is over the review budget (\`max_files\` / \`max_changed_lines\` in \`.reviewbot.yml\`). Files were ranked by risk and **${skippedFiles.length} file(s)** were not reviewed:
+
+| File | Risk | Changed Lines | Why Skipped |
+|------|------|---------------|-------------|
+${skippedFiles
+  .map((file) => `| \`${file.path}\` | ${file.score}${file.reasons.length > 0 ? ` (${file.reasons.join(', ')})` : ''} | ${file.churn} | ${file.reason} |`)
+  .join('\n')}
 
 **Recommendation:** Consider splitting large changes into smaller MRs for:
 - Complete review coverage
@@ -555,7 +1344,7 @@ This merge request contains **${skippedFiles + filesProcessed} files**. Only the
 
         for (const issue of sortedIssues) {
           const emoji = { critical: '🔴', high: '🟠', medium: '🟡', low: '🔵' }[issue.severity];
-          comment += `- ${emoji} **Line ${issue.line}**: ${issue.message}\n`;
+          comment += `- ${emoji} **Line ${issue.line}${issue.side === 'old' ? ' (removed)' : ''}**: ${issue.message}${issue.fingerprint ? ` \`${issue.fingerprint}\`` : ''}\n`;
         }
       }
     } else {
@@ -573,16 +1362,22 @@ No significant issues detected. The code follows best practices and maintains go
 
 ## 💬 Inline Comments
 
-${issues.filter(i => ['critical', 'high', 'medium'].includes(i.severity)).length > 0
-  ? `✅ Inline comments have been posted on **Critical**, **High**, and **Medium** severity issues.
+${issues.filter(i => this.reviewConfigService.meetsSeverity(i.severity, inlineSeverity)).length > 0
+  ? `✅ Inline comments have been posted on issues of **${inlineSeverity}** severity and above.
 
 Check the "Changes" tab to see detailed suggestions at specific code lines.`
-  : '✅ No inline comments needed - all issues are low severity or informational.'}
+  : `✅ No inline comments needed - all issues are below **${inlineSeverity}** severity.`}
 
 ---
 
-**🤖 ReviewBot** · Powered by Azure OpenAI Haiku 4.5
-*Generated with ±10 lines of context for accurate analysis*
+## ⌨️ Commands
+
+Comment \`/reviewbot review\` to review new commits, \`/reviewbot full\` to re-review everything, \`/reviewbot explain <fingerprint>\` for details on a finding or \`/reviewbot ignore <fingerprint>\` to suppress it.
+
+---
+
+**🤖 ReviewBot**${modelLabel ? ` · ${modelLabel}` : ''}
+*Reviewed with the enclosing functions and classes of each change as context*
 `;
 
     return comment;
@@ -596,6 +1391,7 @@ export interface ReviewJobData {
   reviewId: string;
   projectId: number;
   mergeRequestIid: number;
+  sinceSha?: string; // Last reviewed head SHA for incremental runs
 }
 
 /**
@@ -604,8 +1400,54 @@ export interface ReviewJobData {
 export interface IssueWithFile {
   file: string;
   line: number;
+  side?: 'new' | 'old'; // 'old' = line in the old file (problem caused by removed code)
   severity: 'critical' | 'high' | 'medium' | 'low';
   type: 'security' | 'performance' | 'logic' | 'style';
   message: string;
   suggestion: string;
+  fingerprint?: string;
+  snippet?: string | null; // Code on the flagged line at review time
+  replacement?: SuggestedReplacement; // Exact fix posted as a GitLab suggestion
+  verification?: { confidence: string; reason: string };
+  discussionId?: string | null; // Inline comment thread
+}
+
+/**
+ * LLM answer that failed schema validation during a review run
+ */
+export interface ParseFailure {
+  files: string[];
+  failed: boolean; // true = no findings for these files, false = some invalid issues dropped
+  repairAttempts: number;
+  errors: string[];
+}
+
+/**
+ * Optional details shown in the summary comment
+ */
+interface SummaryDetails {
+  sinceSha?: string | null;
+  parseFailures?: ParseFailure[];
+  loadedConfig?: LoadedReviewConfig;
+  configChangeIgnored?: boolean; // MR edits .reviewbot.yml but the gate reads it from the base
+  ignoredFiles?: number;
+  generatedFiles?: GeneratedFile[];
+  resolvedDiscussions?: number;
+  qualityGate?: QualityGateSummary | null;
+  modelLabel?: string | null; // Provider and model used for the run
+}
+
+/**
+ * File excluded from review as generated, vendored or a lock file
+ */
+interface GeneratedFile extends GeneratedFileMatch {
+  path: string;
+}
+
+/**
+ * Quality gate result with the score and findings it was computed from
+ */
+interface QualityGateSummary extends QualityGateResult {
+  score: number;
+  openIssues: number;
 }
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+import { RepoIndexService } from './repo-index.service';
+import { RepoIndexProcessor } from './repo-index.processor';
+import { PrismaModule } from '../prisma/prisma.module';
+import { GitLabModule } from '../gitlab/gitlab.module';
+import { LlmModule } from '../llm/llm.module';
+
+/**
+ * Repository Index Module
+ * Snapshots and BM25 indexes of project default branches for retrieval-augmented reviews
+ */
+@Module({
+  imports: [
+    PrismaModule,
+    GitLabModule,
+    LlmModule,
+    BullModule.registerQueue({
+      name: 'index-queue',
+    }),
+  ],
+  providers: [RepoIndexService, RepoIndexProcessor],
+  exports: [RepoIndexService],
+})
+export class RepoIndexModule {}
@@ -0,0 +1,33 @@
+import { Process, Processor } from '@nestjs/bull';
+import { Injectable, Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import { RepoIndexService } from './repo-index.service';
+
+/**
+ * Repository Index Processor
+ * Builds and refreshes repository indexes on the index queue, one project at a time
+ */
+@Processor('index-queue')
+@Injectable()
+export class RepoIndexProcessor {
+  private readonly logger = new Logger(RepoIndexProcessor.name);
+
+  constructor(private repoIndexService: RepoIndexService) {}
+
+  @Process('refresh-index')
+  async handleRefresh(job: Job<IndexJobData>) {
+    const { gitlabProjectId, full } = job.data;
+
+    try {
+      return await this.repoIndexService.refresh(gitlabProjectId, full);
+    } catch (error) {
+      this.logger.error(`Failed to refresh repository index of project ${gitlabProjectId}: ${error.message}`);
+      throw error;
+    }
+  }
+}
+
+export interface IndexJobData {
+  gitlabProjectId: number;
+  full?: boolean;
+}
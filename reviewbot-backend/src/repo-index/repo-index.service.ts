@@ -0,0 +1,574 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import { PrismaService } from '../prisma/prisma.service';
+import { GitLabService } from '../gitlab/gitlab.service';
+import { ScopeContextBuilder } from '../llm/scope-context-builder';
+import { GeneratedFileClassifier } from '../llm/generated-file-classifier';
+import { countTokens } from '../llm/token-counter';
+import { readTarGz } from './tar-archive';
+import { TextIndex, IndexedDocument, tokenize, termFrequencies } from './text-index';
+
+const execFileAsync = promisify(execFile);
+
+/** Where snapshots and indexes are stored unless REPO_INDEX_DIR is set */
+const DEFAULT_INDEX_DIR = 'data/repo-index';
+
+/** Bumped when the stored format changes; older indexes are rebuilt */
+const INDEX_VERSION = 1;
+
+/** Source files worth retrieving */
+const INDEXED_EXTENSIONS = new Set([
+  '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.py', '.go', '.java', '.kt', '.rb', '.php', '.cs',
+  '.rs', '.c', '.cpp', '.h', '.swift', '.scala', '.sql', '.sh', '.vue', '.svelte',
+]);
+
+/** Larger files are skipped */
+const MAX_FILE_BYTES = 256 * 1024;
+
+/** Files indexed per project */
+const MAX_INDEXED_FILES = 20000;
+
+/** Directories never descended into when walking a local clone */
+const SKIPPED_DIRECTORIES = new Set(['.git', 'node_modules']);
+
+/** Lines of top-level code per text snippet */
+const WINDOW_LINES = 40;
+
+/** Non-blank lines a text snippet needs to be indexed */
+const MIN_WINDOW_CODE_LINES = 3;
+
+/** Weight of a symbol's name terms relative to its body */
+const NAME_WEIGHT = 3;
+
+/** Changed files above which a refresh rebuilds the whole index */
+const MAX_INCREMENTAL_FILES = 200;
+
+/** Indexes kept in memory */
+const MAX_CACHED_INDEXES = 4;
+
+/** Distinct query terms used per search */
+const MAX_QUERY_TERMS = 40;
+
+/** Distinct query terms a snippet must contain */
+const MIN_MATCHED_TERMS = 3;
+
+/** Snippets returned per search */
+const MAX_RESULTS = 3;
+
+/** Lines of a snippet shown in the prompt */
+const MAX_SNIPPET_LINES = 30;
+
+/**
+ * Repository Index Service
+ * Keeps a snapshot of each indexed project's default branch (from the archive API or a
+ * local clone) with a BM25 index of its functions, classes and top-level code on disk,
+ * and retrieves similar code, existing helpers and conventions for review prompts
+ */
+@Injectable()
+export class RepoIndexService {
+  private readonly logger = new Logger(RepoIndexService.name);
+  private readonly cache = new Map<number, LoadedIndex>();
+
+  constructor(
+    private prisma: PrismaService,
+    private gitlabService: GitLabService,
+    private configService: ConfigService,
+    private scopeContextBuilder: ScopeContextBuilder,
+    private generatedFileClassifier: GeneratedFileClassifier,
+    @InjectQueue('index-queue') private indexQueue: Queue,
+  ) {}
+
+  /**
+   * Queue a refresh of a project's index
+   * Queue failures are logged but not thrown - the next merge refreshes the index anyway
+   * @param gitlabProjectId GitLab project ID
+   * @param full Rebuild from scratch instead of applying the changes since the indexed commit
+   * @returns true if the job was queued
+   */
+  async queueRefresh(gitlabProjectId: number, full = false): Promise<boolean> {
+    try {
+      await this.indexQueue.add('refresh-index', { gitlabProjectId, full }, { removeOnComplete: true });
+      this.logger.log(`Queued ${full ? 'rebuild' : 'refresh'} of repository index for project ${gitlabProjectId}`);
+      return true;
+    } catch (error) {
+      this.logger.error(`Failed to queue index refresh for project ${gitlabProjectId}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Bring a project's index up to date with its default branch (or local clone)
+   * Only the files changed since the indexed commit are re-indexed, unless the change
+   * is too large or no usable index exists
+   * @param gitlabProjectId GitLab project ID
+   * @param full Rebuild from scratch
+   * @returns Indexed commit and snippet count, or null if indexing is disabled
+   */
+  async refresh(gitlabProjectId: number, full = false): Promise<IndexRefreshResult | null> {
+    const project = await this.prisma.project.findUnique({ where: { gitlabProjectId } });
+    if (!project?.indexEnabled) {
+      this.logger.log(`Repository index disabled for project ${gitlabProjectId} - skipping refresh`);
+      return null;
+    }
+
+    const source: IndexSource = project.indexLocalPath
+      ? await this.readLocalClone(project.indexLocalPath)
+      : { kind: 'archive', root: this.snapshotDir(gitlabProjectId), ...(await this.gitlabService.getDefaultBranchHead(gitlabProjectId)) };
+
+    const current = full ? null : await this.load(gitlabProjectId);
+    const sameSource = !!current && current.meta.source === source.kind && current.meta.root === source.root;
+
+    if (sameSource && current.meta.sha === source.sha) {
+      this.logger.log(`Repository index of project ${gitlabProjectId} is up to date (${source.sha.substring(0, 8)})`);
+      return { sha: source.sha, documents: current.index.size, incremental: true };
+    }
+
+    const startTime = Date.now();
+    let index = sameSource ? await this.applyChanges(gitlabProjectId, current, source) : null;
+    const incremental = !!index;
+    if (!index) {
+      index = await this.build(gitlabProjectId, source);
+    }
+
+    const meta: IndexMeta = {
+      version: INDEX_VERSION,
+      gitlabProjectId,
+      source: source.kind,
+      root: source.root,
+      branch: source.branch,
+      sha: source.sha,
+      builtAt: new Date().toISOString(),
+    };
+    await this.save(meta, index);
+    this.remember(gitlabProjectId, { meta, index });
+
+    await this.prisma.project.update({
+      where: { gitlabProjectId },
+      data: { indexedSha: source.sha, indexedAt: new Date() },
+    });
+
+    this.logger.log(
+      `📚 ${incremental ? 'Refreshed' : 'Built'} repository index of project ${gitlabProjectId} at ${source.sha.substring(0, 8)}: ` +
+        `${index.size} snippet(s) in ${((Date.now() - startTime) / 1000).toFixed(1)}s`,
+    );
+
+    return { sha: source.sha, documents: index.size, incremental };
+  }
+
+  /**
+   * Delete a project's snapshot and index
+   * @param gitlabProjectId GitLab project ID
+   */
+  async remove(gitlabProjectId: number): Promise<void> {
+    this.cache.delete(gitlabProjectId);
+    await fs.rm(this.projectDir(gitlabProjectId), { recursive: true, force: true });
+    await this.prisma.project.update({
+      where: { gitlabProjectId },
+      data: { indexedSha: null, indexedAt: null },
+    });
+    this.logger.log(`Removed repository index of project ${gitlabProjectId}`);
+  }
+
+  /**
+   * Find code in the default branch that resembles the given code
+   * Never throws: a missing or unreadable index just yields no snippets
+   * @param gitlabProjectId GitLab project ID
+   * @param code Changed code to find similar code for
+   * @param options Files to leave out (changed by the MR, so stale in the snapshot) and token budget
+   * @returns Best snippets first, within the budget
+   */
+  async search(
+    gitlabProjectId: number,
+    code: string,
+    options: { excludePaths: Set<string>; maxTokens: number },
+  ): Promise<RetrievedSnippet[]> {
+    try {
+      const loaded = await this.load(gitlabProjectId);
+      if (!loaded) return [];
+
+      const queryTerms = [...new Set(tokenize(code))].slice(0, MAX_QUERY_TERMS);
+      const hits = loaded.index.search(queryTerms, {
+        limit: MAX_RESULTS * 2,
+        minMatchedTerms: MIN_MATCHED_TERMS,
+        excludePaths: options.excludePaths,
+      });
+
+      const snippets: RetrievedSnippet[] = [];
+      let tokens = 0;
+      for (const hit of hits) {
+        if (snippets.length >= MAX_RESULTS) break;
+
+        const snippet = await this.readSnippet(loaded.meta.root, hit.document, hit.score);
+        if (!snippet) continue;
+
+        const snippetTokens = countTokens(snippet.code);
+        if (tokens + snippetTokens > options.maxTokens) continue;
+        snippets.push(snippet);
+        tokens += snippetTokens;
+      }
+
+      return snippets;
+    } catch (error) {
+      this.logger.warn(`Repository index search failed for project ${gitlabProjectId}: ${error.message}`);
+      return [];
+    }
+  }
+
+  /**
+   * Index every file of the source from scratch
+   * Archive snapshots are unpacked next to the current one and swapped in when complete
+   */
+  private async build(gitlabProjectId: number, source: IndexSource): Promise<TextIndex> {
+    const index = new TextIndex();
+    let files = 0;
+
+    if (source.kind === 'local') {
+      for await (const filePath of this.walk(source.root, '')) {
+        if (files >= MAX_INDEXED_FILES) break;
+        const content = await fs.readFile(path.join(source.root, filePath));
+        if (this.indexFile(index, filePath, content)) files++;
+      }
+    } else {
+      const staging = `${source.root}.tmp`;
+      await fs.rm(staging, { recursive: true, force: true });
+
+      // Files are indexed and written while the archive downloads
+      const archive = await this.gitlabService.downloadArchive(gitlabProjectId, source.sha);
+      await readTarGz(
+        archive,
+        async (entry) => {
+          if (files >= MAX_INDEXED_FILES) return false;
+          if (this.indexFile(index, entry.path, entry.content)) {
+            await this.writeSnapshotFile(staging, entry.path, entry.content);
+            files++;
+          }
+          return true;
+        },
+        { maxEntryBytes: MAX_FILE_BYTES },
+      );
+
+      await fs.rm(source.root, { recursive: true, force: true });
+      await fs.mkdir(staging, { recursive: true });
+      await fs.rename(staging, source.root);
+    }
+
+    if (files >= MAX_INDEXED_FILES) {
+      this.logger.warn(`Project ${gitlabProjectId} has more than ${MAX_INDEXED_FILES} source files; the rest are not indexed`);
+    }
+
+    return index;
+  }
+
+  /**
+   * Re-index the files changed between the indexed commit and the source head
+   * @returns Updated index, or null if a full rebuild is needed
+   */
+  private async applyChanges(gitlabProjectId: number, current: LoadedIndex, source: IndexSource): Promise<TextIndex | null> {
+    let comparison: { diffs: any[]; timedOut: boolean };
+    try {
+      comparison = await this.gitlabService.compareCommits(gitlabProjectId, current.meta.sha, source.sha);
+    } catch {
+      // The indexed commit may be gone after a force push
+      return null;
+    }
+
+    if (comparison.timedOut || comparison.diffs.length > MAX_INCREMENTAL_FILES) {
+      this.logger.log(`${comparison.diffs.length} changed file(s) in project ${gitlabProjectId} - rebuilding the index`);
+      return null;
+    }
+
+    const index = current.index;
+    for (const diff of comparison.diffs) {
+      const oldPath: string = diff.old_path || diff.new_path;
+      const newPath: string = diff.new_path || diff.old_path;
+
+      index.removeFile(oldPath);
+      index.removeFile(newPath);
+      const stale = source.kind === 'archive' ? this.resolveInside(source.root, oldPath) : null;
+      if (stale) {
+        await fs.rm(stale, { force: true });
+      }
+      if (diff.deleted_file || !this.isIndexablePath(newPath)) continue;
+
+      try {
+        const content =
+          source.kind === 'local'
+            ? await fs.readFile(path.join(source.root, newPath))
+            : Buffer.from(await this.gitlabService.getFileContent(gitlabProjectId, newPath, source.sha), 'utf-8');
+
+        if (this.indexFile(index, newPath, content) && source.kind === 'archive') {
+          await this.writeSnapshotFile(source.root, newPath, content);
+        }
+      } catch (error) {
+        this.logger.warn(`Could not re-index ${newPath}: ${error.message}`);
+      }
+    }
+
+    return index;
+  }
+
+  /**
+   * Split a file into snippets and add them to the index
+   * Innermost functions, methods and classes become symbol snippets; the code between
+   * them (module-level statements, fields) is indexed in windows of WINDOW_LINES
+   * @returns false if the file is not indexed (binary, generated, too large, not source code)
+   */
+  private indexFile(index: TextIndex, filePath: string, content: Buffer): boolean {
+    if (!this.isIndexablePath(filePath) || content.length > MAX_FILE_BYTES || content.subarray(0, 8000).includes(0)) {
+      return false;
+    }
+
+    const lines = content.toString('utf-8').split('\n');
+    const scopes = this.scopeContextBuilder.findScopes(lines, filePath);
+    const innermost = scopes.filter(
+      (scope) => !scopes.some((other) => other !== scope && other.signatureStart > scope.signatureStart && other.end <= scope.end),
+    );
+
+    const covered = new Set<number>();
+    for (const scope of innermost) {
+      const name = this.symbolName(lines[scope.signatureStart - 1]);
+      const terms = tokenize(lines.slice(scope.start - 1, scope.end).join('\n'));
+      const nameTerms = name ? tokenize(name) : [];
+      index.add({
+        path: filePath,
+        startLine: scope.start,
+        endLine: scope.end,
+        kind: 'symbol',
+        name,
+        terms: this.mergeFrequencies(termFrequencies(terms), termFrequencies(nameTerms, NAME_WEIGHT)),
+        length: terms.length + nameTerms.length * NAME_WEIGHT,
+      });
+      for (let line = scope.start; line <= scope.end; line++) covered.add(line);
+    }
+
+    let window: number[] = [];
+    const flush = () => {
+      const text = window.map((line) => lines[line - 1]);
+      if (text.filter((line) => line.trim()).length >= MIN_WINDOW_CODE_LINES) {
+        const terms = tokenize(text.join('\n'));
+        index.add({
+          path: filePath,
+          startLine: window[0],
+          endLine: window[window.length - 1],
+          kind: 'text',
+          name: null,
+          terms: termFrequencies(terms),
+          length: terms.length,
+        });
+      }
+      window = [];
+    };
+    for (let line = 1; line <= lines.length; line++) {
+      if (window.length > 0 && (covered.has(line) || window.length >= WINDOW_LINES)) flush();
+      if (!covered.has(line)) window.push(line);
+    }
+    if (window.length > 0) flush();
+
+    return true;
+  }
+
+  private isIndexablePath(filePath: string): boolean {
+    return INDEXED_EXTENSIONS.has(path.extname(filePath).toLowerCase()) && !this.generatedFileClassifier.matchPath(filePath);
+  }
+
+  /**
+   * Declared name on a signature line (`class Foo`, `def foo`, `foo(...)`, `const foo =`)
+   */
+  private symbolName(signature: string): string | null {
+    const match =
+      signature.match(/\b(?:class|interface|enum|struct|trait|function|def|func|fn)\s+(?:\([^)]*\)\s*)?([A-Za-z_$][\w$]*)/) ||
+      signature.match(/([A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?\s*(?:=\s*(?:async\s*)?)?\(/) ||
+      signature.match(/([A-Za-z_$][\w$]*)\s*[=:]/);
+    return match ? match[1] : null;
+  }
+
+  private mergeFrequencies(a: Record<string, number>, b: Record<string, number>): Record<string, number> {
+    const merged: Record<string, number> = Object.assign(Object.create(null), a);
+    for (const [term, count] of Object.entries(b)) {
+      merged[term] = (merged[term] || 0) + count;
+    }
+    return merged;
+  }
+
+  /**
+   * Lines of an indexed snippet from the snapshot, capped at MAX_SNIPPET_LINES
+   * Snippets that no longer fit a file changed on disk since indexing are dropped
+   */
+  private async readSnippet(root: string, document: IndexedDocument, score: number): Promise<RetrievedSnippet | null> {
+    const filePath = this.resolveInside(root, document.path);
+    if (!filePath) return null;
+
+    try {
+      const lines = (await fs.readFile(filePath, 'utf-8')).split('\n');
+      if (document.endLine > lines.length) return null;
+
+      const endLine = Math.min(document.endLine, document.startLine + MAX_SNIPPET_LINES - 1);
+      const code = lines.slice(document.startLine - 1, endLine).join('\n');
+      return {
+        filePath: document.path,
+        startLine: document.startLine,
+        endLine,
+        name: document.name,
+        code: endLine < document.endLine ? `${code}\n…` : code,
+        score: Math.round(score * 100) / 100,
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Repository-relative paths of the files below a local clone
+   */
+  private async *walk(root: string, relativeDir: string): AsyncGenerator<string> {
+    const entries = await fs.readdir(path.join(root, relativeDir), { withFileTypes: true });
+    for (const entry of entries) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRECTORIES.has(entry.name)) yield* this.walk(root, relativePath);
+      } else if (entry.isFile() && this.isIndexablePath(relativePath)) {
+        yield relativePath;
+      }
+    }
+  }
+
+  /**
+   * Head commit of a local clone; the clone is read as-is and never fetched or checked out
+   */
+  private async readLocalClone(root: string): Promise<IndexSource> {
+    const resolved = path.resolve(root);
+    try {
+      await fs.access(path.join(resolved, '.git'));
+      const { stdout } = await execFileAsync('git', ['-C', resolved, 'rev-parse', 'HEAD', '--abbrev-ref', 'HEAD']);
+      const [sha, branch] = stdout.trim().split('\n');
+      return { kind: 'local', root: resolved, sha, branch };
+    } catch (error) {
+      throw new Error(`${resolved} is not a readable git clone: ${error.message}`);
+    }
+  }
+
+  private async writeSnapshotFile(root: string, filePath: string, content: Buffer): Promise<void> {
+    const target = this.resolveInside(root, filePath);
+    if (!target) return;
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, content);
+  }
+
+  /**
+   * Absolute path of a repository file, or null if the path escapes the root
+   */
+  private resolveInside(root: string, filePath: string): string | null {
+    const target = path.resolve(root, filePath);
+    return target.startsWith(root + path.sep) ? target : null;
+  }
+
+  /**
+   * Load a project's index from memory or disk
+   * @returns The index, or null if none was built (or it has an outdated format)
+   */
+  private async load(gitlabProjectId: number): Promise<LoadedIndex | null> {
+    const cached = this.cache.get(gitlabProjectId);
+    if (cached) return cached;
+
+    let stored: StoredIndex;
+    try {
+      stored = JSON.parse(await fs.readFile(this.indexPath(gitlabProjectId), 'utf-8'));
+    } catch {
+      return null;
+    }
+    if (stored.version !== INDEX_VERSION) return null;
+
+    const { documents, ...meta } = stored;
+    const loaded = { meta, index: new TextIndex(documents) };
+    this.remember(gitlabProjectId, loaded);
+    return loaded;
+  }
+
+  /**
+   * Write the index atomically so searches never read a partial file
+   */
+  private async save(meta: IndexMeta, index: TextIndex): Promise<void> {
+    const target = this.indexPath(meta.gitlabProjectId);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(`${target}.tmp`, JSON.stringify({ ...meta, documents: index.toJSON() }));
+    await fs.rename(`${target}.tmp`, target);
+  }
+
+  private remember(gitlabProjectId: number, loaded: LoadedIndex): void {
+    this.cache.delete(gitlabProjectId);
+    this.cache.set(gitlabProjectId, loaded);
+    // Maps iterate in insertion order, so the first key is the least recently stored
+    while (this.cache.size > MAX_CACHED_INDEXES) {
+      this.cache.delete(this.cache.keys().next().value as number);
+    }
+  }
+
+  private projectDir(gitlabProjectId: number): string {
+    const baseDir = this.configService.get<string>('REPO_INDEX_DIR') || DEFAULT_INDEX_DIR;
+    return path.resolve(baseDir, String(gitlabProjectId));
+  }
+
+  private snapshotDir(gitlabProjectId: number): string {
+    return path.join(this.projectDir(gitlabProjectId), 'snapshot');
+  }
+
+  private indexPath(gitlabProjectId: number): string {
+    return path.join(this.projectDir(gitlabProjectId), 'index.json');
+  }
+}
+
+/**
+ * Where an index is built from
+ */
+interface IndexSource {
+  kind: 'archive' | 'local';
+  root: string; // Snapshot directory or local clone
+  branch: string;
+  sha: string;
+}
+
+interface IndexMeta {
+  version: number;
+  gitlabProjectId: number;
+  source: IndexSource['kind'];
+  root: string;
+  branch: string;
+  sha: string;
+  builtAt: string;
+}
+
+interface StoredIndex extends IndexMeta {
+  documents: IndexedDocument[];
+}
+
+interface LoadedIndex {
+  meta: IndexMeta;
+  index: TextIndex;
+}
+
+/**
+ * Outcome of an index refresh
+ */
+export interface IndexRefreshResult {
+  sha: string;
+  documents: number;
+  incremental: boolean;
+}
+
+/**
+ * Code from the default branch similar to a change
+ */
+export interface RetrievedSnippet {
+  filePath: string;
+  startLine: number;
+  endLine: number;
+  name: string | null; // Function or class name, if the snippet is one
+  code: string;
+  score: number;
+}
@@ -0,0 +1,145 @@
+import { Readable, pipeline } from 'stream';
+import * as zlib from 'zlib';
+
+/** Tar archives are read in blocks of this size */
+const BLOCK_SIZE = 512;
+
+/** Upper bound of an unpacked archive; larger repositories should use a local clone */
+const MAX_UNPACKED_BYTES = 1024 * 1024 * 1024;
+
+/**
+ * Read the regular files of a gzipped tar archive as it is downloaded
+ * Entries are handed over one at a time, so only the current file is held in memory
+ * Supports ustar prefixes, pax extended headers and GNU long names, which git archive emits for long paths
+ * GitLab wraps the tree in a `<project>-<sha>/` directory; it is stripped from the paths
+ * @param archive Gzipped tar stream
+ * @param onEntry Called for every file with repository-relative path; return false to stop reading
+ * @param options Files larger than maxEntryBytes are skipped without being buffered
+ */
+export async function readTarGz(
+  archive: Readable,
+  onEntry: (entry: TarEntry) => Promise<boolean>,
+  options: { maxEntryBytes: number },
+): Promise<void> {
+  const tar = zlib.createGunzip();
+  // Download errors surface in the loop below, which destroys both streams when it ends early
+  pipeline(archive, tar, () => undefined);
+
+  let header = Buffer.alloc(0);
+  let entry: PendingEntry | null = null;
+  let longName: string | null = null;
+  let unpacked = 0;
+
+  for await (const chunk of tar as AsyncIterable<Buffer>) {
+    unpacked += chunk.length;
+    if (unpacked > MAX_UNPACKED_BYTES) {
+      throw new Error(`Archive unpacks to more than ${MAX_UNPACKED_BYTES} bytes`);
+    }
+
+    let offset = 0;
+    while (offset < chunk.length) {
+      if (!entry) {
+        const take = Math.min(BLOCK_SIZE - header.length, chunk.length - offset);
+        header = Buffer.concat([header, chunk.subarray(offset, offset + take)]);
+        offset += take;
+        if (header.length < BLOCK_SIZE) break;
+
+        // Two zero blocks end the archive
+        if (header.every((byte) => byte === 0)) return;
+
+        entry = startEntry(header, options.maxEntryBytes);
+        header = Buffer.alloc(0);
+      } else {
+        const take = Math.min(entry.remaining, chunk.length - offset);
+        const bodyBytes = Math.min(take, Math.max(0, entry.size - entry.received));
+        if (entry.chunks && bodyBytes > 0) {
+          entry.chunks.push(chunk.subarray(offset, offset + bodyBytes));
+        }
+        entry.received += take;
+        entry.remaining -= take;
+        offset += take;
+      }
+
+      if (entry && entry.remaining === 0) {
+        const finished = entry;
+        entry = null;
+
+        const body = finished.chunks ? Buffer.concat(finished.chunks) : null;
+        if (finished.type === 'x') {
+          longName = (body && parsePaxPath(body.toString('utf-8'))) ?? longName;
+          continue;
+        }
+        if (finished.type === 'L') {
+          longName = body ? readString(body, 0, body.length) : longName;
+          continue;
+        }
+
+        const name = longName ?? finished.name;
+        longName = null;
+        // Directories, links and the pax global header (commit id) carry no file content
+        if ((finished.type !== '0' && finished.type !== '7') || !body) continue;
+
+        const relativePath = name.split('/').slice(1).join('/');
+        if (relativePath && !(await onEntry({ path: relativePath, content: body }))) {
+          return;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Parse a header block; the body follows in the next blocks
+ */
+function startEntry(header: Buffer, maxEntryBytes: number): PendingEntry {
+  const size = parseInt(readString(header, 124, 12).trim() || '0', 8);
+  const type = String.fromCharCode(header[156] || 48);
+  const prefix = readString(header, 345, 155);
+
+  return {
+    name: prefix ? `${prefix}/${readString(header, 0, 100)}` : readString(header, 0, 100),
+    type,
+    size,
+    received: 0,
+    remaining: Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE,
+    // Name records are always kept; oversized files are only skipped over
+    chunks: type === 'x' || type === 'L' || size <= maxEntryBytes ? [] : null,
+  };
+}
+
+/**
+ * NUL-terminated string field of a tar header
+ */
+function readString(block: Buffer, start: number, length: number): string {
+  const field = block.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? field.length : end).toString('utf-8');
+}
+
+/**
+ * `path` record of a pax extended header ("<length> path=<value>\n" records)
+ */
+function parsePaxPath(records: string): string | null {
+  const match = records.match(/^\d+ path=(.*)$/m);
+  return match ? match[1] : null;
+}
+
+/**
+ * Regular file of an archive
+ */
+export interface TarEntry {
+  path: string;
+  content: Buffer;
+}
+
+/**
+ * Archive entry whose body is being read
+ */
+interface PendingEntry {
+  name: string;
+  type: string;
+  size: number;
+  received: number; // Body and padding bytes read so far
+  remaining: number; // Body and padding bytes still to read
+  chunks: Buffer[] | null; // null when the body is skipped
+}
@@ -0,0 +1,196 @@
+/** BM25 term frequency saturation */
+const BM25_K1 = 1.2;
+
+/** BM25 document length normalization */
+const BM25_B = 0.75;
+
+/** Shortest identifier part that is indexed */
+const MIN_TERM_LENGTH = 3;
+
+/** Keywords and filler words too common in code to tell snippets apart */
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'not', 'this', 'that', 'with', 'from', 'into', 'are', 'was', 'has', 'have',
+  'const', 'let', 'var', 'function', 'return', 'async', 'await', 'new', 'class', 'extends', 'implements',
+  'import', 'export', 'default', 'public', 'private', 'protected', 'static', 'readonly', 'void', 'null',
+  'undefined', 'true', 'false', 'else', 'while', 'switch', 'case', 'break', 'continue', 'try', 'catch',
+  'finally', 'throw', 'throws', 'typeof', 'instanceof', 'interface', 'type', 'enum', 'string', 'number',
+  'boolean', 'any', 'def', 'self', 'none', 'elif', 'pass', 'lambda', 'func', 'package', 'struct', 'nil',
+  'int', 'err', 'final', 'super', 'get', 'set',
+]);
+
+/**
+ * Split code into search terms
+ * Identifiers are kept whole and also split at camelCase and snake_case boundaries,
+ * so `parseUserToken` matches `user_token` and `TokenParser`
+ * @param text Code or query text
+ * @returns Lowercase terms, repeated as often as they occur
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+
+  for (const identifier of text.match(/[A-Za-z_$][A-Za-z0-9_$]*/g) || []) {
+    const parts = identifier
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_$]+/)
+      .map((part) => part.toLowerCase());
+
+    const whole = identifier.toLowerCase().replace(/^[_$]+/, '');
+    if (parts.length > 1 && whole.length >= MIN_TERM_LENGTH && !STOP_WORDS.has(whole)) {
+      terms.push(whole);
+    }
+    for (const part of parts) {
+      if (part.length >= MIN_TERM_LENGTH && !STOP_WORDS.has(part)) {
+        terms.push(part);
+      }
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * Count how often each term occurs
+ * The counts have no prototype, so terms like `constructor` do not hit Object.prototype
+ */
+export function termFrequencies(terms: string[], weight = 1): Record<string, number> {
+  const frequencies: Record<string, number> = Object.create(null);
+  for (const term of terms) {
+    frequencies[term] = (frequencies[term] || 0) + weight;
+  }
+  return frequencies;
+}
+
+/**
+ * Text Index
+ * In-memory BM25 index over code snippets that serializes to plain JSON
+ * Documents are added and removed per file so the index can be refreshed incrementally
+ */
+export class TextIndex {
+  private readonly documents = new Map<string, IndexedDocument[]>();
+  private readonly documentFrequency = new Map<string, number>();
+  private documentCount = 0;
+  private totalLength = 0;
+
+  constructor(documents: IndexedDocument[] = []) {
+    for (const document of documents) {
+      this.add(document);
+    }
+  }
+
+  get size(): number {
+    return this.documentCount;
+  }
+
+  /**
+   * Add a snippet
+   */
+  add(document: IndexedDocument): void {
+    // Documents read back from JSON carry plain objects, whose prototype would answer `constructor`
+    document = { ...document, terms: Object.assign(Object.create(null), document.terms) };
+
+    const fileDocuments = this.documents.get(document.path) || [];
+    fileDocuments.push(document);
+    this.documents.set(document.path, fileDocuments);
+
+    for (const term of Object.keys(document.terms)) {
+      this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1);
+    }
+    this.documentCount++;
+    this.totalLength += document.length;
+  }
+
+  /**
+   * Remove every snippet of a file
+   */
+  removeFile(filePath: string): void {
+    for (const document of this.documents.get(filePath) || []) {
+      for (const term of Object.keys(document.terms)) {
+        const count = (this.documentFrequency.get(term) || 1) - 1;
+        if (count > 0) {
+          this.documentFrequency.set(term, count);
+        } else {
+          this.documentFrequency.delete(term);
+        }
+      }
+      this.documentCount--;
+      this.totalLength -= document.length;
+    }
+    this.documents.delete(filePath);
+  }
+
+  /**
+   * Rank snippets against query terms with BM25
+   * @param queryTerms Terms from `tokenize`; duplicates are ignored
+   * @param options Result count, minimum distinct matching terms and files to leave out
+   * @returns Best snippets first
+   */
+  search(
+    queryTerms: string[],
+    options: { limit: number; minMatchedTerms: number; excludePaths?: Set<string> },
+  ): SearchHit[] {
+    const terms = [...new Set(queryTerms)].filter((term) => this.documentFrequency.has(term));
+    if (terms.length < options.minMatchedTerms || this.documentCount === 0) {
+      return [];
+    }
+
+    const averageLength = this.totalLength / this.documentCount;
+    const idf = new Map(
+      terms.map((term) => {
+        const frequency = this.documentFrequency.get(term) || 0;
+        return [term, Math.log(1 + (this.documentCount - frequency + 0.5) / (frequency + 0.5))];
+      }),
+    );
+
+    const hits: SearchHit[] = [];
+    for (const [filePath, fileDocuments] of this.documents) {
+      if (options.excludePaths?.has(filePath)) continue;
+
+      for (const document of fileDocuments) {
+        let score = 0;
+        let matched = 0;
+        for (const term of terms) {
+          const frequency = document.terms[term];
+          if (!frequency) continue;
+          matched++;
+          const normalization = BM25_K1 * (1 - BM25_B + (BM25_B * document.length) / averageLength);
+          score += (idf.get(term) || 0) * ((frequency * (BM25_K1 + 1)) / (frequency + normalization));
+        }
+        if (matched >= options.minMatchedTerms) {
+          hits.push({ document, score, matchedTerms: matched });
+        }
+      }
+    }
+
+    return hits.sort((a, b) => b.score - a.score).slice(0, options.limit);
+  }
+
+  /**
+   * All snippets, for persisting the index
+   */
+  toJSON(): IndexedDocument[] {
+    return [...this.documents.values()].flat();
+  }
+}
+
+/**
+ * Indexed snippet: a function, method or class, or a window of top-level code
+ */
+export interface IndexedDocument {
+  path: string;
+  startLine: number;
+  endLine: number;
+  kind: 'symbol' | 'text';
+  name: string | null; // Symbol name, for symbol snippets
+  terms: Record<string, number>;
+  length: number; // Number of terms
+}
+
+/**
+ * Ranked snippet
+ */
+export interface SearchHit {
+  document: IndexedDocument;
+  score: number;
+  matchedTerms: number;
+}
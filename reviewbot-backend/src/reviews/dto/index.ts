@@ -1 +1,3 @@
 export * from './review-query.dto';
+export * from './review-issue-query.dto';
+export * from './update-review-issue.dto';
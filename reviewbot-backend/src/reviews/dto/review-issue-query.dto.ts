@@ -0,0 +1,56 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsOptional, IsString, IsIn, IsEnum } from 'class-validator';
+import { IssueState } from '@prisma/client';
+
+/**
+ * DTO for filtering the issues of a review
+ */
+export class ReviewIssueQueryDto {
+  @ApiProperty({
+    example: 'high',
+    description: 'Filter by severity',
+    enum: ['critical', 'high', 'medium', 'low'],
+    required: false,
+  })
+  @IsIn(['critical', 'high', 'medium', 'low'])
+  @IsOptional()
+  severity?: string;
+
+  @ApiProperty({
+    example: 'security',
+    description: 'Filter by issue type',
+    enum: ['security', 'performance', 'logic', 'style'],
+    required: false,
+  })
+  @IsIn(['security', 'performance', 'logic', 'style'])
+  @IsOptional()
+  type?: string;
+
+  @ApiProperty({
+    example: 'OPEN',
+    description: 'Filter by issue state',
+    enum: IssueState,
+    required: false,
+  })
+  @IsEnum(IssueState)
+  @IsOptional()
+  state?: IssueState;
+
+  @ApiProperty({
+    example: 'src/auth/',
+    description: 'Filter by file path (substring match)',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  file?: string;
+
+  @ApiProperty({
+    example: '3f2a9c1b7d4e',
+    description: 'Filter by issue fingerprint',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  fingerprint?: string;
+}
@@ -1,10 +1,44 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsOptional, IsString, IsDateString, IsEnum } from 'class-validator';
+import { Type } from 'class-transformer';
+import { IsOptional, IsString, IsDateString, IsEnum, IsIn, IsInt, IsNumber, Min, Max } from 'class-validator';
+import { ReviewStatus } from '@prisma/client';
 
 /**
  * DTO for querying reviews with filters
  */
 export class ReviewQueryDto {
+  @ApiProperty({
+    example: 1,
+    description: 'Page number (default: 1, ignored when a cursor is given)',
+    required: false,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  page?: number;
+
+  @ApiProperty({
+    example: 10,
+    description: 'Items per page (default: 10)',
+    required: false,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number;
+
+  @ApiProperty({
+    example: 'clx1a2b3c0000abcd1234efgh',
+    description: 'Return the reviews after this review ID (from meta.nextCursor)',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  cursor?: string;
+
   @ApiProperty({
     example: '550e8400-e29b-41d4-a716-446655440000',
     description: 'Filter by project ID',
@@ -40,6 +74,88 @@ export class ReviewQueryDto {
   @IsDateString()
   @IsOptional()
   dateTo?: string;
+
+  @ApiProperty({
+    example: 'COMPLETED',
+    description: 'Filter by review status',
+    enum: ReviewStatus,
+    required: false,
+  })
+  @IsEnum(ReviewStatus)
+  @IsOptional()
+  status?: ReviewStatus;
+
+  @ApiProperty({
+    example: 60,
+    description: 'Minimum quality score',
+    required: false,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  @IsOptional()
+  minScore?: number;
+
+  @ApiProperty({
+    example: 90,
+    description: 'Maximum quality score',
+    required: false,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  @IsOptional()
+  maxScore?: number;
+
+  @ApiProperty({
+    example: 'high',
+    description: 'Only reviews with at least one finding of this severity or above',
+    enum: ['critical', 'high', 'medium', 'low'],
+    required: false,
+  })
+  @IsIn(['critical', 'high', 'medium', 'low'])
+  @IsOptional()
+  minSeverity?: 'critical' | 'high' | 'medium' | 'low';
+
+  @ApiProperty({
+    example: 'main',
+    description: 'Filter by target branch',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  targetBranch?: string;
+
+  @ApiProperty({
+    example: 'sql injection',
+    description: 'Case-insensitive search in review titles and finding messages',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  search?: string;
+
+  @ApiProperty({
+    example: 'createdAt',
+    description: 'Sort field (default: createdAt)',
+    enum: ['createdAt', 'qualityScore', 'issuesFound'],
+    required: false,
+  })
+  @IsIn(['createdAt', 'qualityScore', 'issuesFound'])
+  @IsOptional()
+  sortBy?: 'createdAt' | 'qualityScore' | 'issuesFound';
+
+  @ApiProperty({
+    example: 'desc',
+    description: 'Sort direction (default: desc)',
+    enum: ['asc', 'desc'],
+    required: false,
+  })
+  @IsIn(['asc', 'desc'])
+  @IsOptional()
+  sortOrder?: 'asc' | 'desc';
 }
 
 /**
@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum } from 'class-validator';
+import { IssueState } from '@prisma/client';
+
+/**
+ * DTO for triaging a single review issue
+ */
+export class UpdateReviewIssueDto {
+  @ApiProperty({
+    example: 'DISMISSED',
+    description: 'New issue state',
+    enum: IssueState,
+  })
+  @IsEnum(IssueState)
+  state: IssueState;
+}
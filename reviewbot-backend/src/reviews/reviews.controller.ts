@@ -1,6 +1,8 @@
 import {
   Controller,
   Get,
+  Patch,
+  Body,
   Param,
   Query,
   UseGuards,
@@ -10,6 +12,7 @@ import {
 import { ApiTags, ApiBearerAuth, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { ReviewsService } from './reviews.service';
+import { ReviewQueryDto, ReviewIssueQueryDto, UpdateReviewIssueDto } from './dto';
 
 /**
  * Reviews Controller
@@ -24,35 +27,19 @@ export class ReviewsController {
   constructor(private readonly reviewsService: ReviewsService) {}
 
   @Get()
-  @ApiOperation({ summary: 'Get all reviews', description: 'List reviews with filters and pagination' })
-  @ApiQuery({ name: 'page', required: false, type: Number, description: 'Page number (default: 1)' })
-  @ApiQuery({ name: 'limit', required: false, type: Number, description: 'Items per page (default: 10)' })
-  @ApiQuery({ name: 'projectId', required: false, type: String, description: 'Filter by project ID' })
-  @ApiQuery({ name: 'developerId', required: false, type: String, description: 'Filter by developer ID' })
-  @ApiQuery({ name: 'dateFrom', required: false, type: String, description: 'Filter from date (ISO 8601)' })
-  @ApiQuery({ name: 'dateTo', required: false, type: String, description: 'Filter to date (ISO 8601)' })
+  @ApiOperation({
+    summary: 'Get all reviews',
+    description: 'List reviews with filters, sorting and page- or cursor-based pagination',
+  })
   @ApiResponse({ status: 200, description: 'Reviews retrieved successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid filter' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
-  async findAll(
-    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
-    @Query('limit', new DefaultValuePipe(10), ParseIntPipe) limit: number,
-    @Query('projectId') projectId?: string,
-    @Query('developerId') developerId?: string,
-    @Query('dateFrom') dateFrom?: string,
-    @Query('dateTo') dateTo?: string,
-  ) {
-    return this.reviewsService.findAll({
-      page,
-      limit,
-      projectId,
-      developerId,
-      dateFrom: dateFrom ? new Date(dateFrom) : undefined,
-      dateTo: dateTo ? new Date(dateTo) : undefined,
-    });
+  async findAll(@Query() query: ReviewQueryDto) {
+    return this.reviewsService.findAll(query);
   }
 
   @Get('stats')
-  @ApiOperation({ summary: 'Get review statistics', description: 'Aggregate statistics for reviews' })
+  @ApiOperation({ summary: 'Get review statistics', description: 'Aggregate statistics for reviews, including LLM token usage and estimated cost' })
   @ApiQuery({
     name: 'timeRange',
     required: false,
@@ -80,6 +67,37 @@ export class ReviewsController {
     return this.reviewsService.getTimeline({ projectId, developerId, days });
   }
 
+  @Get(':id/changes/:changeId/content')
+  @ApiOperation({ summary: 'Get changed file content', description: 'Old and new content of one reviewed file for the diff view' })
+  @ApiResponse({ status: 200, description: 'Content retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Code change not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getChangeContent(@Param('id') id: string, @Param('changeId') changeId: string) {
+    return this.reviewsService.getChangeContent(id, changeId);
+  }
+
+  @Get(':id/issues')
+  @ApiOperation({ summary: 'Get review issues', description: 'List the findings of a review with optional filters' })
+  @ApiResponse({ status: 200, description: 'Issues retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Review not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async findIssues(@Param('id') id: string, @Query() query: ReviewIssueQueryDto) {
+    return this.reviewsService.findIssues(id, query);
+  }
+
+  @Patch(':id/issues/:issueId')
+  @ApiOperation({ summary: 'Update review issue', description: 'Triage a finding (open, resolved or dismissed)' })
+  @ApiResponse({ status: 200, description: 'Issue updated successfully' })
+  @ApiResponse({ status: 404, description: 'Issue not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async updateIssue(
+    @Param('id') id: string,
+    @Param('issueId') issueId: string,
+    @Body() dto: UpdateReviewIssueDto,
+  ) {
+    return this.reviewsService.updateIssue(id, issueId, dto);
+  }
+
   @Get(':id')
   @ApiOperation({ summary: 'Get review by ID', description: 'Retrieve a single review with code changes' })
   @ApiResponse({ status: 200, description: 'Review retrieved successfully' })
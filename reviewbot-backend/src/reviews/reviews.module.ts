@@ -2,13 +2,14 @@ import { Module } from '@nestjs/common';
 import { ReviewsController } from './reviews.controller';
 import { ReviewsService } from './reviews.service';
 import { PrismaModule } from '../prisma/prisma.module';
+import { GitLabModule } from '../gitlab/gitlab.module';
 
 /**
  * Reviews Module
  * Handles code review queries and statistics
  */
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, GitLabModule],
   controllers: [ReviewsController],
   providers: [ReviewsService],
   exports: [ReviewsService],
@@ -1,6 +1,8 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { GitLabService } from '../gitlab/gitlab.service';
 import { Prisma } from '@prisma/client';
+import { ReviewQueryDto, ReviewIssueQueryDto, UpdateReviewIssueDto } from './dto';
 
 /**
  * Reviews Service
@@ -8,35 +10,36 @@ import { Prisma } from '@prisma/client';
  */
 @Injectable()
 export class ReviewsService {
-  constructor(private prisma: PrismaService) {}
+  private readonly logger = new Logger(ReviewsService.name);
 
-  async findAll(params: {
-    page: number;
-    limit: number;
-    projectId?: string;
-    developerId?: string;
-    dateFrom?: Date;
-    dateTo?: Date;
-  }) {
-    const { page, limit, projectId, developerId, dateFrom, dateTo } = params;
-    const skip = (page - 1) * limit;
+  constructor(
+    private prisma: PrismaService,
+    private gitlabService: GitLabService,
+  ) {}
 
-    const where: Prisma.ReviewWhereInput = {};
+  /**
+   * List reviews with filters, sorting and page- or cursor-based pagination
+   * @param query Filters, sort and pagination options
+   */
+  async findAll(query: ReviewQueryDto) {
+    const { page = 1, limit = 10, cursor, sortBy = 'createdAt', sortOrder = 'desc' } = query;
 
-    if (projectId) where.projectId = projectId;
-    if (developerId) where.developerId = developerId;
-    if (dateFrom || dateTo) {
-      where.createdAt = {};
-      if (dateFrom) where.createdAt.gte = dateFrom;
-      if (dateTo) where.createdAt.lte = dateTo;
-    }
+    const where = this.buildWhere(query);
+
+    // Review ID breaks ties so cursor pagination is stable
+    const orderBy: Prisma.ReviewOrderByWithRelationInput[] = [
+      sortBy === 'qualityScore'
+        ? { qualityScore: { sort: sortOrder, nulls: 'last' } }
+        : { [sortBy]: sortOrder },
+      { id: sortOrder },
+    ];
 
     const [reviews, total] = await Promise.all([
       this.prisma.review.findMany({
         where,
-        skip,
-        take: limit,
-        orderBy: { createdAt: 'desc' },
+        orderBy,
+        take: limit + 1,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : { skip: (page - 1) * limit }),
         include: {
           project: { select: { name: true, namespace: true } },
           developer: { select: { username: true, avatarUrl: true } },
@@ -45,17 +48,69 @@ export class ReviewsService {
       this.prisma.review.count({ where }),
     ]);
 
+    const hasMore = reviews.length > limit;
+    const data = hasMore ? reviews.slice(0, limit) : reviews;
+
     return {
-      data: reviews,
+      data,
       meta: {
         total,
         page,
         limit,
         totalPages: Math.ceil(total / limit),
+        nextCursor: hasMore ? data[data.length - 1].id : null,
       },
     };
   }
 
+  /**
+   * Translate review filters into a Prisma where clause
+   */
+  private buildWhere(query: ReviewQueryDto): Prisma.ReviewWhereInput {
+    const { projectId, developerId, dateFrom, dateTo, status, minScore, maxScore, minSeverity, targetBranch, search } = query;
+    const where: Prisma.ReviewWhereInput = {};
+
+    if (projectId) where.projectId = projectId;
+    if (developerId) where.developerId = developerId;
+    if (status) where.status = status;
+    if (targetBranch) where.targetBranch = targetBranch;
+    if (dateFrom || dateTo) {
+      where.createdAt = {};
+      if (dateFrom) where.createdAt.gte = new Date(dateFrom);
+      if (dateTo) where.createdAt.lte = new Date(dateTo);
+    }
+    if (minScore !== undefined || maxScore !== undefined) {
+      where.qualityScore = {};
+      if (minScore !== undefined) where.qualityScore.gte = minScore;
+      if (maxScore !== undefined) where.qualityScore.lte = maxScore;
+    }
+
+    const conditions: Prisma.ReviewWhereInput[] = [];
+
+    if (minSeverity) {
+      const severities = ['critical', 'high', 'medium', 'low'];
+      conditions.push({
+        issues: { some: { severity: { in: severities.slice(0, severities.indexOf(minSeverity) + 1) } } },
+      });
+    }
+
+    const text = search?.trim();
+    if (text) {
+      conditions.push({
+        OR: [
+          { title: { contains: text, mode: 'insensitive' } },
+          { issues: { some: { message: { contains: text, mode: 'insensitive' } } } },
+        ],
+      });
+    }
+
+    if (conditions.length > 0) {
+      where.AND = conditions;
+    }
+
+    return where;
+  }
+
   async findOne(id: string) {
     const review = await this.prisma.review.findUnique({
       where: { id },
@@ -73,6 +128,112 @@ export class ReviewsService {
     return review;
   }
 
+  /**
+   * Old and new content of one changed file, as reviewed
+   * Old content is read at the review's base commit, new content at its head commit
+   * @param reviewId Review ID
+   * @param changeId Code change ID
+   */
+  async getChangeContent(reviewId: string, changeId: string) {
+    const change = await this.prisma.codeChange.findFirst({
+      where: { id: changeId, reviewId },
+      include: {
+        review: {
+          select: { baseSha: true, headSha: true, project: { select: { gitlabProjectId: true } } },
+        },
+      },
+    });
+
+    if (!change) {
+      throw new NotFoundException(`Code change with ID ${changeId} not found in review ${reviewId}`);
+    }
+
+    const { baseSha, headSha, project } = change.review;
+    const [oldContent, newContent] = await Promise.all([
+      this.readFile(project.gitlabProjectId, change.oldPath, baseSha),
+      this.readFile(project.gitlabProjectId, change.newPath, headSha),
+    ]);
+
+    return {
+      id: change.id,
+      filePath: change.filePath,
+      oldPath: change.oldPath,
+      newPath: change.newPath,
+      language: change.fileType,
+      oldContent,
+      newContent,
+    };
+  }
+
+  /**
+   * Read a file at a commit, null if the file or commit is unavailable
+   */
+  private async readFile(gitlabProjectId: number, path: string | null, sha: string | null): Promise<string | null> {
+    if (!path || !sha) {
+      return null;
+    }
+
+    try {
+      return await this.gitlabService.getFileContent(gitlabProjectId, path, sha);
+    } catch (error) {
+      this.logger.warn(`Could not read ${path} at ${sha.substring(0, 8)}: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * List the issues of a review, most severe first
+   * @param reviewId Review ID
+   * @param query Optional severity/type/state/file filters
+   */
+  async findIssues(reviewId: string, query: ReviewIssueQueryDto) {
+    const review = await this.prisma.review.findUnique({
+      where: { id: reviewId },
+      select: { id: true },
+    });
+
+    if (!review) {
+      throw new NotFoundException(`Review with ID ${reviewId} not found`);
+    }
+
+    const where: Prisma.ReviewIssueWhereInput = { reviewId };
+    if (query.severity) where.severity = query.severity;
+    if (query.type) where.type = query.type;
+    if (query.state) where.state = query.state;
+    if (query.fingerprint) where.fingerprint = query.fingerprint;
+    if (query.file) where.filePath = { contains: query.file };
+
+    const issues = await this.prisma.reviewIssue.findMany({
+      where,
+      orderBy: [{ filePath: 'asc' }, { line: 'asc' }],
+    });
+
+    const severityOrder = { critical: 0, high: 1, medium: 2, low: 3 };
+    return issues.sort((a, b) => (severityOrder[a.severity] ?? 4) - (severityOrder[b.severity] ?? 4));
+  }
+
+  /**
+   * Triage a single review issue
+   * @param reviewId Review ID
+   * @param issueId Issue ID
+   * @param dto New state
+   */
+  async updateIssue(reviewId: string, issueId: string, dto: UpdateReviewIssueDto) {
+    const issue = await this.prisma.reviewIssue.findFirst({
+      where: { id: issueId, reviewId },
+      select: { id: true },
+    });
+
+    if (!issue) {
+      throw new NotFoundException(`Issue with ID ${issueId} not found in review ${reviewId}`);
+    }
+
+    return this.prisma.reviewIssue.update({
+      where: { id: issueId },
+      data: { state: dto.state },
+    });
+  }
+
   async getStats(timeRange: 'day' | 'week' | 'month' | 'year' = 'week') {
     const dateFrom = this.getDateFrom(timeRange);
 
@@ -96,21 +257,47 @@ export class ReviewsService {
       _count: true,
     });
 
-    // Get severity distribution from reviewContent JSON
-    // Note: The actual query structure depends on your reviewContent JSON format
-    const bySeverity = await this.prisma.$queryRaw<
-      Array<{ severity: string; count: bigint }>
-    >`
-      SELECT
-        jsonb_extract_path_text(issue, 'severity') as severity,
-        COUNT(*) as count
-      FROM review,
-        jsonb_array_elements(review_content -> 'issues') as issue
-      WHERE created_at >= ${dateFrom}
-        AND jsonb_extract_path_text(issue, 'severity') IS NOT NULL
-      GROUP BY severity
-      ORDER BY count DESC
-    `;
+    const bySeverity = await this.prisma.reviewIssue.groupBy({
+      by: ['severity'],
+      where: {
+        review: { createdAt: { gte: dateFrom } },
+      },
+      _count: true,
+      orderBy: { _count: { severity: 'desc' } },
+    });
+
+    // LLM usage and estimated cost of all calls in the range (reviews and thread replies)
+    const usage = await this.prisma.llmCall.aggregate({
+      where: {
+        createdAt: { gte: dateFrom },
+      },
+      _count: true,
+      _sum: {
+        promptTokens: true,
+        completionTokens: true,
+        estimatedCost: true,
+      },
+    });
+
+    const usageByProject = await this.prisma.llmCall.groupBy({
+      by: ['projectId'],
+      where: {
+        createdAt: { gte: dateFrom },
+        projectId: { not: null },
+      },
+      _count: true,
+      _sum: {
+        promptTokens: true,
+        completionTokens: true,
+        estimatedCost: true,
+      },
+    });
+
+    const projects = await this.prisma.project.findMany({
+      where: { id: { in: usageByProject.map((item) => item.projectId as string) } },
+      select: { id: true, name: true },
+    });
+    const projectNames = new Map(projects.map((project) => [project.id, project.name]));
 
     return {
       totalReviews: stats._count,
@@ -123,8 +310,24 @@ export class ReviewsService {
       })),
       bySeverity: bySeverity.map((item) => ({
         severity: item.severity,
-        count: Number(item.count),
+        count: item._count,
       })),
+      usage: {
+        calls: usage._count,
+        promptTokens: usage._sum.promptTokens || 0,
+        completionTokens: usage._sum.completionTokens || 0,
+        estimatedCost: Math.round((usage._sum.estimatedCost || 0) * 10000) / 10000,
+        byProject: usageByProject
+          .map((item) => ({
+            projectId: item.projectId as string,
+            projectName: projectNames.get(item.projectId as string) || 'Unknown',
+            calls: item._count,
+            promptTokens: item._sum.promptTokens || 0,
+            completionTokens: item._sum.completionTokens || 0,
+            estimatedCost: Math.round((item._sum.estimatedCost || 0) * 10000) / 10000,
+          }))
+          .sort((a, b) => b.estimatedCost - a.estimatedCost),
+      },
     };
   }
 
@@ -45,6 +45,11 @@ export class GitLabProjectDto {
   @IsString()
   @MaxLength(1000)
   web_url: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  default_branch?: string;
 }
 
 /**
@@ -88,6 +93,14 @@ export class MergeRequestObjectAttributesDto {
   @IsString()
   @MaxLength(50)
   action: string;
+
+  /**
+   * Previous head SHA, only present on `update` events that pushed new commits
+   */
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  oldrev?: string;
 }
 
 /**
@@ -0,0 +1,83 @@
+import { IsNotEmpty, IsNumber, IsString, IsOptional, ValidateNested, MaxLength } from 'class-validator';
+import { Type } from 'class-transformer';
+import { GitLabProjectDto, GitLabUserDto } from './merge-request-event.dto';
+
+/**
+ * GitLab Note Object Attributes
+ */
+export class NoteObjectAttributesDto {
+  @IsNumber()
+  id: number;
+
+  @IsString()
+  @MaxLength(100000)
+  note: string;
+
+  @IsString()
+  @MaxLength(50)
+  noteable_type: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  discussion_id?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  type?: string;
+}
+
+/**
+ * Merge request the note was posted on
+ */
+export class NoteMergeRequestDto {
+  @IsNumber()
+  id: number;
+
+  @IsNumber()
+  iid: number;
+
+  @IsString()
+  @MaxLength(1000)
+  title: string;
+
+  @IsString()
+  @MaxLength(255)
+  source_branch: string;
+
+  @IsString()
+  @MaxLength(255)
+  target_branch: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  url?: string;
+}
+
+/**
+ * GitLab Note (comment) Webhook Event DTO
+ */
+export class NoteEventDto {
+  @IsString()
+  @IsNotEmpty()
+  object_kind: string;
+
+  @ValidateNested()
+  @Type(() => NoteObjectAttributesDto)
+  object_attributes: NoteObjectAttributesDto;
+
+  @ValidateNested()
+  @Type(() => GitLabProjectDto)
+  project: GitLabProjectDto;
+
+  @ValidateNested()
+  @Type(() => GitLabUserDto)
+  user: GitLabUserDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NoteMergeRequestDto)
+  merge_request?: NoteMergeRequestDto;
+}
@@ -0,0 +1,436 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { ReviewStatus, IssueState, Project } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { GitLabService } from '../gitlab/gitlab.service';
+import { LlmService } from '../llm/llm.service';
+import { extractIssueFingerprint } from '../llm/issue-fingerprint';
+import { WebhooksService } from './webhooks.service';
+import { findStoredIssue, toReviewResultIssue } from './stored-issue';
+import { NoteEventDto } from './dto/note-event.dto';
+
+/**
+ * Note Commands Service
+ * Handles `/reviewbot <command>` slash-commands written in MR comments
+ * Replies are posted in the same discussion thread as the command
+ */
+@Injectable()
+export class NoteCommandsService {
+  private readonly logger = new Logger(NoteCommandsService.name);
+  private readonly COMMAND_PREFIX = '/reviewbot';
+
+  constructor(
+    private prisma: PrismaService,
+    private gitlabService: GitLabService,
+    private llmService: LlmService,
+    private webhooksService: WebhooksService,
+    @InjectQueue('note-queue') private noteQueue: Queue,
+  ) {}
+
+  /**
+   * Process GitLab Note webhook event
+   * @param payload GitLab note webhook payload
+   * @returns Executed command name or null if the note was ignored
+   */
+  async processNote(payload: NoteEventDto): Promise<string | null> {
+    const { object_attributes, project, user, merge_request } = payload;
+
+    // Only MR comments can carry commands
+    if (object_attributes.noteable_type !== 'MergeRequest' || !merge_request) {
+      return null;
+    }
+
+    const command = this.parseCommand(object_attributes.note);
+    if (!command) {
+      return null;
+    }
+
+    const projectRecord = await this.prisma.project.findUnique({
+      where: { gitlabProjectId: project.id },
+    });
+
+    if (!projectRecord || !projectRecord.isActive) {
+      this.logger.log(`Ignoring ${this.COMMAND_PREFIX} ${command.name} - project ${project.name} is not registered or inactive`);
+      return null;
+    }
+
+    this.logger.log(`Received ${this.COMMAND_PREFIX} ${command.name} from @${user.username} on MR ${merge_request.iid}`);
+
+    const context: CommandContext = {
+      project: projectRecord,
+      gitlabProjectId: project.id,
+      mergeRequest: merge_request,
+      discussionId: object_attributes.discussion_id,
+      username: user.username,
+    };
+
+    // Commands that call the LLM reply later from the note queue (null)
+    let reply: string | null;
+    switch (command.name) {
+      case 'review':
+        reply = await this.rerunReview(context, false);
+        break;
+      case 'full':
+        reply = await this.rerunReview(context, true);
+        break;
+      case 'ignore':
+        reply = await this.ignoreIssue(context, command.args[0], command.args.slice(1).join(' '));
+        break;
+      case 'explain':
+        reply = await this.queueExplanation(context, command.args[0]);
+        break;
+      case 'help':
+      case '':
+        reply = this.getHelpText();
+        break;
+      default:
+        reply = this.getHelpText(`Unknown command \`${command.name}\`.`);
+    }
+
+    if (reply) {
+      await this.reply(context, reply);
+    }
+    return command.name || 'help';
+  }
+
+  /**
+   * Parse the first `/reviewbot` line of a comment
+   * @param note Comment body
+   * @returns Command name and arguments, or null if the note has no command
+   */
+  private parseCommand(note: string): { name: string; args: string[] } | null {
+    const line = (note || '')
+      .split('\n')
+      .map((l) => l.trim())
+      .find((l) => l === this.COMMAND_PREFIX || l.startsWith(`${this.COMMAND_PREFIX} `));
+
+    if (!line) {
+      return null;
+    }
+
+    const [, name = '', ...args] = line.split(/\s+/);
+    return { name: name.toLowerCase(), args };
+  }
+
+  /**
+   * Start a new review run for the MR
+   * @param context Command context
+   * @param full Review the whole MR instead of only changes since the last run
+   * @returns Reply text
+   */
+  private async rerunReview(context: CommandContext, full: boolean): Promise<string> {
+    const { project, mergeRequest } = context;
+
+    // Current head, fetched before locking so the lock is not held during the API call
+    const headSha = full ? null : (await this.gitlabService.getMRDetails(context.gitlabProjectId, mergeRequest.iid)).headSha;
+
+    const result = await this.prisma.$transaction(async (tx) => {
+      const latestRun = await this.webhooksService.lockLatestRun(tx, mergeRequest.id, project.id);
+
+      if (!latestRun) {
+        return { reply: '⚠️ ReviewBot has not reviewed this merge request yet. A review starts automatically once the MR is opened and not a draft.' };
+      }
+
+      if (latestRun.status === ReviewStatus.PENDING || latestRun.status === ReviewStatus.PROCESSING) {
+        return { reply: `⏳ Review run #${latestRun.runNumber} is still in progress - please wait for it to finish.` };
+      }
+
+      // Incremental unless a full review was requested or nothing changed since the last run
+      let sinceSha: string | null = null;
+      if (!full) {
+        const lastReviewedSha = await this.webhooksService.findLastReviewedSha(tx, mergeRequest.id, project.id);
+        if (lastReviewedSha && headSha && headSha !== lastReviewedSha) {
+          sinceSha = lastReviewedSha;
+        }
+      }
+
+      const review = await this.webhooksService.createReviewRun(tx, latestRun, {
+        mergeRequestId: mergeRequest.id,
+        mergeRequestIid: mergeRequest.iid,
+        projectId: project.id,
+        developerId: latestRun.developerId,
+        title: mergeRequest.title,
+        description: latestRun.description,
+        sourceUrl: mergeRequest.url || latestRun.sourceUrl,
+        targetBranch: mergeRequest.target_branch,
+        sourceBranch: mergeRequest.source_branch,
+        sinceSha,
+      });
+
+      return { review, sinceSha };
+    });
+
+    if (!result.review) {
+      return result.reply;
+    }
+    const { review, sinceSha } = result;
+
+    const queued = await this.webhooksService.queueReview(
+      review.id,
+      context.gitlabProjectId,
+      mergeRequest.iid,
+      sinceSha,
+    );
+
+    if (!queued) {
+      return '❌ Could not queue the review - please try again later.';
+    }
+
+    const scope = sinceSha
+      ? `incremental review of changes since \`${sinceSha.substring(0, 8)}\``
+      : 'full review of this merge request';
+    return `🔁 Queued ${scope} (run #${review.runNumber}) as requested by @${context.username}.`;
+  }
+
+  /**
+   * Suppress a finding in future reviews of this MR
+   * @param context Command context
+   * @param fingerprintArg Fingerprint given in the command (optional inside a bot thread)
+   * @param reason Free-text reason
+   * @returns Reply text
+   */
+  private async ignoreIssue(context: CommandContext, fingerprintArg?: string, reason?: string): Promise<string> {
+    const { fingerprint, error } = await this.resolveFingerprint(context, fingerprintArg);
+    if (!fingerprint) {
+      return error || this.getHelpText('Please specify which finding to ignore, e.g. `/reviewbot ignore 3f2a9c1b7d4e`.');
+    }
+
+    await this.prisma.issueSuppression.upsert({
+      where: {
+        projectId_mergeRequestIid_fingerprint: {
+          projectId: context.project.id,
+          mergeRequestIid: context.mergeRequest.iid,
+          fingerprint,
+        },
+      },
+      update: {
+        reason: reason || null,
+        createdBy: context.username,
+      },
+      create: {
+        projectId: context.project.id,
+        mergeRequestIid: context.mergeRequest.iid,
+        fingerprint,
+        reason: reason || null,
+        createdBy: context.username,
+      },
+    });
+
+    // Stored findings of this MR are no longer open
+    await this.prisma.reviewIssue.updateMany({
+      where: {
+        fingerprint,
+        state: IssueState.OPEN,
+        review: { mergeRequestId: context.mergeRequest.id, projectId: context.project.id },
+      },
+      data: { state: IssueState.DISMISSED },
+    });
+
+    this.logger.log(`✓ Suppressed finding ${fingerprint} on MR ${context.mergeRequest.iid} for @${context.username}`);
+    return `🔕 Finding \`${fingerprint}\` will not be reported again in future reviews of this merge request.`;
+  }
+
+  /**
+   * Queue an explanation of a finding; the LLM call runs in the note queue so the
+   * webhook returns before GitLab's timeout
+   * @param context Command context
+   * @param fingerprintArg Fingerprint given in the command (optional inside a bot thread)
+   * @returns Reply text if the command was rejected, null once queued
+   */
+  private async queueExplanation(context: CommandContext, fingerprintArg?: string): Promise<string | null> {
+    const { fingerprint, error } = await this.resolveFingerprint(context, fingerprintArg);
+    if (!fingerprint) {
+      return error || this.getHelpText('Please reply inside a ReviewBot thread or specify a finding, e.g. `/reviewbot explain 3f2a9c1b7d4e`.');
+    }
+
+    try {
+      const job: ExplainJobData = {
+        gitlabProjectId: context.gitlabProjectId,
+        mergeRequestId: context.mergeRequest.id,
+        mergeRequestIid: context.mergeRequest.iid,
+        discussionId: context.discussionId,
+        username: context.username,
+        fingerprint,
+      };
+      await this.noteQueue.add('explain-issue', job, { removeOnComplete: true });
+      return null;
+    } catch (queueError) {
+      this.logger.error(`Failed to queue explanation of ${fingerprint}:`, queueError);
+      return '❌ Could not queue the explanation - please try again later.';
+    }
+  }
+
+  /**
+   * Explain a finding in more depth using the LLM and reply in the command's thread
+   * Runs in the note queue worker
+   * @param data Queued explain command
+   */
+  async explainIssue(data: ExplainJobData): Promise<void> {
+    const project = await this.prisma.project.findUnique({
+      where: { gitlabProjectId: data.gitlabProjectId },
+    });
+    if (!project || !project.isActive) {
+      return;
+    }
+
+    const context: CommandContext = {
+      project,
+      gitlabProjectId: data.gitlabProjectId,
+      mergeRequest: { id: data.mergeRequestId, iid: data.mergeRequestIid } as CommandContext['mergeRequest'],
+      discussionId: data.discussionId,
+      username: data.username,
+    };
+    await this.reply(context, await this.buildExplanation(context, data.fingerprint));
+  }
+
+  /**
+   * Explanation reply for a finding
+   */
+  private async buildExplanation(context: CommandContext, fingerprint: string): Promise<string> {
+    const stored = await findStoredIssue(this.prisma, {
+      mergeRequestId: context.mergeRequest.id,
+      projectId: context.project.id,
+      fingerprint,
+    });
+    if (!stored) {
+      return `❓ No finding with fingerprint \`${fingerprint}\` was found in the reviews of this merge request.`;
+    }
+
+    const issue = toReviewResultIssue(stored);
+    const fileContext = stored.review.headSha
+      ? await this.gitlabService.getFileContentWithContext(context.gitlabProjectId, issue.file, stored.review.headSha, issue.line, 10)
+      : undefined;
+
+    const explanation = await this.llmService.explainIssue(issue, fileContext, {
+      provider: context.project.llmProvider,
+      model: context.project.llmModel,
+      tracking: { reviewId: stored.review.id, projectId: context.project.id },
+    });
+    if (!explanation) {
+      return '⚠️ The AI reviewer is currently unavailable - please try again later.';
+    }
+
+    return `### 📖 About \`${issue.file}:${issue.line}\`
+
+${explanation}
+
+---
+*🤖 ReviewBot · requested by @${context.username}*`;
+  }
+
+  /**
+   * Resolve the fingerprint a command refers to
+   * A given fingerprint may be abbreviated and must match exactly one finding of this MR;
+   * without one, the fingerprint embedded in the thread's first (bot) note is used
+   * @returns The full fingerprint, or an error reply when the argument matches no or several findings
+   */
+  private async resolveFingerprint(context: CommandContext, fingerprintArg?: string): Promise<FingerprintMatch> {
+    if (fingerprintArg) {
+      if (!/^[a-f0-9]{6,40}$/i.test(fingerprintArg)) {
+        return { fingerprint: null, error: `❓ \`${fingerprintArg}\` is not a finding fingerprint.` };
+      }
+
+      const matches = await this.prisma.reviewIssue.findMany({
+        where: {
+          fingerprint: { startsWith: fingerprintArg.toLowerCase() },
+          review: { mergeRequestId: context.mergeRequest.id, projectId: context.project.id },
+        },
+        distinct: ['fingerprint'],
+        select: { fingerprint: true },
+        take: 2,
+      });
+
+      if (matches.length === 0) {
+        return { fingerprint: null, error: `❓ No finding with fingerprint \`${fingerprintArg}\` was found in the reviews of this merge request.` };
+      }
+      if (matches.length > 1) {
+        return { fingerprint: null, error: `❓ \`${fingerprintArg}\` matches several findings - please give more characters of the fingerprint.` };
+      }
+      return { fingerprint: matches[0].fingerprint as string };
+    }
+
+    if (!context.discussionId) {
+      return { fingerprint: null };
+    }
+
+    try {
+      const notes = await this.gitlabService.getDiscussion(
+        context.gitlabProjectId,
+        context.mergeRequest.iid,
+        context.discussionId,
+      );
+      return { fingerprint: notes.length > 0 ? extractIssueFingerprint(notes[0].body) : null };
+    } catch {
+      return { fingerprint: null };
+    }
+  }
+
+  /**
+   * Post the command reply in the same thread, or as a new comment if there is no thread
+   */
+  private async reply(context: CommandContext, text: string): Promise<void> {
+    // Hidden marker lets the follow-up handler recognise the bot's own notes
+    const body = `${text}\n\n<!-- reviewbot:command-reply -->`;
+
+    if (context.discussionId) {
+      await this.gitlabService.replyToDiscussion(
+        context.gitlabProjectId,
+        context.mergeRequest.iid,
+        context.discussionId,
+        body,
+      );
+      return;
+    }
+
+    await this.gitlabService.postMRComment(context.gitlabProjectId, context.mergeRequest.iid, body);
+  }
+
+  /**
+   * Usage text for available commands
+   * @param prefix Optional message shown above the command list
+   */
+  private getHelpText(prefix?: string): string {
+    return `${prefix ? `${prefix}\n\n` : ''}**ReviewBot commands**
+
+| Command | Description |
+|---------|-------------|
+| \`${this.COMMAND_PREFIX} review\` | Review changes pushed since the last review |
+| \`${this.COMMAND_PREFIX} full\` | Re-review the whole merge request |
+| \`${this.COMMAND_PREFIX} ignore <fingerprint> [reason]\` | Stop reporting a finding on this merge request |
+| \`${this.COMMAND_PREFIX} explain [fingerprint]\` | Explain a finding in more detail |
+
+*Inside a ReviewBot thread the fingerprint can be omitted.*`;
+  }
+}
+
+/**
+ * Context shared by command handlers
+ */
+interface CommandContext {
+  project: Project;
+  gitlabProjectId: number;
+  mergeRequest: NoteEventDto['merge_request'];
+  discussionId?: string;
+  username: string;
+}
+
+/**
+ * Fingerprint a command refers to, or why it could not be resolved
+ */
+interface FingerprintMatch {
+  fingerprint: string | null;
+  error?: string;
+}
+
+/**
+ * Queued `/reviewbot explain` command
+ */
+export interface ExplainJobData {
+  gitlabProjectId: number;
+  mergeRequestId: number;
+  mergeRequestIid: number;
+  discussionId?: string;
+  username: string;
+  fingerprint: string;
+}
@@ -0,0 +1,42 @@
+import { Process, Processor } from '@nestjs/bull';
+import { Injectable, Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import { NoteCommandsService, ExplainJobData } from './note-commands.service';
+import { ThreadFollowUpService } from './thread-follow-up.service';
+import { NoteEventDto } from './dto/note-event.dto';
+
+/**
+ * Note Processor
+ * Runs the LLM work triggered by MR comments on the note queue, so webhooks return
+ * before GitLab's timeout and are not redelivered
+ */
+@Processor('note-queue')
+@Injectable()
+export class NoteProcessor {
+  private readonly logger = new Logger(NoteProcessor.name);
+
+  constructor(
+    private noteCommandsService: NoteCommandsService,
+    private threadFollowUpService: ThreadFollowUpService,
+  ) {}
+
+  @Process('explain-issue')
+  async handleExplain(job: Job<ExplainJobData>) {
+    try {
+      await this.noteCommandsService.explainIssue(job.data);
+    } catch (error) {
+      this.logger.error(`Failed to explain finding ${job.data.fingerprint}: ${error.message}`);
+      throw error;
+    }
+  }
+
+  @Process('thread-reply')
+  async handleThreadReply(job: Job<NoteEventDto>) {
+    try {
+      return await this.threadFollowUpService.processReply(job.data);
+    } catch (error) {
+      this.logger.error(`Failed to answer reply on thread ${job.data.object_attributes.discussion_id}: ${error.message}`);
+      throw error;
+    }
+  }
+}
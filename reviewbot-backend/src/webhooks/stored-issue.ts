@@ -0,0 +1,41 @@
+import { ReviewIssue } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { BatchedCodeReviewResult } from '../llm/llm.service';
+
+/**
+ * Newest stored finding of a merge request with the given fingerprint
+ * @returns The issue row with its review run, or null if no run reported it
+ */
+export async function findStoredIssue(
+  prisma: PrismaService,
+  where: { mergeRequestId: number; projectId: string; fingerprint: string },
+): Promise<StoredIssue | null> {
+  return prisma.reviewIssue.findFirst({
+    where: {
+      fingerprint: where.fingerprint,
+      review: { mergeRequestId: where.mergeRequestId, projectId: where.projectId },
+    },
+    orderBy: [{ review: { runNumber: 'desc' } }, { createdAt: 'desc' }],
+    include: { review: { select: { id: true, headSha: true } } },
+  });
+}
+
+/**
+ * Issue shape the LLM prompts expect
+ */
+export function toReviewResultIssue(issue: ReviewIssue): BatchedCodeReviewResult['issues'][number] {
+  return {
+    file: issue.filePath,
+    line: issue.line,
+    side: issue.side === 'old' ? 'old' : 'new',
+    severity: issue.severity as BatchedCodeReviewResult['issues'][number]['severity'],
+    type: issue.type as BatchedCodeReviewResult['issues'][number]['type'],
+    message: issue.message,
+    suggestion: issue.suggestion || '',
+  };
+}
+
+/**
+ * Stored finding with the run that reported it
+ */
+export type StoredIssue = ReviewIssue & { review: { id: string; headSha: string | null } };
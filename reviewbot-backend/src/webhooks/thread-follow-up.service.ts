@@ -0,0 +1,193 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { DisputeOutcome, IssueState } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { GitLabService } from '../gitlab/gitlab.service';
+import { LlmService, DiscussionMessage } from '../llm/llm.service';
+import { extractIssueFingerprint } from '../llm/issue-fingerprint';
+import { findStoredIssue, toReviewResultIssue } from './stored-issue';
+import { NoteEventDto } from './dto/note-event.dto';
+
+/**
+ * Thread Follow-Up Service
+ * Answers developer replies on the bot's inline review threads
+ * The LLM either concedes (thread is resolved and the finding suppressed) or explains further
+ */
+@Injectable()
+export class ThreadFollowUpService {
+  private readonly logger = new Logger(ThreadFollowUpService.name);
+  private readonly MAX_BOT_REPLIES = 3;
+  private readonly REPLY_MARKER = '<!-- reviewbot:follow-up -->';
+
+  constructor(
+    private prisma: PrismaService,
+    private gitlabService: GitLabService,
+    private llmService: LlmService,
+    @InjectQueue('note-queue') private noteQueue: Queue,
+  ) {}
+
+  /**
+   * Queue a reply on an MR discussion for an answer
+   * The LLM call runs in the note queue so the webhook returns before GitLab's timeout;
+   * a redelivered hook would otherwise produce duplicate bot replies
+   * @param payload GitLab note webhook payload
+   * @returns true if the reply was queued
+   */
+  async queueReply(payload: NoteEventDto): Promise<boolean> {
+    const { object_attributes, merge_request } = payload;
+
+    if (object_attributes.noteable_type !== 'MergeRequest' || !merge_request || !object_attributes.discussion_id) {
+      return false;
+    }
+
+    // Never answer the bot's own notes (all of them carry a hidden reviewbot marker)
+    if (object_attributes.note.includes('<!-- reviewbot:')) {
+      return false;
+    }
+
+    try {
+      await this.noteQueue.add('thread-reply', payload, { removeOnComplete: true });
+      return true;
+    } catch (queueError) {
+      this.logger.error(`Failed to queue reply on thread ${object_attributes.discussion_id}:`, queueError);
+      return false;
+    }
+  }
+
+  /**
+   * Process a reply on an MR discussion
+   * Runs in the note queue worker
+   * @param payload GitLab note webhook payload
+   * @returns Verdict if the bot answered, null if the note was ignored
+   */
+  async processReply(payload: NoteEventDto): Promise<'concede' | 'maintain' | null> {
+    const { object_attributes, project, user, merge_request } = payload;
+
+    if (object_attributes.noteable_type !== 'MergeRequest' || !merge_request || !object_attributes.discussion_id) {
+      return null;
+    }
+
+    // Never answer the bot's own notes (all of them carry a hidden reviewbot marker)
+    if (object_attributes.note.includes('<!-- reviewbot:')) {
+      return null;
+    }
+    const botUserId = await this.gitlabService.getBotUserId();
+    if (botUserId !== null && user.id === botUserId) {
+      return null;
+    }
+
+    const projectRecord = await this.prisma.project.findUnique({
+      where: { gitlabProjectId: project.id },
+    });
+    if (!projectRecord || !projectRecord.isActive) {
+      return null;
+    }
+
+    // Only threads started by a bot inline comment carry a fingerprint
+    const notes = await this.gitlabService.getDiscussion(project.id, merge_request.iid, object_attributes.discussion_id);
+    const fingerprint = notes.length > 0 ? extractIssueFingerprint(notes[0].body) : null;
+    if (!fingerprint) {
+      return null;
+    }
+
+    const botReplies = notes.filter((note) => note.body.includes(this.REPLY_MARKER)).length;
+    if (botReplies >= this.MAX_BOT_REPLIES) {
+      this.logger.log(`Thread ${object_attributes.discussion_id} reached ${this.MAX_BOT_REPLIES} bot replies - not answering`);
+      return null;
+    }
+
+    // Locate the finding in the newest review run that reported it
+    const stored = await findStoredIssue(this.prisma, {
+      mergeRequestId: merge_request.id,
+      projectId: projectRecord.id,
+      fingerprint,
+    });
+    if (!stored) {
+      this.logger.warn(`No stored finding for fingerprint ${fingerprint} - not answering`);
+      return null;
+    }
+    if (stored.disputeOutcome === DisputeOutcome.CONCEDED) {
+      return null;
+    }
+
+    const issue = toReviewResultIssue(stored);
+
+    this.logger.log(`💬 @${user.username} replied on finding ${fingerprint} in MR ${merge_request.iid}`);
+
+    // Current code around the finding so the model can see if it was fixed
+    const mrDetails = await this.gitlabService.getMRDetails(project.id, merge_request.iid);
+    const fileContext = mrDetails.headSha
+      ? await this.gitlabService.getFileContentWithContext(project.id, issue.file, mrDetails.headSha, issue.line, 15)
+      : undefined;
+
+    const thread: DiscussionMessage[] = notes
+      .slice(1)
+      .filter((note) => !note.system)
+      .map((note) => ({
+        author: note.authorUsername,
+        isBot: note.body.includes('<!-- reviewbot:'),
+        body: note.body.replace(/<!--[\s\S]*?-->/g, '').trim(),
+      }));
+
+    const response = await this.llmService.respondToDiscussion(issue, thread, fileContext, {
+      provider: projectRecord.llmProvider,
+      model: projectRecord.llmModel,
+      tracking: { reviewId: stored.review.id, projectId: projectRecord.id },
+    });
+    if (!response) {
+      return null;
+    }
+
+    const conceded = response.verdict === 'concede';
+    await this.gitlabService.replyToDiscussion(
+      project.id,
+      merge_request.iid,
+      object_attributes.discussion_id,
+      `${conceded ? '✅' : '💬'} ${response.reply}\n\n${this.REPLY_MARKER}`,
+    );
+
+    if (conceded) {
+      await this.gitlabService.resolveDiscussion(project.id, merge_request.iid, object_attributes.discussion_id);
+      await this.prisma.botComment.updateMany({
+        where: { discussionId: object_attributes.discussion_id, resolvedAt: null },
+        data: { resolvedAt: new Date() },
+      });
+
+      // A conceded finding should not come back in later runs
+      await this.prisma.issueSuppression.upsert({
+        where: {
+          projectId_mergeRequestIid_fingerprint: {
+            projectId: projectRecord.id,
+            mergeRequestIid: merge_request.iid,
+            fingerprint,
+          },
+        },
+        update: {},
+        create: {
+          projectId: projectRecord.id,
+          mergeRequestIid: merge_request.iid,
+          fingerprint,
+          reason: 'Conceded in discussion',
+          createdBy: user.username,
+        },
+      });
+    }
+
+    // Record the dispute outcome on the stored issue
+    await this.prisma.reviewIssue.update({
+      where: { id: stored.id },
+      data: {
+        discussionId: object_attributes.discussion_id,
+        disputeOutcome: conceded ? DisputeOutcome.CONCEDED : DisputeOutcome.MAINTAINED,
+        disputedBy: user.username,
+        disputeReplies: { increment: 1 },
+        disputedAt: new Date(),
+        ...(conceded && { state: IssueState.DISMISSED }),
+      },
+    });
+
+    this.logger.log(`✓ ${conceded ? 'Conceded' : 'Maintained'} finding ${fingerprint} on MR ${merge_request.iid}`);
+    return response.verdict;
+  }
+}
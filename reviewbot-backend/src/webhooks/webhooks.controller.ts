@@ -9,8 +9,11 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { WebhooksService } from './webhooks.service';
+import { NoteCommandsService } from './note-commands.service';
+import { ThreadFollowUpService } from './thread-follow-up.service';
 import { GitLabWebhookGuard } from '../common/guards/gitlab-webhook.guard';
 import { MergeRequestEventDto } from './dto/merge-request-event.dto';
+import { NoteEventDto } from './dto/note-event.dto';
 
 /**
  * Webhooks Controller
@@ -20,11 +23,15 @@ import { MergeRequestEventDto } from './dto/merge-request-event.dto';
 export class WebhooksController {
   private readonly logger = new Logger(WebhooksController.name);
 
-  constructor(private readonly webhooksService: WebhooksService) {}
+  constructor(
+    private readonly webhooksService: WebhooksService,
+    private readonly noteCommandsService: NoteCommandsService,
+    private readonly threadFollowUpService: ThreadFollowUpService,
+  ) {}
 
   /**
    * GitLab webhook endpoint
-   * Receives and processes merge request events
+   * Receives and processes merge request and note (comment) events
    * @param token GitLab webhook token (validated by guard)
    * @param event GitLab event type
    * @param payload Webhook payload
@@ -41,6 +48,11 @@ export class WebhooksController {
     console.log('payload', payload);
     this.logger.log(`Received GitLab webhook: ${event}`);
 
+    // MR comments may carry /reviewbot commands
+    if (event === 'Note Hook') {
+      return this.handleNoteEvent(payload);
+    }
+
     // Only process Merge Request events
     if (event !== 'Merge Request Hook') {
       this.logger.log(`Ignoring non-MR event: ${event}`);
@@ -62,7 +74,7 @@ export class WebhooksController {
       if (!result) {
         return {
           success: true,
-          message: 'Merge request skipped (draft or closed)',
+          message: 'Merge request skipped (draft, closed or inactive project)',
           mergeRequestIid: payload.object_attributes.iid,
         };
       }
@@ -80,6 +92,39 @@ export class WebhooksController {
     }
   }
 
+  /**
+   * Process Note Hook payload for slash-commands and replies on bot threads
+   * @param payload Note webhook payload
+   * @returns Processing result
+   */
+  private async handleNoteEvent(payload: NoteEventDto) {
+    if (!payload.object_attributes || !payload.project || !payload.user) {
+      throw new BadRequestException('Invalid webhook payload structure');
+    }
+
+    try {
+      const command = await this.noteCommandsService.processNote(payload);
+      if (command) {
+        return {
+          success: true,
+          message: 'Command processed',
+          command,
+        };
+      }
+
+      // Answered from the note queue
+      const queued = await this.threadFollowUpService.queueReply(payload);
+
+      return {
+        success: true,
+        message: queued ? 'Thread reply queued' : 'Note ignored',
+      };
+    } catch (error) {
+      this.logger.error('Failed to process note webhook:', error);
+      throw error;
+    }
+  }
+
   /**
    * Health check endpoint for webhook
    * @returns Health status
@@ -2,17 +2,29 @@ import { Module } from '@nestjs/common';
 import { BullModule } from '@nestjs/bull';
 import { WebhooksController } from './webhooks.controller';
 import { WebhooksService } from './webhooks.service';
+import { NoteCommandsService } from './note-commands.service';
+import { ThreadFollowUpService } from './thread-follow-up.service';
+import { NoteProcessor } from './note-processor';
 import { PrismaModule } from '../prisma/prisma.module';
+import { GitLabModule } from '../gitlab/gitlab.module';
+import { LlmModule } from '../llm/llm.module';
+import { RepoIndexModule } from '../repo-index/repo-index.module';
 
 @Module({
   imports: [
     PrismaModule,
+    GitLabModule,
+    LlmModule,
+    RepoIndexModule,
     BullModule.registerQueue({
       name: 'review-queue',
     }),
+    BullModule.registerQueue({
+      name: 'note-queue',
+    }),
   ],
   controllers: [WebhooksController],
-  providers: [WebhooksService],
+  providers: [WebhooksService, NoteCommandsService, ThreadFollowUpService, NoteProcessor],
   exports: [WebhooksService],
 })
 export class WebhooksModule {}
@@ -1,10 +1,11 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, ForbiddenException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { InjectQueue } from '@nestjs/bull';
 import { Queue } from 'bull';
 import { PrismaService } from '../prisma/prisma.service';
-import { MergeRequestEventDto } from './dto/merge-request-event.dto';
-import { ReviewStatus } from '@prisma/client';
+import { RepoIndexService } from '../repo-index/repo-index.service';
+import { MergeRequestEventDto, GitLabProjectDto } from './dto/merge-request-event.dto';
+import { Prisma, Review, ReviewStatus } from '@prisma/client';
 
 /**
  * Webhooks Service
@@ -17,18 +18,26 @@ export class WebhooksService {
   constructor(
     private prisma: PrismaService,
     private configService: ConfigService,
+    private repoIndexService: RepoIndexService,
     @InjectQueue('review-queue') private reviewQueue: Queue,
   ) {}
 
   /**
    * Process GitLab Merge Request webhook event
    * Creates or updates project, developer, and review records
+   * New commits on an already reviewed MR start an incremental review run
+   * Merges into the default branch refresh the project's repository index
    * @param payload GitLab webhook payload
    * @returns Created review record or null if skipped
    */
   async processMergeRequest(payload: MergeRequestEventDto) {
     const { object_attributes, project, user } = payload;
 
+    if (object_attributes.action === 'merge') {
+      await this.refreshRepositoryIndex(payload);
+      return null;
+    }
+
     // Skip draft/WIP merge requests
     if (object_attributes.work_in_progress) {
       this.logger.log(`Skipping draft MR ${object_attributes.iid} in ${project.name}`);
@@ -41,6 +50,24 @@ export class WebhooksService {
       return null;
     }
 
+    // Only registered, active projects are reviewed
+    const registeredProject = await this.prisma.project.findUnique({
+      where: { gitlabProjectId: project.id },
+    });
+
+    if (registeredProject && !registeredProject.isActive) {
+      this.logger.log(`Skipping MR ${object_attributes.iid} - project ${project.name} is inactive`);
+      return null;
+    }
+
+    if (!registeredProject && !this.isAutoOnboardEnabled()) {
+      await this.recordOnboardingRequest(project);
+      this.logger.warn(`Rejected MR ${object_attributes.iid} - project ${project.name} (${project.id}) is not registered`);
+      throw new ForbiddenException(
+        `Project ${project.id} is not registered with ReviewBot; awaiting admin approval`,
+      );
+    }
+
     this.logger.log(`Processing MR ${object_attributes.iid} from ${project.name}`);
 
     try {
@@ -82,61 +109,205 @@ export class WebhooksService {
           },
         });
 
-        // Check if review already exists for this MR
-        const existingReview = await tx.review.findFirst({
-          where: {
-            mergeRequestId: object_attributes.id,
-            projectId: projectRecord.id,
-          },
-        });
+        // Find the latest review run for this MR (locked until the transaction ends)
+        const latestRun = await this.lockLatestRun(tx, object_attributes.id, projectRecord.id);
 
-        if (existingReview) {
-          this.logger.log(`Review already exists for MR ${object_attributes.iid}, skipping creation`);
-          return existingReview;
+        // Only pushes of new commits (oldrev present) start another run
+        const hasNewCommits = object_attributes.action === 'update' && !!object_attributes.oldrev;
+
+        if (latestRun && !hasNewCommits) {
+          this.logger.log(`Review already exists for MR ${object_attributes.iid} and no new commits, skipping`);
+          return { review: latestRun, sinceSha: null, isNewRun: false };
         }
 
-        // Create new review record
-        const review = await tx.review.create({
-          data: {
-            mergeRequestId: object_attributes.id,
-            mergeRequestIid: object_attributes.iid,
-            projectId: projectRecord.id,
-            developerId: developerRecord.id,
-            title: object_attributes.title,
-            description: object_attributes.description || '',
-            sourceUrl: object_attributes.url,
-            targetBranch: object_attributes.target_branch,
-            sourceBranch: object_attributes.source_branch,
-            status: ReviewStatus.PENDING,
-            reviewContent: {},
-          },
+        // Incremental runs compare against the head SHA of the last completed run;
+        // without one (first run failed or still pending) the whole MR is reviewed
+        const sinceSha = latestRun ? await this.findLastReviewedSha(tx, object_attributes.id, projectRecord.id) : null;
+
+        // Create new review run
+        const review = await this.createReviewRun(tx, latestRun, {
+          mergeRequestId: object_attributes.id,
+          mergeRequestIid: object_attributes.iid,
+          projectId: projectRecord.id,
+          developerId: developerRecord.id,
+          title: object_attributes.title,
+          description: object_attributes.description || '',
+          sourceUrl: object_attributes.url,
+          targetBranch: object_attributes.target_branch,
+          sourceBranch: object_attributes.source_branch,
+          sinceSha,
         });
 
-        this.logger.log(`✓ Created review ${review.id} for MR ${object_attributes.iid}`);
+        this.logger.log(
+          `✓ Created review ${review.id} (run #${review.runNumber}${sinceSha ? `, since ${sinceSha.substring(0, 8)}` : ''}) for MR ${object_attributes.iid}`,
+        );
 
-        return review;
+        return { review, sinceSha, isNewRun: true };
       });
 
-      // Queue review for AI processing
-      try {
-        this.logger.log(`Attempting to queue review ${result.id} for AI processing...`);
-
-        const job = await this.reviewQueue.add('process-review', {
-          reviewId: result.id,
-          projectId: project.id,
-          mergeRequestIid: object_attributes.iid,
-        });
-
-        this.logger.log(`✓ Successfully queued review ${result.id} with job ID: ${job.id}`);
-      } catch (queueError) {
-        this.logger.error(`Failed to queue review ${result.id} for processing:`, queueError);
-        // Don't throw - review was created successfully, just queuing failed
+      if (!result.isNewRun) {
+        return result.review;
       }
 
-      return result;
+      // Queue review for AI processing
+      await this.queueReview(result.review.id, project.id, object_attributes.iid, result.sinceSha);
+
+      return result.review;
     } catch (error) {
       this.logger.error(`Failed to process MR ${object_attributes.iid}:`, error);
       throw error;
     }
   }
+
+  /**
+   * Lock the review runs of an MR until the transaction ends and return the latest one
+   * Concurrent pushes and `/reviewbot review` commands wait here, so the next run number
+   * is read and inserted by one transaction at a time
+   * @param tx Open transaction
+   * @param mergeRequestId GitLab MR ID
+   * @param projectId Project record ID
+   * @returns Latest review run, or null for a new MR
+   */
+  async lockLatestRun(tx: Prisma.TransactionClient, mergeRequestId: number, projectId: string): Promise<Review | null> {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(${mergeRequestId}::bigint)`;
+
+    return tx.review.findFirst({
+      where: { mergeRequestId, projectId },
+      orderBy: { runNumber: 'desc' },
+    });
+  }
+
+  /**
+   * Head SHA of the last completed run of an MR, the only valid baseline of an incremental run
+   * @param tx Open transaction
+   * @param mergeRequestId GitLab MR ID
+   * @param projectId Project record ID
+   * @returns Head SHA, or null if no run has completed yet
+   */
+  async findLastReviewedSha(tx: Prisma.TransactionClient, mergeRequestId: number, projectId: string): Promise<string | null> {
+    const lastReviewed = await tx.review.findFirst({
+      where: {
+        mergeRequestId,
+        projectId,
+        status: ReviewStatus.COMPLETED,
+        headSha: { not: null },
+      },
+      orderBy: { runNumber: 'desc' },
+    });
+
+    return lastReviewed?.headSha || null;
+  }
+
+  /**
+   * Create the next pending review run of an MR
+   * Must run in the transaction that called lockLatestRun
+   * @param tx Open transaction
+   * @param latestRun Latest run returned by lockLatestRun
+   * @param data Run details; a sinceSha makes the run incremental
+   * @returns Created review run
+   */
+  async createReviewRun(
+    tx: Prisma.TransactionClient,
+    latestRun: Review | null,
+    data: Omit<Prisma.ReviewUncheckedCreateInput, 'runNumber' | 'status' | 'reviewContent' | 'isIncremental'>,
+  ): Promise<Review> {
+    return tx.review.create({
+      data: {
+        ...data,
+        status: ReviewStatus.PENDING,
+        reviewContent: {},
+        runNumber: latestRun ? latestRun.runNumber + 1 : 1,
+        isIncremental: !!data.sinceSha,
+      },
+    });
+  }
+
+  /**
+   * Queue a review run for AI processing
+   * Queue failures are logged but not thrown - the review record already exists
+   * @param reviewId Review run ID
+   * @param gitlabProjectId GitLab project ID
+   * @param mergeRequestIid MR IID
+   * @param sinceSha Last reviewed head SHA for incremental runs
+   * @returns true if the job was queued
+   */
+  async queueReview(
+    reviewId: string,
+    gitlabProjectId: number,
+    mergeRequestIid: number,
+    sinceSha?: string | null,
+  ): Promise<boolean> {
+    try {
+      this.logger.log(`Attempting to queue review ${reviewId} for AI processing...`);
+
+      const job = await this.reviewQueue.add('process-review', {
+        reviewId,
+        projectId: gitlabProjectId,
+        mergeRequestIid,
+        sinceSha: sinceSha || undefined,
+      });
+
+      this.logger.log(`✓ Successfully queued review ${reviewId} with job ID: ${job.id}`);
+      return true;
+    } catch (queueError) {
+      this.logger.error(`Failed to queue review ${reviewId} for processing:`, queueError);
+      return false;
+    }
+  }
+
+  /**
+   * Queue an incremental index refresh when an MR is merged into the default branch
+   * @param payload GitLab webhook payload of the merge
+   */
+  private async refreshRepositoryIndex(payload: MergeRequestEventDto) {
+    const { object_attributes, project } = payload;
+
+    const registeredProject = await this.prisma.project.findUnique({
+      where: { gitlabProjectId: project.id },
+    });
+    if (!registeredProject?.indexEnabled || !registeredProject.isActive) {
+      return;
+    }
+
+    if (project.default_branch && object_attributes.target_branch !== project.default_branch) {
+      this.logger.log(`MR ${object_attributes.iid} merged into ${object_attributes.target_branch} - repository index not refreshed`);
+      return;
+    }
+
+    await this.repoIndexService.queueRefresh(project.id);
+  }
+
+  /**
+   * Whether hooks from unknown projects should register the project automatically
+   */
+  private isAutoOnboardEnabled(): boolean {
+    return this.configService.get<string>('AUTO_ONBOARD_PROJECTS') === 'true';
+  }
+
+  /**
+   * Record a hook from an unregistered project so an admin can approve it
+   * @param project GitLab project from webhook payload
+   */
+  private async recordOnboardingRequest(project: GitLabProjectDto) {
+    try {
+      await this.prisma.projectOnboardingRequest.upsert({
+        where: { gitlabProjectId: project.id },
+        update: {
+          name: project.name,
+          namespace: project.namespace,
+          webUrl: project.web_url,
+          hookCount: { increment: 1 },
+          lastSeenAt: new Date(),
+        },
+        create: {
+          gitlabProjectId: project.id,
+          name: project.name,
+          namespace: project.namespace,
+          webUrl: project.web_url,
+        },
+      });
+    } catch (error) {
+      this.logger.error(`Failed to record onboarding request for project ${project.id}:`, error);
+    }
+  }
 }
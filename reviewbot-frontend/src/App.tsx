@@ -6,6 +6,7 @@ import LoginPage from '@/pages/LoginPage';
 import DashboardPage from '@/pages/DashboardPage';
 import ProjectsPage from '@/pages/ProjectsPage';
 import ReviewsPage from '@/pages/ReviewsPage';
+import ReviewDetailPage from '@/pages/ReviewDetailPage';
 import DevelopersPage from '@/pages/DevelopersPage';
 
 function App() {
@@ -24,6 +25,7 @@ function App() {
           <Route index element={<DashboardPage />} />
           <Route path="projects" element={<ProjectsPage />} />
           <Route path="reviews" element={<ReviewsPage />} />
+          <Route path="reviews/:id" element={<ReviewDetailPage />} />
           <Route path="developers" element={<DevelopersPage />} />
         </Route>
       </Routes>
@@ -47,6 +47,8 @@ const MetricCard = ({ title, value, trend, icon, iconBgColor, iconColor }: Metri
   );
 };
 
+const formatCost = (cost: number) => `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
 export const MetricsOverview = () => {
   const { data: stats, isLoading, error } = useDashboardStats('week');
 
@@ -123,6 +125,32 @@ export const MetricsOverview = () => {
         ))}
       </div>
 
+      {stats.usage && stats.usage.calls > 0 && (
+        <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-theme-sm dark:border-gray-800 dark:bg-gray-dark">
+          <div className="mb-4 flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white">LLM Usage</h3>
+            <span className="text-sm text-gray-500 dark:text-gray-400">
+              {stats.usage.calls.toLocaleString()} calls ·{' '}
+              {(stats.usage.promptTokens + stats.usage.completionTokens).toLocaleString()} tokens ·{' '}
+              <span className="font-semibold text-gray-900 dark:text-white">
+                {formatCost(stats.usage.estimatedCost)}
+              </span>
+            </span>
+          </div>
+          <div className="space-y-2">
+            {stats.usage.byProject.map((item) => (
+              <div key={item.projectId} className="flex items-center justify-between text-sm">
+                <span className="truncate text-gray-700 dark:text-gray-300">{item.projectName}</span>
+                <span className="text-gray-500 dark:text-gray-400">
+                  {(item.promptTokens + item.completionTokens).toLocaleString()} tokens ·{' '}
+                  {formatCost(item.estimatedCost)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {stats.bySeverity.length > 0 && (
         <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-theme-sm dark:border-gray-800 dark:bg-gray-dark">
           <h3 className="mb-4 text-sm font-semibold text-gray-900 dark:text-white">Issues by Severity</h3>
@@ -99,9 +99,12 @@ export const RecentReviews = () => {
                 <div className="flex-1 min-w-0">
                   <div className="flex items-start justify-between gap-2">
                     <div className="flex-1 min-w-0">
-                      <h4 className="font-medium text-gray-900 dark:text-white truncate">
+                      <Link
+                        to={`/reviews/${review.id}`}
+                        className="block font-medium text-gray-900 hover:text-brand-500 dark:text-white dark:hover:text-brand-400 truncate"
+                      >
                         {review?.title || 'Untitled Review'}
-                      </h4>
+                      </Link>
                       <div className="mt-1 flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
                         <span className="truncate">
                           {review?.project?.namespace || 'unknown'}/{review?.project?.name || 'unknown'}
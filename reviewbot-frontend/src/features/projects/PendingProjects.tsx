@@ -0,0 +1,82 @@
+import { Clock, Check, X, ExternalLink } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import {
+  useOnboardingRequests,
+  useApproveOnboardingRequest,
+  useDismissOnboardingRequest,
+} from '@/hooks/api/useProjects';
+import { Badge } from '@/components/ui/badge';
+
+export const PendingProjects = () => {
+  const { data: requests, isLoading } = useOnboardingRequests();
+  const approveRequest = useApproveOnboardingRequest();
+  const dismissRequest = useDismissOnboardingRequest();
+
+  if (isLoading || !requests || requests.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-6 rounded-xl border border-warning-200 bg-warning-50 p-6 dark:border-warning-800 dark:bg-warning-900/20">
+      <div className="flex items-center gap-2">
+        <Clock className="h-5 w-5 text-warning-600 dark:text-warning-400" />
+        <h2 className="font-semibold text-gray-900 dark:text-white">Pending approval</h2>
+        <Badge variant="warning">{requests.length}</Badge>
+      </div>
+      <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+        These projects sent webhooks but are not registered. Approve a project to start reviewing its merge requests.
+      </p>
+
+      <div className="mt-4 space-y-3">
+        {requests.map((request) => (
+          <div
+            key={request.id}
+            className="flex items-center justify-between rounded-lg border border-gray-200 bg-white p-4 dark:border-gray-800 dark:bg-gray-dark"
+          >
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-2">
+                <h3 className="truncate font-medium text-gray-900 dark:text-white">
+                  {request.namespace}/{request.name}
+                </h3>
+                {request.webUrl && (
+                  <a
+                    href={request.webUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-brand-500 hover:text-brand-600 dark:hover:text-brand-400"
+                  >
+                    <ExternalLink className="h-4 w-4" />
+                  </a>
+                )}
+              </div>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                GitLab Project ID: {request.gitlabProjectId} · {request.hookCount}{' '}
+                {request.hookCount === 1 ? 'hook' : 'hooks'} rejected · last seen{' '}
+                {format(parseISO(request.lastSeenAt), 'MMM d, HH:mm')}
+              </p>
+            </div>
+
+            <div className="ml-4 flex gap-2">
+              <button
+                onClick={() => approveRequest.mutate({ id: request.id })}
+                disabled={approveRequest.isPending}
+                className="flex items-center gap-1 rounded-lg bg-brand-500 px-3 py-2 text-sm font-medium text-white hover:bg-brand-600 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                <Check className="h-4 w-4" />
+                Approve
+              </button>
+              <button
+                onClick={() => dismissRequest.mutate(request.id)}
+                disabled={dismissRequest.isPending}
+                className="flex items-center gap-1 rounded-lg border border-gray-300 px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-gray-700 dark:text-gray-400 dark:hover:bg-gray-800"
+              >
+                <X className="h-4 w-4" />
+                Dismiss
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,19 +1,44 @@
 import { useState, useEffect } from 'react';
-import ReactDiffViewer, { DiffMethod } from 'react-diff-viewer-continued';
+import ReactDiffViewer, { DiffMethod, LineNumberPrefix } from 'react-diff-viewer-continued';
 import { FileCode, SplitSquareVertical, LayoutGrid } from 'lucide-react';
 
+/**
+ * Note anchored to a line of the new file, or of the old file for removed lines
+ */
+export interface DiffAnnotation {
+  id: string;
+  line: number;
+  side?: 'new' | 'old';
+  severity: 'critical' | 'high' | 'medium' | 'low';
+  title: string;
+  message: string;
+}
+
 interface CodeDiffViewerProps {
   oldValue: string;
   newValue: string;
   fileName?: string;
   language?: string;
+  annotations?: DiffAnnotation[];
+  showDiffOnly?: boolean;
 }
 
+const severityDotColors = {
+  critical: 'bg-error-500',
+  high: 'bg-warning-500',
+  medium: 'bg-yellow-400',
+  low: 'bg-blue-400',
+};
+
+const severityRank = { critical: 0, high: 1, medium: 2, low: 3 };
+
 export const CodeDiffViewer = ({
   oldValue,
   newValue,
   fileName,
   language = 'javascript',
+  annotations = [],
+  showDiffOnly = false,
 }: CodeDiffViewerProps) => {
   const [splitView, setSplitView] = useState(true);
   const [isDark, setIsDark] = useState(false);
@@ -93,6 +118,55 @@ export const CodeDiffViewer = ({
     },
   };
 
+  // Annotations keyed like the viewer's line ids: "R-<new line>" or "L-<old line>"
+  const lineKey = (annotation: DiffAnnotation) =>
+    `${annotation.side === 'old' ? LineNumberPrefix.LEFT : LineNumberPrefix.RIGHT}-${annotation.line}`;
+  const annotationsByLine = new Map<string, DiffAnnotation[]>();
+  for (const annotation of annotations) {
+    const key = lineKey(annotation);
+    annotationsByLine.set(key, [...(annotationsByLine.get(key) || []), annotation]);
+  }
+  const annotatedLines = [...annotationsByLine.keys()];
+
+  const renderGutter = ({
+    lineNumber,
+    prefix,
+    additionalLineNumber,
+    additionalPrefix,
+  }: {
+    lineNumber: number;
+    prefix: LineNumberPrefix;
+    additionalLineNumber: number;
+    additionalPrefix: LineNumberPrefix;
+  }) => {
+    // Unified view passes the new-file line number as the additional one
+    const newLine =
+      prefix === LineNumberPrefix.RIGHT
+        ? lineNumber || additionalLineNumber
+        : additionalPrefix === LineNumberPrefix.RIGHT
+          ? additionalLineNumber
+          : undefined;
+    const oldLine = prefix === LineNumberPrefix.LEFT ? lineNumber : undefined;
+    const lineAnnotations = [
+      ...((newLine && annotationsByLine.get(`${LineNumberPrefix.RIGHT}-${newLine}`)) || []),
+      ...((oldLine && annotationsByLine.get(`${LineNumberPrefix.LEFT}-${oldLine}`)) || []),
+    ];
+
+    if (lineAnnotations.length === 0) {
+      return <td className="w-5" />;
+    }
+
+    const top = [...lineAnnotations].sort((a, b) => severityRank[a.severity] - severityRank[b.severity])[0];
+    return (
+      <td className="w-5 text-center align-middle">
+        <span
+          title={lineAnnotations.map((a) => `${a.title}: ${a.message}`).join('\n\n')}
+          className={`inline-block h-2.5 w-2.5 rounded-full ${severityDotColors[top.severity]}`}
+        />
+      </td>
+    );
+  };
+
   return (
     <div className="rounded-xl border border-gray-200 bg-white shadow-theme-sm dark:border-gray-800 dark:bg-gray-dark">
       <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4 dark:border-gray-800">
@@ -142,9 +216,35 @@ export const CodeDiffViewer = ({
           styles={customStyles}
           leftTitle="Before"
           rightTitle="After"
-          showDiffOnly={false}
+          showDiffOnly={showDiffOnly}
+          highlightLines={annotatedLines}
+          alwaysShowLines={annotatedLines}
+          renderGutter={annotations.length > 0 ? renderGutter : undefined}
         />
       </div>
+
+      {annotations.length > 0 && (
+        <div className="divide-y divide-gray-200 border-t border-gray-200 dark:divide-gray-800 dark:border-gray-800">
+          {[...annotations]
+            .sort((a, b) => a.line - b.line)
+            .map((annotation) => (
+              <div key={annotation.id} className="flex items-start gap-3 px-6 py-3">
+                <span
+                  className={`mt-1.5 inline-block h-2.5 w-2.5 flex-shrink-0 rounded-full ${severityDotColors[annotation.severity]}`}
+                />
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">
+                    Line {annotation.line}
+                    {annotation.side === 'old' && ' (removed)'} · {annotation.title}
+                  </p>
+                  <p className="mt-1 whitespace-pre-wrap text-sm text-gray-600 dark:text-gray-400">
+                    {annotation.message}
+                  </p>
+                </div>
+              </div>
+            ))}
+        </div>
+      )}
     </div>
   );
 };
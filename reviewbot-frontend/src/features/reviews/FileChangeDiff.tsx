@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, FileCode } from 'lucide-react';
+import { useCodeChangeContent } from '@/hooks/api/useReviews';
+import { CodeDiffViewer, type DiffAnnotation } from './CodeDiffViewer';
+import type { CodeChange, ReviewIssue } from '@/types';
+
+interface FileChangeDiffProps {
+  reviewId: string;
+  change: CodeChange;
+  issues: ReviewIssue[];
+  defaultOpen?: boolean;
+}
+
+const toAnnotation = (issue: ReviewIssue): DiffAnnotation => ({
+  id: issue.id,
+  line: issue.line,
+  side: issue.side,
+  severity: issue.severity,
+  title: `${issue.severity.toUpperCase()} ${issue.type}${issue.state !== 'OPEN' ? ` (${issue.state.toLowerCase()})` : ''}`,
+  message: issue.suggestion ? `${issue.message}\n\nSuggested fix:\n${issue.suggestion}` : issue.message,
+});
+
+/**
+ * Collapsible diff of one reviewed file
+ * File content is only fetched once the file is opened
+ */
+export const FileChangeDiff = ({ reviewId, change, issues, defaultOpen = false }: FileChangeDiffProps) => {
+  const [open, setOpen] = useState(defaultOpen);
+  const { data: content, isLoading, error } = useCodeChangeContent(reviewId, open ? change.id : undefined);
+
+  const hasContent = content && (content.oldContent !== null || content.newContent !== null);
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white shadow-theme-sm dark:border-gray-800 dark:bg-gray-dark">
+      <button
+        onClick={() => setOpen((o) => !o)}
+        className="flex w-full items-center justify-between px-6 py-4 text-left"
+      >
+        <div className="flex min-w-0 items-center gap-3">
+          {open ? (
+            <ChevronDown className="h-4 w-4 flex-shrink-0 text-gray-400" />
+          ) : (
+            <ChevronRight className="h-4 w-4 flex-shrink-0 text-gray-400" />
+          )}
+          <FileCode className="h-5 w-5 flex-shrink-0 text-brand-500" />
+          <span className="truncate font-medium text-gray-900 dark:text-white">{change.filePath}</span>
+        </div>
+        <div className="ml-4 flex flex-shrink-0 items-center gap-3 text-sm">
+          {issues.length > 0 && (
+            <span className="text-warning-600 dark:text-warning-400">
+              {issues.length} {issues.length === 1 ? 'issue' : 'issues'}
+            </span>
+          )}
+          <span className="text-success-600 dark:text-success-400">+{change.additions}</span>
+          <span className="text-error-600 dark:text-error-400">-{change.deletions}</span>
+        </div>
+      </button>
+
+      {open && (
+        <div className="border-t border-gray-200 p-4 dark:border-gray-800">
+          {isLoading ? (
+            <div className="h-48 animate-pulse rounded-lg bg-gray-100 dark:bg-gray-800" />
+          ) : hasContent ? (
+            <CodeDiffViewer
+              oldValue={content.oldContent || ''}
+              newValue={content.newContent || ''}
+              fileName={change.filePath}
+              language={content.language || change.fileType || undefined}
+              annotations={issues.map(toAnnotation)}
+              showDiffOnly
+            />
+          ) : (
+            // File content is no longer available in GitLab - fall back to the stored diff
+            <div>
+              {error && (
+                <p className="mb-2 text-sm text-gray-500 dark:text-gray-400">
+                  File content could not be loaded, showing the stored diff.
+                </p>
+              )}
+              <pre className="overflow-x-auto rounded-lg bg-gray-50 p-4 text-xs text-gray-800 dark:bg-gray-900 dark:text-gray-200">
+                {change.diff}
+              </pre>
+              {issues.map((issue) => (
+                <p key={issue.id} className="mt-2 text-sm text-gray-700 dark:text-gray-300">
+                  <span className="font-medium">
+                    Line {issue.line}
+                    {issue.side === 'old' && ' (removed)'}:
+                  </span> {issue.message}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiClient } from '@/api/client';
-import type { Project, PaginatedResponse, CreateProjectDto, UpdateProjectDto, ProjectMetrics } from '@/types';
+import type { Project, PaginatedResponse, CreateProjectDto, UpdateProjectDto, ProjectMetrics, ProjectOnboardingRequest } from '@/types';
 
 interface UseProjectsParams {
   page?: number;
@@ -81,3 +81,43 @@ export const useDeleteProject = () => {
     },
   });
 };
+
+export const useOnboardingRequests = () => {
+  return useQuery({
+    queryKey: ['project-onboarding-requests'],
+    queryFn: async () => {
+      const { data } = await apiClient.get<ProjectOnboardingRequest[]>('/api/projects/onboarding-requests');
+      return data;
+    },
+  });
+};
+
+export const useApproveOnboardingRequest = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, webhookSecret }: { id: string; webhookSecret?: string }) => {
+      const { data } = await apiClient.post<Project>(`/api/projects/onboarding-requests/${id}/approve`, {
+        ...(webhookSecret && { webhookSecret }),
+      });
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['project-onboarding-requests'] });
+      queryClient.invalidateQueries({ queryKey: ['projects'] });
+    },
+  });
+};
+
+export const useDismissOnboardingRequest = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await apiClient.delete(`/api/projects/onboarding-requests/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['project-onboarding-requests'] });
+    },
+  });
+};
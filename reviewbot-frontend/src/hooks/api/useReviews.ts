@@ -1,14 +1,25 @@
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useInfiniteQuery } from '@tanstack/react-query';
 import { apiClient } from '@/api/client';
-import type { Review, PaginatedResponse } from '@/types';
+import type { Review, ReviewStatus, PaginatedResponse, CodeChangeContent, ReviewIssue } from '@/types';
 
-interface UseReviewsParams {
-  page?: number;
-  limit?: number;
+export interface ReviewFilters {
   projectId?: string;
   developerId?: string;
   dateFrom?: string;
   dateTo?: string;
+  status?: ReviewStatus;
+  minScore?: number;
+  maxScore?: number;
+  minSeverity?: 'critical' | 'high' | 'medium' | 'low';
+  targetBranch?: string;
+  search?: string;
+  sortBy?: 'createdAt' | 'qualityScore' | 'issuesFound';
+  sortOrder?: 'asc' | 'desc';
+}
+
+interface UseReviewsParams extends ReviewFilters {
+  page?: number;
+  limit?: number;
 }
 
 export const useReviews = (params?: UseReviewsParams) => {
@@ -21,6 +32,20 @@ export const useReviews = (params?: UseReviewsParams) => {
   });
 };
 
+export const useInfiniteReviews = (filters: ReviewFilters, limit: number = 20) => {
+  return useInfiniteQuery({
+    queryKey: ['reviews-infinite', filters, limit],
+    queryFn: async ({ pageParam }) => {
+      const { data } = await apiClient.get<PaginatedResponse<Review>>('/api/reviews', {
+        params: { ...filters, limit, cursor: pageParam },
+      });
+      return data;
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.meta.nextCursor || undefined,
+  });
+};
+
 export const useReview = (id: string) => {
   return useQuery({
     queryKey: ['review', id],
@@ -32,6 +57,31 @@ export const useReview = (id: string) => {
   });
 };
 
+export const useReviewIssues = (reviewId: string) => {
+  return useQuery({
+    queryKey: ['review-issues', reviewId],
+    queryFn: async () => {
+      const { data } = await apiClient.get<ReviewIssue[]>(`/api/reviews/${reviewId}/issues`);
+      return data;
+    },
+    enabled: !!reviewId,
+  });
+};
+
+export const useCodeChangeContent = (reviewId: string, changeId?: string) => {
+  return useQuery({
+    queryKey: ['code-change-content', reviewId, changeId],
+    queryFn: async () => {
+      const { data } = await apiClient.get<CodeChangeContent>(
+        `/api/reviews/${reviewId}/changes/${changeId}/content`,
+      );
+      return data;
+    },
+    enabled: !!reviewId && !!changeId,
+    staleTime: Infinity, // Content at a fixed commit never changes
+  });
+};
+
 export const useReviewStats = (timeRange?: 'day' | 'week' | 'month' | 'year') => {
   return useQuery({
     queryKey: ['review-stats', timeRange],
@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { useProjects } from '@/hooks/api/useProjects';
 import { FolderOpen, ExternalLink, TrendingUp, FileCheck, AlertTriangle } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
+import { PendingProjects } from '@/features/projects/PendingProjects';
 
 export default function ProjectsPage() {
   const [page, setPage] = useState(1);
@@ -61,6 +62,8 @@ export default function ProjectsPage() {
       </div>
 
       <div className="mx-auto max-w-7xl px-4 sm:px-6 md:px-8">
+        <PendingProjects />
+
         {projects.length === 0 ? (
           <div className="mt-6 rounded-xl border border-gray-200 bg-white p-12 text-center dark:border-gray-800 dark:bg-gray-dark">
             <FolderOpen className="mx-auto h-12 w-12 text-gray-400" />
@@ -125,6 +128,18 @@ export default function ProjectsPage() {
                     <Badge variant={project.isActive ? 'success' : 'secondary'}>
                       {project.isActive ? 'Active' : 'Inactive'}
                     </Badge>
+                    {project.llmProvider && (
+                      <Badge variant="secondary">
+                        {project.llmProvider}
+                        {project.llmModel && ` · ${project.llmModel}`}
+                      </Badge>
+                    )}
+                    {project.gateEnabled && <Badge variant="warning">Quality gate</Badge>}
+                    {project.indexEnabled && (
+                      <Badge variant="secondary">
+                        {project.indexedSha ? `Indexed · ${project.indexedSha.substring(0, 8)}` : 'Indexing…'}
+                      </Badge>
+                    )}
                     <a
                       href={`https://gitlab.com/${project.namespace}/${project.name}`}
                       target="_blank"
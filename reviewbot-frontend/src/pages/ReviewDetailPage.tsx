@@ -0,0 +1,309 @@
+import { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import {
+  ArrowLeft,
+  ExternalLink,
+  GitBranch,
+  Filter,
+  AlertCircle,
+  CheckCircle,
+  Clock,
+  XCircle,
+} from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useReview, useReviewIssues } from '@/hooks/api/useReviews';
+import { FileChangeDiff } from '@/features/reviews/FileChangeDiff';
+import { Badge } from '@/components/ui/badge';
+import type { ReviewIssue, ReviewStatus } from '@/types';
+
+type Severity = ReviewIssue['severity'];
+type IssueType = ReviewIssue['type'];
+
+// Points deducted per finding, as scored by the review processor
+const SEVERITY_IMPACT: Record<Severity, number> = { critical: 15, high: 10, medium: 5, low: 2 };
+const SEVERITIES: Severity[] = ['critical', 'high', 'medium', 'low'];
+const ISSUE_TYPES: IssueType[] = ['security', 'performance', 'logic', 'style'];
+
+// Files opened automatically; the rest load their content on demand
+const MAX_OPEN_FILES = 5;
+
+const severityColors: Record<Severity, string> = {
+  critical: 'bg-error-100 text-error-700 dark:bg-error-900/20 dark:text-error-400',
+  high: 'bg-warning-100 text-warning-700 dark:bg-warning-900/20 dark:text-warning-400',
+  medium: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/20 dark:text-yellow-400',
+  low: 'bg-blue-100 text-blue-700 dark:bg-blue-900/20 dark:text-blue-400',
+};
+
+const getStatusConfig = (status: ReviewStatus) => {
+  switch (status) {
+    case 'COMPLETED':
+      return { icon: <CheckCircle className="h-4 w-4" />, label: 'Completed', variant: 'success' as const };
+    case 'PROCESSING':
+      return { icon: <Clock className="h-4 w-4" />, label: 'Processing', variant: 'warning' as const };
+    case 'PENDING':
+      return { icon: <Clock className="h-4 w-4" />, label: 'Pending', variant: 'default' as const };
+    case 'FAILED':
+      return { icon: <XCircle className="h-4 w-4" />, label: 'Failed', variant: 'destructive' as const };
+    case 'SKIPPED':
+      return { icon: <AlertCircle className="h-4 w-4" />, label: 'Skipped', variant: 'secondary' as const };
+  }
+};
+
+export default function ReviewDetailPage() {
+  const { id = '' } = useParams<{ id: string }>();
+  const { data: review, isLoading, error } = useReview(id);
+  const { data: issues = [] } = useReviewIssues(id);
+  const [severityFilter, setSeverityFilter] = useState<Severity | ''>('');
+  const [typeFilter, setTypeFilter] = useState<IssueType | ''>('');
+
+  if (isLoading) {
+    return (
+      <div className="py-6">
+        <div className="mx-auto max-w-7xl space-y-4 px-4 sm:px-6 md:px-8">
+          {[1, 2, 3].map((i) => (
+            <div
+              key={i}
+              className="h-40 animate-pulse rounded-xl border border-gray-200 bg-gray-100 dark:border-gray-800 dark:bg-gray-800"
+            />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !review) {
+    return (
+      <div className="py-6">
+        <div className="mx-auto max-w-7xl px-4 sm:px-6 md:px-8">
+          <Link to="/reviews" className="flex items-center gap-2 text-sm text-brand-500 hover:text-brand-600">
+            <ArrowLeft className="h-4 w-4" />
+            Back to reviews
+          </Link>
+          <div className="mt-6 rounded-xl border border-error-200 bg-error-50 p-6 dark:border-error-800 dark:bg-error-900/20">
+            <p className="text-sm text-error-600 dark:text-error-400">Failed to load review. Please try again.</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const statusConfig = getStatusConfig(review.status);
+  const changes = review.codeChanges || [];
+  const changedFiles = new Set(changes.map((change) => change.filePath));
+
+  const filteredIssues = issues.filter(
+    (issue) => (!severityFilter || issue.severity === severityFilter) && (!typeFilter || issue.type === typeFilter),
+  );
+  const issuesByFile = filteredIssues.reduce(
+    (acc, issue) => {
+      (acc[issue.filePath] ||= []).push(issue);
+      return acc;
+    },
+    {} as Record<string, ReviewIssue[]>,
+  );
+  // Findings on files without a stored diff (e.g. reviews from before diffs were stored)
+  const unanchoredIssues = filteredIssues.filter((issue) => !changedFiles.has(issue.filePath));
+
+  // Files with findings first so they are opened automatically
+  const sortedChanges = [...changes].sort(
+    (a, b) => (issuesByFile[b.filePath]?.length || 0) - (issuesByFile[a.filePath]?.length || 0),
+  );
+
+  const breakdown = SEVERITIES.map((severity) => {
+    const count = issues.filter((issue) => issue.severity === severity).length;
+    return { severity, count, deduction: count * SEVERITY_IMPACT[severity] };
+  });
+
+  return (
+    <div className="py-6">
+      <div className="mx-auto max-w-7xl px-4 sm:px-6 md:px-8">
+        <Link to="/reviews" className="flex items-center gap-2 text-sm text-brand-500 hover:text-brand-600">
+          <ArrowLeft className="h-4 w-4" />
+          Back to reviews
+        </Link>
+
+        <div className="mt-4 flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h1 className="text-title-lg font-semibold text-gray-900 dark:text-white">{review.title}</h1>
+            <div className="mt-2 flex flex-wrap items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+              {review.project && (
+                <span>
+                  {review.project.namespace}/{review.project.name}
+                </span>
+              )}
+              <span>•</span>
+              <span>!{review.mergeRequestIid}</span>
+              {review.developer?.username && (
+                <>
+                  <span>•</span>
+                  <span>@{review.developer.username}</span>
+                </>
+              )}
+              <span>•</span>
+              <span className="flex items-center gap-1">
+                <GitBranch className="h-4 w-4" />
+                {review.sourceBranch} → {review.targetBranch}
+              </span>
+              <span>•</span>
+              <span>{format(parseISO(review.createdAt), 'PPp')}</span>
+            </div>
+            <div className="mt-3 flex flex-wrap items-center gap-2">
+              <Badge variant={statusConfig.variant}>
+                <div className="flex items-center gap-1">
+                  {statusConfig.icon}
+                  {statusConfig.label}
+                </div>
+              </Badge>
+              <Badge variant="secondary">Run #{review.runNumber}</Badge>
+              {review.isIncremental && review.sinceSha && (
+                <Badge variant="secondary">Incremental since {review.sinceSha.substring(0, 8)}</Badge>
+              )}
+              {review.parseFailures > 0 && (
+                <Badge variant="warning">
+                  Incomplete: {review.parseFailures} unparsed {review.parseFailures === 1 ? 'answer' : 'answers'}
+                </Badge>
+              )}
+            </div>
+          </div>
+
+          <a
+            href={review.sourceUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex flex-shrink-0 items-center gap-2 rounded-lg border border-gray-300 px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-700 dark:text-gray-400 dark:hover:bg-gray-800"
+          >
+            <ExternalLink className="h-4 w-4" />
+            Open in GitLab
+          </a>
+        </div>
+
+        <div className="mt-6 grid grid-cols-1 gap-6 lg:grid-cols-3">
+          <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-theme-sm dark:border-gray-800 dark:bg-gray-dark">
+            <p className="text-sm font-medium text-gray-500 dark:text-gray-400">Quality Score</p>
+            <p className="mt-2 text-title-lg font-semibold text-gray-900 dark:text-white">
+              {review.qualityScore !== null && review.qualityScore !== undefined
+                ? review.qualityScore.toFixed(1)
+                : '—'}
+              <span className="text-base font-normal text-gray-500 dark:text-gray-400"> / 100</span>
+            </p>
+            <div className="mt-4 space-y-1 text-sm text-gray-500 dark:text-gray-400">
+              <p>{changes.length} files reviewed</p>
+              <p>{issues.length} findings</p>
+              <p>
+                {(review.promptTokens + review.completionTokens).toLocaleString()} tokens · $
+                {review.estimatedCost.toFixed(4)}
+              </p>
+            </div>
+          </div>
+
+          <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-theme-sm dark:border-gray-800 dark:bg-gray-dark lg:col-span-2">
+            <h3 className="mb-4 text-sm font-semibold text-gray-900 dark:text-white">Score Breakdown</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400">
+                  <th className="pb-2 font-medium">Severity</th>
+                  <th className="pb-2 font-medium">Findings</th>
+                  <th className="pb-2 font-medium">Points each</th>
+                  <th className="pb-2 text-right font-medium">Deduction</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-700 dark:text-gray-300">
+                {breakdown.map((row) => (
+                  <tr key={row.severity} className="border-t border-gray-100 dark:border-gray-800">
+                    <td className="py-2">
+                      <span className={`rounded-lg px-2 py-0.5 text-xs font-medium capitalize ${severityColors[row.severity]}`}>
+                        {row.severity}
+                      </span>
+                    </td>
+                    <td className="py-2">{row.count}</td>
+                    <td className="py-2">{SEVERITY_IMPACT[row.severity]}</td>
+                    <td className="py-2 text-right">{row.deduction > 0 ? `-${row.deduction}` : '0'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="mt-8 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Changed Files
+            {(severityFilter || typeFilter) && (
+              <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">
+                {filteredIssues.length} of {issues.length} findings shown
+              </span>
+            )}
+          </h2>
+          <div className="flex items-center gap-2">
+            <Filter className="h-5 w-5 text-gray-400" />
+            <select
+              value={severityFilter}
+              onChange={(e) => setSeverityFilter(e.target.value as Severity | '')}
+              className="rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm capitalize dark:border-gray-700 dark:bg-gray-800"
+            >
+              <option value="">All Severities</option>
+              {SEVERITIES.map((severity) => (
+                <option key={severity} value={severity}>
+                  {severity}
+                </option>
+              ))}
+            </select>
+            <select
+              value={typeFilter}
+              onChange={(e) => setTypeFilter(e.target.value as IssueType | '')}
+              className="rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm capitalize dark:border-gray-700 dark:bg-gray-800"
+            >
+              <option value="">All Types</option>
+              {ISSUE_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {type}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {changes.length === 0 ? (
+          <div className="mt-4 rounded-xl border border-gray-200 bg-white p-6 text-sm text-gray-500 dark:border-gray-800 dark:bg-gray-dark dark:text-gray-400">
+            No file diffs were stored for this review.
+          </div>
+        ) : (
+          <div className="mt-4 space-y-4">
+            {sortedChanges.map((change, index) => {
+              const fileIssues = issuesByFile[change.filePath] || [];
+              return (
+                <FileChangeDiff
+                  // Remount when filters change so files with matching findings open again
+                  key={`${change.id}-${severityFilter}-${typeFilter}`}
+                  reviewId={review.id}
+                  change={change}
+                  issues={fileIssues}
+                  defaultOpen={fileIssues.length > 0 && index < MAX_OPEN_FILES}
+                />
+              );
+            })}
+          </div>
+        )}
+
+        {unanchoredIssues.length > 0 && (
+          <div className="mt-6 rounded-xl border border-gray-200 bg-white p-6 shadow-theme-sm dark:border-gray-800 dark:bg-gray-dark">
+            <h3 className="mb-4 text-sm font-semibold text-gray-900 dark:text-white">Other Findings</h3>
+            <div className="space-y-3">
+              {unanchoredIssues.map((issue) => (
+                <div key={issue.id} className="text-sm">
+                  <span className={`mr-2 rounded-lg px-2 py-0.5 text-xs font-medium capitalize ${severityColors[issue.severity]}`}>
+                    {issue.severity}
+                  </span>
+                  <span className="font-medium text-gray-900 dark:text-white">
+                    {issue.filePath}:{issue.line}
+                  </span>
+                  <p className="mt-1 text-gray-600 dark:text-gray-400">{issue.message}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState } from 'react';
-import { useReviews } from '@/hooks/api/useReviews';
-import { GitMerge, ExternalLink, AlertCircle, CheckCircle, Clock, XCircle, Filter } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { useInfiniteReviews, type ReviewFilters } from '@/hooks/api/useReviews';
+import { GitMerge, ExternalLink, AlertCircle, CheckCircle, Clock, XCircle, Filter, Search } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import type { ReviewStatus } from '@/types';
 
@@ -19,27 +20,218 @@ const getStatusConfig = (status: ReviewStatus) => {
   }
 };
 
+const SORT_OPTIONS = [
+  { value: 'createdAt:desc', label: 'Newest first' },
+  { value: 'createdAt:asc', label: 'Oldest first' },
+  { value: 'qualityScore:asc', label: 'Lowest score' },
+  { value: 'qualityScore:desc', label: 'Highest score' },
+  { value: 'issuesFound:desc', label: 'Most issues' },
+];
+
+const inputClass =
+  'rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm dark:border-gray-700 dark:bg-gray-800';
+
 export default function ReviewsPage() {
-  const [page, setPage] = useState(1);
-  const [statusFilter, setStatusFilter] = useState<ReviewStatus | ''>('');
-  const { data: reviewsData, isLoading, error } = useReviews({ page, limit: 20, ...(statusFilter && { status: statusFilter }) });
+  const [status, setStatus] = useState<ReviewStatus | ''>('');
+  const [minSeverity, setMinSeverity] = useState<ReviewFilters['minSeverity'] | ''>('');
+  const [sort, setSort] = useState(SORT_OPTIONS[0].value);
+  // Text and number inputs are applied on submit so typing does not fire a request per key
+  const [draft, setDraft] = useState({ search: '', targetBranch: '', minScore: '', maxScore: '' });
+  const [applied, setApplied] = useState(draft);
+
+  const [sortBy, sortOrder] = sort.split(':') as [ReviewFilters['sortBy'], ReviewFilters['sortOrder']];
+  const filters: ReviewFilters = {
+    sortBy,
+    sortOrder,
+    ...(status && { status }),
+    ...(minSeverity && { minSeverity }),
+    ...(applied.search.trim() && { search: applied.search.trim() }),
+    ...(applied.targetBranch.trim() && { targetBranch: applied.targetBranch.trim() }),
+    ...(applied.minScore !== '' && { minScore: Number(applied.minScore) }),
+    ...(applied.maxScore !== '' && { maxScore: Number(applied.maxScore) }),
+  };
 
-  if (isLoading) return <div className="py-6"><div className="mx-auto max-w-7xl px-4 sm:px-6 md:px-8"><h1 className="text-title-lg font-semibold text-gray-900 dark:text-white">Code Reviews</h1><div className="mt-6 space-y-4">{[1,2,3,4].map(i => <div key={i} className="h-32 animate-pulse rounded-xl border border-gray-200 bg-gray-100 dark:border-gray-800 dark:bg-gray-800" />)}</div></div></div>;
-  if (error || !reviewsData) return <div className="py-6"><div className="mx-auto max-w-7xl px-4 sm:px-6 md:px-8"><h1 className="text-title-lg font-semibold text-gray-900 dark:text-white">Code Reviews</h1><div className="mt-6 rounded-xl border border-error-200 bg-error-50 p-6"><p className="text-sm text-error-600">Failed to load reviews</p></div></div></div>;
+  const { data, isLoading, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteReviews(filters);
 
-  const { data: reviews, meta } = reviewsData;
+  const reviews = data?.pages.flatMap((page) => page.data) || [];
+  const total = data?.pages[0]?.meta.total ?? 0;
 
   return (
     <div className="py-6">
       <div className="mx-auto max-w-7xl px-4 sm:px-6 md:px-8">
-        <div className="flex items-center justify-between">
-          <div><h1 className="text-title-lg font-semibold text-gray-900 dark:text-white">Code Reviews</h1><p className="mt-2 text-sm text-gray-500 dark:text-gray-400">{meta.total} reviews</p></div>
-          <div className="flex items-center gap-2"><Filter className="h-5 w-5 text-gray-400" /><select value={statusFilter} onChange={(e) => { setStatusFilter(e.target.value as ReviewStatus | ''); setPage(1); }} className="rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm dark:border-gray-700 dark:bg-gray-800"><option value="">All Status</option><option value="PENDING">Pending</option><option value="PROCESSING">Processing</option><option value="COMPLETED">Completed</option><option value="FAILED">Failed</option><option value="SKIPPED">Skipped</option></select></div>
+        <div>
+          <h1 className="text-title-lg font-semibold text-gray-900 dark:text-white">Code Reviews</h1>
+          <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">{total} reviews</p>
         </div>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            setApplied(draft);
+          }}
+          className="mt-6 flex flex-wrap items-center gap-2 rounded-xl border border-gray-200 bg-white p-4 dark:border-gray-800 dark:bg-gray-dark"
+        >
+          <Filter className="h-5 w-5 text-gray-400" />
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+            <input
+              type="text"
+              value={draft.search}
+              onChange={(e) => setDraft({ ...draft, search: e.target.value })}
+              placeholder="Search titles and findings"
+              className={`${inputClass} pl-9`}
+            />
+          </div>
+          <input
+            type="text"
+            value={draft.targetBranch}
+            onChange={(e) => setDraft({ ...draft, targetBranch: e.target.value })}
+            placeholder="Target branch"
+            className={`${inputClass} w-36`}
+          />
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={draft.minScore}
+            onChange={(e) => setDraft({ ...draft, minScore: e.target.value })}
+            placeholder="Min score"
+            className={`${inputClass} w-28`}
+          />
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={draft.maxScore}
+            onChange={(e) => setDraft({ ...draft, maxScore: e.target.value })}
+            placeholder="Max score"
+            className={`${inputClass} w-28`}
+          />
+          <button
+            type="submit"
+            className="rounded-lg bg-brand-500 px-3 py-2 text-sm font-medium text-white hover:bg-brand-600"
+          >
+            Apply
+          </button>
+          <select value={status} onChange={(e) => setStatus(e.target.value as ReviewStatus | '')} className={inputClass}>
+            <option value="">All Status</option>
+            <option value="PENDING">Pending</option>
+            <option value="PROCESSING">Processing</option>
+            <option value="COMPLETED">Completed</option>
+            <option value="FAILED">Failed</option>
+            <option value="SKIPPED">Skipped</option>
+          </select>
+          <select
+            value={minSeverity}
+            onChange={(e) => setMinSeverity(e.target.value as ReviewFilters['minSeverity'] | '')}
+            className={inputClass}
+          >
+            <option value="">Any Severity</option>
+            <option value="critical">Critical findings</option>
+            <option value="high">High or above</option>
+            <option value="medium">Medium or above</option>
+            <option value="low">Any findings</option>
+          </select>
+          <select value={sort} onChange={(e) => setSort(e.target.value)} className={inputClass}>
+            {SORT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </form>
       </div>
+
       <div className="mx-auto max-w-7xl px-4 sm:px-6 md:px-8">
-        {reviews.length === 0 ? <div className="mt-6 rounded-xl border p-12 text-center"><GitMerge className="mx-auto h-12 w-12 text-gray-400" /><h3 className="mt-2 text-sm font-semibold">No reviews</h3></div> : <div className="mt-6 space-y-4">{reviews.map(review => { const statusConfig = getStatusConfig(review.status); return <div key={review.id} className="rounded-xl border p-6"><div className="flex gap-4"><div className="flex h-12 w-12 items-center justify-center rounded-full bg-brand-100 dark:bg-brand-900/20"><GitMerge className="h-6 w-6 text-brand-600" /></div><div className="flex-1 min-w-0"><div className="flex justify-between gap-2"><div className="flex-1 min-w-0"><h3 className="font-semibold truncate">{review.title}</h3><div className="mt-1 flex gap-2 text-sm text-gray-500">{review.project && <span>{review.project.namespace}/{review.project.name}</span>}<span>!{review.mergeRequestIid}</span></div></div><a href={review.sourceUrl} target="_blank" rel="noopener noreferrer" className="text-brand-500"><ExternalLink className="h-5 w-5" /></a></div><div className="mt-4 flex gap-3"><Badge variant={statusConfig.variant}><div className="flex items-center gap-1">{statusConfig.icon}{statusConfig.label}</div></Badge>{review.qualityScore !== null && review.qualityScore !== undefined && <span className="text-sm">Score: {review.qualityScore.toFixed(1)}</span>}{review.issuesFound > 0 && <span className="text-sm">{review.issuesFound} issues</span>}</div></div></div></div>; })}</div>}
-        {meta.totalPages > 1 && <div className="mt-6 flex justify-between"><p className="text-sm text-gray-500">Showing {((page-1)*meta.limit)+1} to {Math.min(page*meta.limit,meta.total)} of {meta.total}</p><div className="flex gap-2"><button onClick={() => setPage(p => Math.max(1,p-1))} disabled={page===1} className="rounded-lg border px-3 py-2 text-sm disabled:opacity-50">Previous</button><button onClick={() => setPage(p => Math.min(meta.totalPages,p+1))} disabled={page===meta.totalPages} className="rounded-lg border px-3 py-2 text-sm disabled:opacity-50">Next</button></div></div>}
+        {isLoading ? (
+          <div className="mt-6 space-y-4">
+            {[1, 2, 3, 4].map((i) => (
+              <div
+                key={i}
+                className="h-32 animate-pulse rounded-xl border border-gray-200 bg-gray-100 dark:border-gray-800 dark:bg-gray-800"
+              />
+            ))}
+          </div>
+        ) : error ? (
+          <div className="mt-6 rounded-xl border border-error-200 bg-error-50 p-6">
+            <p className="text-sm text-error-600">Failed to load reviews</p>
+          </div>
+        ) : reviews.length === 0 ? (
+          <div className="mt-6 rounded-xl border p-12 text-center">
+            <GitMerge className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-semibold">No reviews</h3>
+          </div>
+        ) : (
+          <div className="mt-6 space-y-4">
+            {reviews.map((review) => {
+              const statusConfig = getStatusConfig(review.status);
+              return (
+                <div key={review.id} className="rounded-xl border p-6">
+                  <div className="flex gap-4">
+                    <div className="flex h-12 w-12 items-center justify-center rounded-full bg-brand-100 dark:bg-brand-900/20">
+                      <GitMerge className="h-6 w-6 text-brand-600" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex justify-between gap-2">
+                        <div className="flex-1 min-w-0">
+                          <Link to={`/reviews/${review.id}`} className="block font-semibold truncate hover:text-brand-500">
+                            {review.title}
+                          </Link>
+                          <div className="mt-1 flex gap-2 text-sm text-gray-500">
+                            {review.project && (
+                              <span>
+                                {review.project.namespace}/{review.project.name}
+                              </span>
+                            )}
+                            <span>!{review.mergeRequestIid}</span>
+                            <span>→ {review.targetBranch}</span>
+                          </div>
+                        </div>
+                        <a href={review.sourceUrl} target="_blank" rel="noopener noreferrer" className="text-brand-500">
+                          <ExternalLink className="h-5 w-5" />
+                        </a>
+                      </div>
+                      <div className="mt-4 flex gap-3">
+                        <Badge variant={statusConfig.variant}>
+                          <div className="flex items-center gap-1">
+                            {statusConfig.icon}
+                            {statusConfig.label}
+                          </div>
+                        </Badge>
+                        {review.qualityScore !== null && review.qualityScore !== undefined && (
+                          <span className="text-sm">Score: {review.qualityScore.toFixed(1)}</span>
+                        )}
+                        {review.issuesFound > 0 && <span className="text-sm">{review.issuesFound} issues</span>}
+                        {review.parseFailures > 0 && (
+                          <Badge variant="warning">
+                            Incomplete: {review.parseFailures} unparsed {review.parseFailures === 1 ? 'answer' : 'answers'}
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {reviews.length > 0 && (
+          <div className="mt-6 flex items-center justify-between">
+            <p className="text-sm text-gray-500">
+              Showing {reviews.length} of {total}
+            </p>
+            {hasNextPage && (
+              <button
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+                className="rounded-lg border px-3 py-2 text-sm disabled:opacity-50"
+              >
+                {isFetchingNextPage ? 'Loading...' : 'Load more'}
+              </button>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
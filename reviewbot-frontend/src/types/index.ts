@@ -16,6 +16,19 @@ export interface Project {
   webhookUrl?: string;
   webhookSecret: string;
   isActive: boolean;
+  llmProvider?: LlmProviderName | null;
+  llmModel?: string | null;
+  gateEnabled?: boolean;
+  gateMinScore?: number | null;
+  gateMaxCritical?: number | null;
+  gateMaxHigh?: number | null;
+  gatePassLabel?: string | null;
+  gateFailLabel?: string | null;
+  gateApprove?: boolean;
+  indexEnabled?: boolean;
+  indexLocalPath?: string | null;
+  indexedSha?: string | null;
+  indexedAt?: string | null;
   createdAt: string;
   updatedAt: string;
   metrics?: ProjectMetrics;
@@ -24,6 +37,19 @@ export interface Project {
   };
 }
 
+export type LlmProviderName = 'azure' | 'openai' | 'anthropic' | 'local' | 'mock';
+
+export interface ProjectOnboardingRequest {
+  id: string;
+  gitlabProjectId: number;
+  name: string;
+  namespace: string;
+  webUrl?: string | null;
+  hookCount: number;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
 export interface ProjectMetrics {
   id: string;
   projectId: string;
@@ -31,6 +57,9 @@ export interface ProjectMetrics {
   averageScore: number;
   totalIssues: number;
   totalSuggestions: number;
+  promptTokens: number;
+  completionTokens: number;
+  estimatedCost: number;
   lastReviewAt: string | null;
   updatedAt: string;
 }
@@ -51,6 +80,15 @@ export interface Review {
   sourceUrl: string;
   targetBranch: string;
   sourceBranch: string;
+  runNumber: number;
+  isIncremental: boolean;
+  sinceSha?: string | null;
+  headSha?: string | null;
+  parseFailures: number;
+  baseSha?: string | null;
+  promptTokens: number;
+  completionTokens: number;
+  estimatedCost: number;
   createdAt: string;
   updatedAt: string;
   project?: {
@@ -61,10 +99,65 @@ export interface Review {
     username: string;
     avatarUrl?: string;
   };
+  codeChanges?: CodeChange[];
+}
+
+export interface CodeChange {
+  id: string;
+  reviewId: string;
+  filePath: string;
+  oldPath?: string | null;
+  newPath?: string | null;
+  diff: string;
+  additions: number;
+  deletions: number;
+  fileType?: string | null;
+  createdAt: string;
+}
+
+export interface CodeChangeContent {
+  id: string;
+  filePath: string;
+  oldPath?: string | null;
+  newPath?: string | null;
+  language?: string | null;
+  oldContent: string | null;
+  newContent: string | null;
 }
 
 export type ReviewStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'SKIPPED';
 
+export type IssueState = 'OPEN' | 'RESOLVED' | 'DISMISSED';
+
+export type DisputeOutcome = 'CONCEDED' | 'MAINTAINED';
+
+export interface ReviewIssue {
+  id: string;
+  reviewId: string;
+  filePath: string;
+  line: number;
+  endLine: number;
+  replacementStartLine?: number | null; // Lines replaced by the suggested fix
+  replacementEndLine?: number | null;
+  side?: 'new' | 'old';
+  severity: 'critical' | 'high' | 'medium' | 'low';
+  type: 'security' | 'performance' | 'logic' | 'style';
+  message: string;
+  suggestion?: string | null;
+  snippet?: string | null;
+  fingerprint?: string | null;
+  verificationConfidence?: string | null;
+  verificationReason?: string | null;
+  discussionId?: string | null;
+  state: IssueState;
+  disputeOutcome?: DisputeOutcome | null;
+  disputedBy?: string | null;
+  disputeReplies?: number;
+  disputedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface Developer {
   id: string;
   gitlabUserId: number;
@@ -83,6 +176,7 @@ export interface PaginatedResponse<T> {
     page: number;
     limit: number;
     totalPages: number;
+    nextCursor?: string | null;
   };
 }
 
@@ -117,6 +211,23 @@ export interface DashboardStats {
     status: ReviewStatus;
     count: number;
   }>;
+  usage: LlmUsageStats;
+}
+
+export interface LlmUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  estimatedCost: number;
+}
+
+export interface LlmUsageStats extends LlmUsageTotals {
+  byProject: Array<
+    LlmUsageTotals & {
+      projectId: string;
+      projectName: string;
+    }
+  >;
 }
 
 export interface QualityTrendData {